@@ -0,0 +1,68 @@
+// Scores the interaction severity classifier against the labeled corpora
+// in src/fixtures/severity. The development corpus is the one the rules
+// were written against. The first held-out corpus has since guided rule
+// changes too, so the second one's accuracy is the one to trust. Run with
+// `npm run evaluate:severity`.
+
+import {
+  evaluateSeverityClassifier,
+  InteractionSeverity,
+  LabeledInteractionSentence,
+  SeverityEvaluation,
+} from "../src/utils/interactionSeverity";
+import developmentCorpus from "../src/fixtures/severity/interactionSentences.json";
+import heldOutCorpus from "../src/fixtures/severity/heldOutSentences.json";
+import secondHeldOutCorpus from "../src/fixtures/severity/heldOutSentences2.json";
+
+const SEVERITIES: InteractionSeverity[] = ["none", "minor", "moderate", "major"];
+const COLUMN_WIDTH = 10;
+
+const report = (name: string, evaluation: SeverityEvaluation): void => {
+  const percent = Math.round(evaluation.accuracy * 100);
+  console.log(
+    `\n${name}: ${evaluation.correct}/${evaluation.total} correct (${percent}%)`
+  );
+
+  // Confusion matrix, expected severities down and predicted across
+  console.log(
+    `  ${"".padEnd(COLUMN_WIDTH)}${SEVERITIES.map((severity) =>
+      severity.padStart(COLUMN_WIDTH)
+    ).join("")}`
+  );
+  for (const expected of SEVERITIES) {
+    console.log(
+      `  ${expected.padEnd(COLUMN_WIDTH)}${SEVERITIES.map((predicted) =>
+        String(evaluation.confusion[expected][predicted]).padStart(
+          COLUMN_WIDTH
+        )
+      ).join("")}`
+    );
+  }
+
+  for (const example of evaluation.misclassified) {
+    console.log(
+      `  - expected ${example.severity}, got ${
+        example.predicted.severity
+      } (${example.drugs.join(" + ")}): ${example.text}`
+    );
+  }
+};
+
+report(
+  "Development corpus",
+  evaluateSeverityClassifier(
+    developmentCorpus.sentences as LabeledInteractionSentence[]
+  )
+);
+report(
+  "First held-out corpus",
+  evaluateSeverityClassifier(
+    heldOutCorpus.sentences as LabeledInteractionSentence[]
+  )
+);
+report(
+  "Second held-out corpus",
+  evaluateSeverityClassifier(
+    secondHeldOutCorpus.sentences as LabeledInteractionSentence[]
+  )
+);
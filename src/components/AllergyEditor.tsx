@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Allergy, DateFormat } from "../types";
+import Input from "./Input";
+import Button from "./Button";
+import OptionSelector from "./OptionSelector";
+import {
+  ALLERGY_CATEGORIES,
+  ALLERGY_SEVERITIES,
+  ALLERGY_VERIFICATION_STATUSES,
+  inferAllergyCategory,
+} from "../utils/allergies";
+import { formatDateInput, parseDateInput } from "../utils/dates";
+
+interface AllergyEditorProps {
+  allergy?: Allergy;
+  dateFormat: DateFormat;
+  onSave: (allergy: Omit<Allergy, "id">) => void;
+  onCancel: () => void;
+}
+
+const toOptions = (values: string[]) =>
+  values.map((value) => ({
+    value,
+    label: value.charAt(0).toUpperCase() + value.slice(1),
+  }));
+
+const AllergyEditor: React.FC<AllergyEditorProps> = ({
+  allergy,
+  dateFormat,
+  onSave,
+  onCancel,
+}) => {
+  const [allergen, setAllergen] = useState(allergy?.allergen || "");
+  const [category, setCategory] = useState<Allergy["category"]>(
+    allergy?.category || "drug"
+  );
+  // Until the user picks a category, guess it from the allergen name
+  const [categoryChosen, setCategoryChosen] = useState(!!allergy);
+  const [reaction, setReaction] = useState(allergy?.reaction || "");
+  const [severity, setSeverity] = useState<Allergy["severity"]>(
+    allergy?.severity || "unknown"
+  );
+  const [onsetDate, setOnsetDate] = useState(
+    formatDateInput(allergy?.onsetDate, dateFormat)
+  );
+  const [verificationStatus, setVerificationStatus] = useState<
+    Allergy["verificationStatus"]
+  >(allergy?.verificationStatus || "unconfirmed");
+  const [notes, setNotes] = useState(allergy?.notes || "");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleAllergenChange = (text: string) => {
+    setAllergen(text);
+    if (!categoryChosen) {
+      setCategory(inferAllergyCategory(text));
+    }
+  };
+
+  const handleSave = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!allergen.trim()) {
+      newErrors.allergen = "Allergen is required";
+    }
+    const onset = parseDateInput(onsetDate, dateFormat);
+    if (onsetDate.trim() && !onset) {
+      newErrors.onsetDate = `Please enter a valid date (${dateFormat})`;
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSave({
+      allergen: allergen.trim(),
+      category,
+      reaction: reaction.trim() || undefined,
+      severity,
+      onsetDate: onset || undefined,
+      verificationStatus,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {allergy ? "Edit Allergy" : "New Allergy"}
+      </Text>
+
+      <Input
+        label="Allergen"
+        value={allergen}
+        onChangeText={handleAllergenChange}
+        placeholder="e.g. Penicillin, Peanuts, Latex"
+        error={errors.allergen}
+        darkMode
+      />
+
+      <OptionSelector
+        label="Category"
+        options={toOptions(ALLERGY_CATEGORIES)}
+        selected={[category]}
+        onSelect={(value) => {
+          setCategory(value as Allergy["category"]);
+          setCategoryChosen(true);
+        }}
+        darkMode
+      />
+
+      <Input
+        label="Reaction"
+        value={reaction}
+        onChangeText={setReaction}
+        placeholder="e.g. Hives, Anaphylaxis"
+        darkMode
+      />
+
+      <OptionSelector
+        label="Severity"
+        options={toOptions(ALLERGY_SEVERITIES)}
+        selected={[severity]}
+        onSelect={(value) => setSeverity(value as Allergy["severity"])}
+        darkMode
+      />
+
+      <Input
+        label="Onset Date (optional)"
+        value={onsetDate}
+        onChangeText={setOnsetDate}
+        placeholder={dateFormat}
+        error={errors.onsetDate}
+        darkMode
+      />
+
+      <OptionSelector
+        label="Verification Status"
+        options={toOptions(ALLERGY_VERIFICATION_STATUSES)}
+        selected={[verificationStatus]}
+        onSelect={(value) =>
+          setVerificationStatus(value as Allergy["verificationStatus"])
+        }
+        darkMode
+      />
+
+      <Input
+        label="Notes (optional)"
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Any additional details"
+        multiline
+        darkMode
+      />
+
+      <View style={styles.actions}>
+        <Button
+          title="Cancel"
+          onPress={onCancel}
+          type="secondary"
+          style={styles.actionButton}
+        />
+        <Button
+          title={allergy ? "Save Allergy" : "Add Allergy"}
+          onPress={handleSave}
+          style={styles.actionButton}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255, 255, 255, 0.1)",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
+
+export default AllergyEditor;
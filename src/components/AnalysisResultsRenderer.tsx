@@ -1,18 +1,29 @@
 import * as React from "react";
-import { View, Text, StyleSheet, ScrollView } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
 import { MaterialIcons } from "@expo/vector-icons";
+import { LabelEvidence } from "../types";
+import { formatSectionName } from "../utils/labelEvidence";
 
 // Define the prop types
 interface SafetyAnalysisProps {
   analysisResults: any;
   isLoading: boolean;
   error: string | null;
+  // Opens the full label passage a finding cites
+  onViewEvidence?: (evidence: LabelEvidence[], title: string) => void;
 }
 
 const AnalysisResultsRenderer: React.FC<SafetyAnalysisProps> = ({
   analysisResults,
   isLoading,
   error,
+  onViewEvidence,
 }) => {
   // Simple fallback for when there are no results
   if (!analysisResults) {
@@ -28,7 +39,11 @@ const AnalysisResultsRenderer: React.FC<SafetyAnalysisProps> = ({
   // Check if we have any data to display
   const hasData =
     analysisResults.symptomSafetyData?.length > 0 ||
-    analysisResults.diagnosisSafetyData?.length > 0;
+    analysisResults.diagnosisSafetyData?.length > 0 ||
+    analysisResults.therapeuticDuplications?.length > 0 ||
+    analysisResults.drugDiseaseConflicts?.length > 0 ||
+    analysisResults.pregnancyLactationFindings?.length > 0 ||
+    analysisResults.beersCriteriaFindings?.length > 0;
 
   // If no data, show a simple message
   if (!hasData) {
@@ -53,6 +68,207 @@ const AnalysisResultsRenderer: React.FC<SafetyAnalysisProps> = ({
         </View>
       )}
 
+      {/* Pregnancy and Lactation Section */}
+      {analysisResults.pregnancyLactationFindings?.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pregnancy and Breastfeeding</Text>
+
+          {analysisResults.pregnancyLactationFindings.map(
+            (item: any, index: number) => (
+              <View key={index} style={styles.itemContainer}>
+                <Text style={styles.itemTitle}>
+                  {item.medicationName} ·{" "}
+                  {item.concern === "pregnancy" ? "Pregnancy" : "Breastfeeding"}
+                </Text>
+                <Text style={styles.riskText}>
+                  <Text
+                    style={getRiskStyle(
+                      item.level === "contraindicated"
+                        ? "high"
+                        : item.level === "warning"
+                        ? "medium"
+                        : "low"
+                    )}
+                  >
+                    {item.level === "contraindicated"
+                      ? "Not recommended"
+                      : item.level === "warning"
+                      ? "Use with caution"
+                      : "Discuss with your doctor"}
+                  </Text>
+                </Text>
+                <Text style={styles.concernText}>{item.message}</Text>
+                <Text style={styles.quoteText}>
+                  "
+                  {item.evidence.passage.slice(
+                    item.evidence.matchStart,
+                    item.evidence.matchEnd
+                  )}
+                  "
+                </Text>
+                <Text style={styles.citationText}>
+                  {item.evidence.drugName} label,{" "}
+                  {formatSectionName(item.evidence.section)}
+                  {item.evidence.version
+                    ? `, version ${item.evidence.version}`
+                    : ""}
+                </Text>
+                {onViewEvidence && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      onViewEvidence(
+                        [item.evidence],
+                        `${item.medicationName} and ${
+                          item.concern === "pregnancy"
+                            ? "pregnancy"
+                            : "breastfeeding"
+                        }`
+                      )
+                    }
+                  >
+                    <Text style={styles.linkText}>View in label</Text>
+                  </TouchableOpacity>
+                )}
+                <View style={styles.divider} />
+              </View>
+            )
+          )}
+        </View>
+      )}
+
+      {/* Beers Criteria Section */}
+      {analysisResults.beersCriteriaFindings?.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Medications for Older Adults</Text>
+
+          {analysisResults.beersCriteriaFindings.map(
+            (item: any, index: number) => (
+              <View key={index} style={styles.itemContainer}>
+                <Text style={styles.itemTitle}>
+                  {item.medicationName} · {item.drugGroup}
+                </Text>
+                <Text style={styles.riskText}>
+                  <Text
+                    style={getRiskStyle(
+                      item.recommendation === "avoid" ? "high" : "medium"
+                    )}
+                  >
+                    {item.recommendation === "avoid"
+                      ? "Avoid"
+                      : item.recommendation === "adjust dose"
+                      ? "Dose may need adjusting"
+                      : "Use with caution"}
+                  </Text>
+                </Text>
+                <Text style={styles.concernText}>{item.message}</Text>
+                <Text style={styles.concernText}>Why: {item.rationale}</Text>
+                <Text style={styles.citationText}>
+                  {item.criterion === "kidney"
+                    ? "AGS Beers Criteria, kidney function"
+                    : item.criterion === "condition"
+                    ? "AGS Beers Criteria, drug-disease interactions"
+                    : "AGS Beers Criteria, medications to avoid"}
+                </Text>
+                <View style={styles.divider} />
+              </View>
+            )
+          )}
+        </View>
+      )}
+
+      {/* Drug-Disease Section */}
+      {analysisResults.drugDiseaseConflicts?.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Medications and Your Conditions
+          </Text>
+
+          {analysisResults.drugDiseaseConflicts.map(
+            (item: any, index: number) => (
+              <View key={index} style={styles.itemContainer}>
+                <Text style={styles.itemTitle}>
+                  {item.medicationName} · {item.diagnosisName}
+                </Text>
+                <Text style={styles.riskText}>
+                  <Text
+                    style={getRiskStyle(
+                      item.classification === "absolute" ? "high" : "medium"
+                    )}
+                  >
+                    {item.classification === "absolute"
+                      ? "Contraindicated"
+                      : "Use with caution"}
+                  </Text>
+                </Text>
+                <Text style={styles.concernText}>{item.message}</Text>
+                <Text style={styles.quoteText}>
+                  "
+                  {item.evidence.passage.slice(
+                    item.evidence.matchStart,
+                    item.evidence.matchEnd
+                  )}
+                  "
+                </Text>
+                <Text style={styles.citationText}>
+                  {item.evidence.drugName} label,{" "}
+                  {formatSectionName(item.evidence.section)}
+                  {item.evidence.version
+                    ? `, version ${item.evidence.version}`
+                    : ""}
+                </Text>
+                {onViewEvidence && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      onViewEvidence(
+                        [item.evidence],
+                        `${item.medicationName} and ${item.diagnosisName}`
+                      )
+                    }
+                  >
+                    <Text style={styles.linkText}>View in label</Text>
+                  </TouchableOpacity>
+                )}
+                <View style={styles.divider} />
+              </View>
+            )
+          )}
+        </View>
+      )}
+
+      {/* Duplicate Medications Section */}
+      {analysisResults.therapeuticDuplications?.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Duplicate Medications</Text>
+
+          {analysisResults.therapeuticDuplications.map(
+            (item: any, index: number) => (
+              <View key={index} style={styles.itemContainer}>
+                <Text style={styles.itemTitle}>
+                  {item.matchType === "ingredient"
+                    ? `Same ingredient: ${item.shared}`
+                    : `Same drug class: ${item.shared}`}
+                </Text>
+                <Text style={styles.riskText}>
+                  Risk Level:{" "}
+                  <Text style={getRiskStyle(item.severity)}>
+                    {item.severity === "high" ? "High" : "Medium"}
+                  </Text>
+                </Text>
+                <View style={styles.concernsContainer}>
+                  {item.medicationNames.map((name: string, i: number) => (
+                    <Text key={i} style={styles.concernText}>
+                      • {name}
+                    </Text>
+                  ))}
+                  <Text style={styles.concernText}>{item.message}</Text>
+                </View>
+                <View style={styles.divider} />
+              </View>
+            )
+          )}
+        </View>
+      )}
+
       {/* Symptoms Section */}
       {analysisResults.symptomSafetyData?.length > 0 && (
         <View style={styles.section}>
@@ -209,6 +425,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: 4,
   },
+  quoteText: {
+    color: "#34495e",
+    fontSize: 14,
+    fontStyle: "italic",
+    marginTop: 8,
+    paddingLeft: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: "#bdc3c7",
+  },
+  citationText: {
+    color: "#7f8c8d",
+    fontSize: 12,
+    marginTop: 4,
+  },
+  linkText: {
+    color: "#4a80f5",
+    fontSize: 13,
+    fontWeight: "bold",
+    marginTop: 8,
+  },
   divider: {
     height: 1,
     backgroundColor: "#ecf0f1",
@@ -0,0 +1,77 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  ViewStyle,
+} from "react-native";
+import { formatDisplayDateTime } from "../utils/dates";
+
+interface DataAsOfProps {
+  fetchedAt: string | null;
+  stale?: boolean;
+  onRefresh?: () => void;
+  refreshing?: boolean;
+  style?: ViewStyle;
+  darkMode?: boolean;
+}
+
+/**
+ * Shows when the FDA data on screen was fetched, and whether it is an offline
+ * copy that could not be refreshed
+ */
+const DataAsOf: React.FC<DataAsOfProps> = ({
+  fetchedAt,
+  stale = false,
+  onRefresh,
+  refreshing = false,
+  style,
+  darkMode = false,
+}) => {
+  if (!fetchedAt) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={[styles.text, darkMode && styles.darkText]}>
+        Data as of {formatDisplayDateTime(fetchedAt)}
+        {stale ? " (saved copy)" : ""}
+      </Text>
+      {onRefresh &&
+        (refreshing ? (
+          <ActivityIndicator size="small" color="#4a80f5" />
+        ) : (
+          <TouchableOpacity onPress={onRefresh}>
+            <Text style={styles.refreshText}>Refresh</Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  text: {
+    flex: 1,
+    fontSize: 12,
+    fontStyle: "italic",
+    color: "#7f8c8d",
+    marginRight: 8,
+  },
+  darkText: {
+    color: "#8d8fa8",
+  },
+  refreshText: {
+    fontSize: 13,
+    fontWeight: "bold",
+    color: "#4a80f5",
+  },
+});
+
+export default DataAsOf;
@@ -0,0 +1,83 @@
+import React from "react";
+import { Text, StyleSheet, TextProps, TextStyle } from "react-native";
+
+interface HighlightedTextProps {
+  text: string;
+  // Character ranges to highlight, as [start, end)
+  ranges: [number, number][];
+  style?: TextStyle;
+  highlightStyle?: TextStyle;
+  // A range to pick out from the others, e.g. the current search match
+  activeRange?: [number, number];
+  activeHighlightStyle?: TextStyle;
+  onLayout?: TextProps["onLayout"];
+  // Reports where the text wrapped, e.g. to find the line holding a range
+  onTextLayout?: TextProps["onTextLayout"];
+}
+
+/**
+ * Text with some character ranges highlighted, e.g. the sentence of a label
+ * passage a finding was based on. Overlapping ranges are merged.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges,
+  style,
+  highlightStyle,
+  activeRange,
+  activeHighlightStyle,
+  onLayout,
+  onTextLayout,
+}) => {
+  const merged: [number, number][] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  merged.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    const active =
+      !!activeRange && activeRange[0] < end && activeRange[1] > start;
+    parts.push(
+      <Text
+        key={index}
+        style={[
+          styles.highlight,
+          highlightStyle,
+          active && styles.activeHighlight,
+          active && activeHighlightStyle,
+        ]}
+      >
+        {text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return (
+    <Text style={style} onLayout={onLayout} onTextLayout={onTextLayout}>
+      {parts}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: "#fff3b0",
+    color: "#2c3e50",
+    fontWeight: "bold",
+  },
+  activeHighlight: {
+    backgroundColor: "#ffb74d",
+  },
+});
+
+export default HighlightedText;
@@ -6,6 +6,7 @@ import {
   StyleSheet,
   ViewStyle,
   TextStyle,
+  KeyboardTypeOptions,
 } from "react-native";
 
 export interface InputProps {
@@ -20,6 +21,7 @@ export interface InputProps {
   inputStyle?: TextStyle;
   labelStyle?: TextStyle;
   darkMode?: boolean;
+  keyboardType?: KeyboardTypeOptions;
 }
 
 const Input: React.FC<InputProps> = ({
@@ -34,6 +36,7 @@ const Input: React.FC<InputProps> = ({
   inputStyle,
   labelStyle,
   darkMode = false,
+  keyboardType,
 }) => {
   return (
     <View style={[styles.container, style]}>
@@ -56,6 +59,7 @@ const Input: React.FC<InputProps> = ({
         placeholderTextColor={darkMode ? "#8d8fa8" : "#999"}
         secureTextEntry={secureTextEntry}
         multiline={multiline}
+        keyboardType={keyboardType}
       />
       {error && <Text style={styles.errorText}>{error}</Text>}
     </View>
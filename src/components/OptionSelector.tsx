@@ -0,0 +1,109 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+} from "react-native";
+
+interface OptionSelectorProps {
+  label?: string;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onSelect: (value: string) => void;
+  error?: string;
+  style?: ViewStyle;
+  darkMode?: boolean;
+}
+
+const OptionSelector: React.FC<OptionSelectorProps> = ({
+  label,
+  options,
+  selected,
+  onSelect,
+  error,
+  style,
+  darkMode = false,
+}) => {
+  return (
+    <View style={[styles.container, style]}>
+      {label && (
+        <Text style={[styles.label, darkMode && styles.darkLabel]}>{label}</Text>
+      )}
+      <View style={styles.options}>
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, isSelected && styles.selectedOption]}
+              onPress={() => onSelect(option.value)}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  darkMode && styles.darkOptionText,
+                  isSelected && styles.selectedOptionText,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginBottom: 8,
+    color: "#333",
+  },
+  darkLabel: {
+    color: "white",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  option: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedOption: {
+    backgroundColor: "#4a80f5",
+  },
+  optionText: {
+    color: "#4a80f5",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  darkOptionText: {
+    color: "white",
+  },
+  selectedOptionText: {
+    color: "white",
+  },
+  errorText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
+
+export default OptionSelector;
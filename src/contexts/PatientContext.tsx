@@ -1,13 +1,70 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Patient, Medication, Symptom, Diagnosis, MedicalHistory } from '../types';
+import {
+  Patient,
+  Medication,
+  Symptom,
+  Diagnosis,
+  MedicalHistory,
+  Allergy,
+  ChangeLogEntry,
+  DateFormat,
+} from '../types';
 import { generateId } from '../utils/helpers';
+import { DATE_FORMATS, getDefaultDateFormat } from '../utils/dates';
+import {
+  getData,
+  getEncryptedData,
+  removeEncryptedData,
+  storeData,
+  storeEncryptedData,
+} from '../services/StorageService';
+import {
+  appendChangeLogEntries,
+  clearChangeLog,
+  getChangeLog,
+  isUndoable,
+  revertChange,
+} from '../services/ChangeLogService';
+import {
+  CURRENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  getQuarantinedRecords,
+  migratePatientRecords,
+  quarantineRecords,
+} from '../services/MigrationService';
+import { ImportItem, applyImportItems } from '../services/ImportService';
+
+// Storage keys. Profiles are encrypted at rest; the active profile id is not sensitive.
+const PROFILES_KEY = 'patients';
+const ACTIVE_PROFILE_KEY = 'activePatientId';
+// Single-patient key used before profiles were introduced
+const LEGACY_PATIENT_KEY = 'patient';
+const CAREGIVER_KEY = 'caregiverName';
+const DATE_FORMAT_KEY = 'dateFormat';
+
+type PendingChange = Pick<
+  ChangeLogEntry,
+  'entityType' | 'entityId' | 'action' | 'before' | 'after' | 'undoneEntryId'
+>;
 
 interface PatientContextType {
   patient: Patient | null;
+  profiles: Patient[];
+  activeProfileId: string | null;
+  quarantinedRecords: QuarantinedRecord[];
+  changeLog: ChangeLogEntry[];
+  caregiverName: string;
+  dateFormat: DateFormat;
   loading: boolean;
   error: string | null;
-  initializePatient: (data: Omit<Patient, 'id'>) => Promise<void>;
+  // Set when stored patient data couldn't be read; changes aren't saved
+  // until it is read by retryLoad or cleared by resetPatientData
+  loadFailed: boolean;
+  addProfile: (data: Omit<Patient, 'id' | 'schemaVersion'>) => Promise<void>;
+  switchProfile: (id: string) => Promise<void>;
+  renameProfile: (id: string, name: string) => Promise<void>;
+  deleteProfile: (id: string) => Promise<void>;
   updatePatient: (data: Partial<Patient>) => Promise<void>;
   addMedication: (medication: Omit<Medication, 'id'>) => Promise<void>;
   updateMedication: (id: string, medication: Partial<Medication>) => Promise<void>;
@@ -21,169 +78,645 @@ interface PatientContextType {
   addMedicalHistory: (history: Omit<MedicalHistory, 'id'>) => Promise<void>;
   updateMedicalHistory: (id: string, history: Partial<MedicalHistory>) => Promise<void>;
   deleteMedicalHistory: (id: string) => Promise<void>;
-  addAllergy: (allergy: string) => Promise<void>;
-  deleteAllergy: (allergy: string) => Promise<void>;
+  addAllergy: (allergy: Omit<Allergy, 'id'>) => Promise<void>;
+  updateAllergy: (id: string, allergy: Partial<Allergy>) => Promise<void>;
+  deleteAllergy: (id: string) => Promise<void>;
+  importRecords: (items: ImportItem[]) => Promise<number>;
+  undoChange: (entryId: string) => Promise<void>;
+  setCaregiverName: (name: string) => Promise<void>;
+  setDateFormat: (format: DateFormat) => Promise<void>;
+  retryLoad: () => void;
+  resetPatientData: () => Promise<void>;
 }
 
 const PatientContext = createContext<PatientContextType | undefined>(undefined);
 
 export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [patient, setPatient] = useState<Patient | null>(null);
+  const [profiles, setProfiles] = useState<Patient[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>([]);
+  const [caregiverName, setCaregiverNameState] = useState<string>('');
+  const [dateFormat, setDateFormatState] = useState<DateFormat>(getDefaultDateFormat);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when stored profiles couldn't be read. Saving would then replace the
+  // stored record with the empty in-memory list, so saves are refused.
+  const [loadFailed, setLoadFailed] = useState<boolean>(false);
+  // Incremented to read stored data again after a failed load
+  const [loadAttempt, setLoadAttempt] = useState<number>(0);
+
+  const patient = profiles.find(p => p.id === activeProfileId) || null;
 
   useEffect(() => {
-    const loadPatient = async () => {
+    const loadProfiles = async () => {
       try {
-        const storedPatient = await AsyncStorage.getItem('patient');
-        if (storedPatient) {
-          setPatient(JSON.parse(storedPatient));
+        const storedActiveId = await AsyncStorage.getItem(ACTIVE_PROFILE_KEY);
+        setChangeLog(await getChangeLog());
+        setCaregiverNameState((await getData(CAREGIVER_KEY)) || '');
+        const storedDateFormat = await getData(DATE_FORMAT_KEY);
+        if (DATE_FORMATS.includes(storedDateFormat)) {
+          setDateFormatState(storedDateFormat);
+        }
+        const encryptedProfiles = await getEncryptedData(PROFILES_KEY);
+        // Plaintext data from earlier versions is encrypted on first run, and
+        // single-patient data is migrated into the first profile
+        const plaintextProfiles = encryptedProfiles
+          ? null
+          : await AsyncStorage.getItem(PROFILES_KEY);
+        const legacyPatient =
+          encryptedProfiles || plaintextProfiles
+            ? null
+            : await AsyncStorage.getItem(LEGACY_PATIENT_KEY);
+        const storedValue = encryptedProfiles || plaintextProfiles || legacyPatient;
+        if (!storedValue) return;
+
+        let rawRecords: unknown[];
+        let unreadable = false;
+        try {
+          const parsed = JSON.parse(storedValue);
+          rawRecords = Array.isArray(parsed) ? parsed : [parsed];
+        } catch (parseError: unknown) {
+          // An unreadable blob is quarantined as a whole
+          rawRecords = [];
+          unreadable = true;
+          await quarantineRecords([
+            {
+              recordId: null,
+              schemaVersion: null,
+              quarantinedAt: new Date().toISOString(),
+              error: `Stored data is not valid JSON: ${
+                parseError instanceof Error ? parseError.message : parseError
+              }`,
+              data: storedValue,
+            },
+          ]);
+        }
+
+        const { patients, quarantined, changed } =
+          migratePatientRecords(rawRecords);
+        if (quarantined.length > 0) {
+          await quarantineRecords(quarantined);
+        }
+
+        const activeId = patients.some(p => p.id === storedActiveId)
+          ? storedActiveId
+          : patients[0]?.id ?? null;
+
+        if (changed || unreadable || !encryptedProfiles) {
+          const saved = await saveProfiles(patients, activeId);
+          // Only drop the plaintext copy once the encrypted one is written
+          if (saved && !encryptedProfiles) {
+            await AsyncStorage.multiRemove([PROFILES_KEY, LEGACY_PATIENT_KEY]);
+          }
+        } else {
+          setProfiles(patients);
+          setActiveProfileId(activeId);
         }
       } catch (err) {
+        setLoadFailed(true);
         setError('Failed to load patient data');
         console.error(err);
       } finally {
+        setQuarantinedRecords(await getQuarantinedRecords().catch(() => []));
         setLoading(false);
       }
     };
 
-    loadPatient();
-  }, []);
+    loadProfiles();
+  }, [loadAttempt]);
 
-  const savePatient = async (updatedPatient: Patient) => {
+  const retryLoad = () => {
+    setLoadFailed(false);
+    setError(null);
+    setLoading(true);
+    setLoadAttempt(attempt => attempt + 1);
+  };
+
+  /**
+   * Deletes stored profiles that couldn't be read, e.g. after the encryption
+   * key was lost, so the app can be used again. The change history is kept
+   * unless it can't be read either.
+   */
+  const resetPatientData = async () => {
     try {
-      const jsonValue = JSON.stringify(updatedPatient);
-      await AsyncStorage.setItem('patient', jsonValue);
-      setPatient(updatedPatient);
+      await removeEncryptedData(PROFILES_KEY);
+      await AsyncStorage.multiRemove([
+        PROFILES_KEY,
+        LEGACY_PATIENT_KEY,
+        ACTIVE_PROFILE_KEY,
+      ]);
+      const log = await getChangeLog().catch(async () => {
+        await clearChangeLog();
+        return [];
+      });
+      setChangeLog(log);
+      setProfiles([]);
+      setActiveProfileId(null);
+      setLoadFailed(false);
+      setError(null);
+    } catch (err) {
+      setError('Failed to reset patient data');
+      console.error(err);
+    }
+  };
+
+  const saveProfiles = async (
+    updatedProfiles: Patient[],
+    activeId: string | null
+  ): Promise<boolean> => {
+    if (loadFailed) {
+      setError('Patient data could not be loaded, so changes are not saved');
+      return false;
+    }
+    try {
+      // Every saved record is stamped with the schema version it was written in
+      const versionedProfiles = updatedProfiles.map(p => ({
+        ...p,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      }));
+      await storeEncryptedData(PROFILES_KEY, JSON.stringify(versionedProfiles));
+      if (activeId) {
+        await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, activeId);
+      } else {
+        await AsyncStorage.removeItem(ACTIVE_PROFILE_KEY);
+      }
+      setProfiles(versionedProfiles);
+      setActiveProfileId(activeId);
+      return true;
     } catch (err) {
       setError('Failed to save patient data');
       console.error(err);
+      return false;
     }
   };
 
-  const initializePatient = async (data: Omit<Patient, 'id'>) => {
+  const recordChanges = async (profileId: string, changes: PendingChange[]) => {
+    try {
+      const timestamp = new Date().toISOString();
+      const entries: ChangeLogEntry[] = changes.map(change => ({
+        ...change,
+        id: generateId(),
+        timestamp,
+        profileId,
+        changedBy: caregiverName || undefined,
+      }));
+      await appendChangeLogEntries(entries);
+      setChangeLog(log => [...log, ...entries]);
+    } catch (err) {
+      setError('Failed to record change history');
+      console.error(err);
+    }
+  };
+
+  const recordChange = (profileId: string, change: PendingChange) =>
+    recordChanges(profileId, [change]);
+
+  const savePatient = async (updatedPatient: Patient, change: PendingChange) => {
+    const updatedProfiles = profiles.map(p =>
+      p.id === updatedPatient.id ? updatedPatient : p
+    );
+    if (await saveProfiles(updatedProfiles, activeProfileId)) {
+      await recordChange(updatedPatient.id, change);
+    }
+  };
+
+  const addProfile = async (data: Omit<Patient, 'id' | 'schemaVersion'>) => {
     const newPatient: Patient = {
       ...data,
       id: generateId(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       medications: [],
       symptoms: [],
       diagnoses: [],
       medicalHistory: [],
       allergies: [],
     };
-    await savePatient(newPatient);
+    if (await saveProfiles([...profiles, newPatient], newPatient.id)) {
+      await recordChange(newPatient.id, {
+        entityType: 'profile',
+        entityId: newPatient.id,
+        action: 'create',
+        before: null,
+        after: newPatient,
+      });
+    }
+  };
+
+  // Only the active profile id changes, so the profiles aren't rewritten
+  const switchProfile = async (id: string) => {
+    if (!profiles.some(p => p.id === id)) return;
+    try {
+      await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, id);
+      setActiveProfileId(id);
+    } catch (err) {
+      setError('Failed to switch profile');
+      console.error(err);
+    }
+  };
+
+  const renameProfile = async (id: string, name: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || !name.trim()) return;
+    const updatedProfiles = profiles.map(p =>
+      p.id === id ? { ...p, name: name.trim() } : p
+    );
+    if (await saveProfiles(updatedProfiles, activeProfileId)) {
+      await recordChange(id, {
+        entityType: 'profile',
+        entityId: id,
+        action: 'update',
+        before: { name: profile.name },
+        after: { name: name.trim() },
+      });
+    }
+  };
+
+  const deleteProfile = async (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    const updatedProfiles = profiles.filter(p => p.id !== id);
+    // Fall back to the first remaining profile when the active one is removed
+    const nextActiveId =
+      activeProfileId === id ? updatedProfiles[0]?.id ?? null : activeProfileId;
+    if (await saveProfiles(updatedProfiles, nextActiveId)) {
+      await recordChange(id, {
+        entityType: 'profile',
+        entityId: id,
+        action: 'delete',
+        before: profile,
+        after: null,
+      });
+    }
   };
 
   const updatePatient = async (data: Partial<Patient>) => {
     if (!patient) return;
     const updatedPatient = { ...patient, ...data };
-    await savePatient(updatedPatient);
+    const before = Object.fromEntries(
+      Object.keys(data).map(key => [key, patient[key as keyof Patient]])
+    );
+    await savePatient(updatedPatient, {
+      entityType: 'profile',
+      entityId: patient.id,
+      action: 'update',
+      before,
+      after: data,
+    });
   };
 
   const addMedication = async (medication: Omit<Medication, 'id'>) => {
     if (!patient) return;
     const newMedication: Medication = { ...medication, id: generateId() };
     const updatedMedications = [...patient.medications, newMedication];
-    await savePatient({ ...patient, medications: updatedMedications });
+    await savePatient(
+      { ...patient, medications: updatedMedications },
+      {
+        entityType: 'medication',
+        entityId: newMedication.id,
+        action: 'create',
+        before: null,
+        after: newMedication,
+      }
+    );
   };
 
   const updateMedication = async (id: string, medication: Partial<Medication>) => {
     if (!patient) return;
-    const updatedMedications = patient.medications.map(med => 
-      med.id === id ? { ...med, ...medication } : med
+    const existing = patient.medications.find(med => med.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...medication };
+    const updatedMedications = patient.medications.map(med =>
+      med.id === id ? updated : med
+    );
+    await savePatient(
+      { ...patient, medications: updatedMedications },
+      {
+        entityType: 'medication',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }
     );
-    await savePatient({ ...patient, medications: updatedMedications });
   };
 
   const deleteMedication = async (id: string) => {
     if (!patient) return;
+    const existing = patient.medications.find(med => med.id === id);
+    if (!existing) return;
     const updatedMedications = patient.medications.filter(med => med.id !== id);
-    await savePatient({ ...patient, medications: updatedMedications });
+    await savePatient(
+      { ...patient, medications: updatedMedications },
+      {
+        entityType: 'medication',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+        after: null,
+      }
+    );
   };
 
   const addSymptom = async (symptom: Omit<Symptom, 'id'>) => {
     if (!patient) return;
     const newSymptom: Symptom = { ...symptom, id: generateId() };
     const updatedSymptoms = [...patient.symptoms, newSymptom];
-    await savePatient({ ...patient, symptoms: updatedSymptoms });
+    await savePatient(
+      { ...patient, symptoms: updatedSymptoms },
+      {
+        entityType: 'symptom',
+        entityId: newSymptom.id,
+        action: 'create',
+        before: null,
+        after: newSymptom,
+      }
+    );
   };
 
   const updateSymptom = async (id: string, symptom: Partial<Symptom>) => {
     if (!patient) return;
-    const updatedSymptoms = patient.symptoms.map(sym => 
-      sym.id === id ? { ...sym, ...symptom } : sym
+    const existing = patient.symptoms.find(sym => sym.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...symptom };
+    const updatedSymptoms = patient.symptoms.map(sym =>
+      sym.id === id ? updated : sym
+    );
+    await savePatient(
+      { ...patient, symptoms: updatedSymptoms },
+      {
+        entityType: 'symptom',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }
     );
-    await savePatient({ ...patient, symptoms: updatedSymptoms });
   };
 
   const deleteSymptom = async (id: string) => {
     if (!patient) return;
+    const existing = patient.symptoms.find(sym => sym.id === id);
+    if (!existing) return;
     const updatedSymptoms = patient.symptoms.filter(sym => sym.id !== id);
-    await savePatient({ ...patient, symptoms: updatedSymptoms });
+    await savePatient(
+      { ...patient, symptoms: updatedSymptoms },
+      {
+        entityType: 'symptom',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+        after: null,
+      }
+    );
   };
 
   const addDiagnosis = async (diagnosis: Omit<Diagnosis, 'id'>) => {
     if (!patient) return;
     const newDiagnosis: Diagnosis = { ...diagnosis, id: generateId() };
     const updatedDiagnoses = [...patient.diagnoses, newDiagnosis];
-    await savePatient({ ...patient, diagnoses: updatedDiagnoses });
+    await savePatient(
+      { ...patient, diagnoses: updatedDiagnoses },
+      {
+        entityType: 'diagnosis',
+        entityId: newDiagnosis.id,
+        action: 'create',
+        before: null,
+        after: newDiagnosis,
+      }
+    );
   };
 
   const updateDiagnosis = async (id: string, diagnosis: Partial<Diagnosis>) => {
     if (!patient) return;
-    const updatedDiagnoses = patient.diagnoses.map(diag => 
-      diag.id === id ? { ...diag, ...diagnosis } : diag
+    const existing = patient.diagnoses.find(diag => diag.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...diagnosis };
+    const updatedDiagnoses = patient.diagnoses.map(diag =>
+      diag.id === id ? updated : diag
+    );
+    await savePatient(
+      { ...patient, diagnoses: updatedDiagnoses },
+      {
+        entityType: 'diagnosis',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }
     );
-    await savePatient({ ...patient, diagnoses: updatedDiagnoses });
   };
 
   const deleteDiagnosis = async (id: string) => {
     if (!patient) return;
+    const existing = patient.diagnoses.find(diag => diag.id === id);
+    if (!existing) return;
     const updatedDiagnoses = patient.diagnoses.filter(diag => diag.id !== id);
-    await savePatient({ ...patient, diagnoses: updatedDiagnoses });
+    await savePatient(
+      { ...patient, diagnoses: updatedDiagnoses },
+      {
+        entityType: 'diagnosis',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+        after: null,
+      }
+    );
   };
 
   const addMedicalHistory = async (history: Omit<MedicalHistory, 'id'>) => {
     if (!patient) return;
     const newHistory: MedicalHistory = { ...history, id: generateId() };
     const updatedHistory = [...patient.medicalHistory, newHistory];
-    await savePatient({ ...patient, medicalHistory: updatedHistory });
+    await savePatient(
+      { ...patient, medicalHistory: updatedHistory },
+      {
+        entityType: 'medicalHistory',
+        entityId: newHistory.id,
+        action: 'create',
+        before: null,
+        after: newHistory,
+      }
+    );
   };
 
   const updateMedicalHistory = async (id: string, history: Partial<MedicalHistory>) => {
     if (!patient) return;
-    const updatedHistory = patient.medicalHistory.map(hist => 
-      hist.id === id ? { ...hist, ...history } : hist
+    const existing = patient.medicalHistory.find(hist => hist.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...history };
+    const updatedHistory = patient.medicalHistory.map(hist =>
+      hist.id === id ? updated : hist
+    );
+    await savePatient(
+      { ...patient, medicalHistory: updatedHistory },
+      {
+        entityType: 'medicalHistory',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }
     );
-    await savePatient({ ...patient, medicalHistory: updatedHistory });
   };
 
   const deleteMedicalHistory = async (id: string) => {
     if (!patient) return;
+    const existing = patient.medicalHistory.find(hist => hist.id === id);
+    if (!existing) return;
     const updatedHistory = patient.medicalHistory.filter(hist => hist.id !== id);
-    await savePatient({ ...patient, medicalHistory: updatedHistory });
+    await savePatient(
+      { ...patient, medicalHistory: updatedHistory },
+      {
+        entityType: 'medicalHistory',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+        after: null,
+      }
+    );
   };
 
-  const addAllergy = async (allergy: string) => {
+  const addAllergy = async (allergy: Omit<Allergy, 'id'>) => {
     if (!patient) return;
-    if (patient.allergies.includes(allergy)) return;
-    const updatedAllergies = [...patient.allergies, allergy];
-    await savePatient({ ...patient, allergies: updatedAllergies });
+    const newAllergy: Allergy = { ...allergy, id: generateId() };
+    const updatedAllergies = [...patient.allergies, newAllergy];
+    await savePatient(
+      { ...patient, allergies: updatedAllergies },
+      {
+        entityType: 'allergy',
+        entityId: newAllergy.id,
+        action: 'create',
+        before: null,
+        after: newAllergy,
+      }
+    );
   };
 
-  const deleteAllergy = async (allergy: string) => {
+  const updateAllergy = async (id: string, allergy: Partial<Allergy>) => {
     if (!patient) return;
-    const updatedAllergies = patient.allergies.filter(a => a !== allergy);
-    await savePatient({ ...patient, allergies: updatedAllergies });
+    const existing = patient.allergies.find(a => a.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...allergy };
+    const updatedAllergies = patient.allergies.map(a =>
+      a.id === id ? updated : a
+    );
+    await savePatient(
+      { ...patient, allergies: updatedAllergies },
+      {
+        entityType: 'allergy',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }
+    );
+  };
+
+  const deleteAllergy = async (id: string) => {
+    if (!patient) return;
+    const existing = patient.allergies.find(a => a.id === id);
+    if (!existing) return;
+    const updatedAllergies = patient.allergies.filter(a => a.id !== id);
+    await savePatient(
+      { ...patient, allergies: updatedAllergies },
+      {
+        entityType: 'allergy',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+        after: null,
+      }
+    );
+  };
+
+  // Imported entries are saved together so one file is a single write, with
+  // each added or merged entry logged on its own
+  const importRecords = async (items: ImportItem[]): Promise<number> => {
+    if (!patient) return 0;
+    const { patient: updatedPatient, changes } = applyImportItems(patient, items);
+    if (changes.length === 0) return 0;
+    const updatedProfiles = profiles.map(p =>
+      p.id === updatedPatient.id ? updatedPatient : p
+    );
+    if (!(await saveProfiles(updatedProfiles, activeProfileId))) {
+      throw new Error('Failed to save imported records');
+    }
+    await recordChanges(updatedPatient.id, changes);
+    return changes.length;
+  };
+
+  const undoChange = async (entryId: string) => {
+    const entry = changeLog.find(e => e.id === entryId);
+    if (!entry || !isUndoable(changeLog, entry)) return;
+
+    let updatedProfiles: Patient[];
+    let nextActiveId = activeProfileId;
+
+    if (entry.entityType === 'profile' && entry.action === 'create') {
+      updatedProfiles = profiles.filter(p => p.id !== entry.profileId);
+      if (nextActiveId === entry.profileId) {
+        nextActiveId = updatedProfiles[0]?.id ?? null;
+      }
+    } else if (entry.entityType === 'profile' && entry.action === 'delete') {
+      updatedProfiles = [...profiles, entry.before as Patient];
+      nextActiveId = nextActiveId ?? entry.profileId;
+    } else {
+      const target = profiles.find(p => p.id === entry.profileId);
+      if (!target) return;
+      const reverted = revertChange(target, entry);
+      updatedProfiles = profiles.map(p => (p.id === target.id ? reverted : p));
+    }
+
+    if (await saveProfiles(updatedProfiles, nextActiveId)) {
+      await recordChange(entry.profileId, {
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: 'undo',
+        before: entry.after,
+        after: entry.before,
+        undoneEntryId: entry.id,
+      });
+    }
+  };
+
+  const setCaregiverName = async (name: string) => {
+    try {
+      await storeData(CAREGIVER_KEY, name.trim());
+      setCaregiverNameState(name.trim());
+    } catch (err) {
+      setError('Failed to save caregiver name');
+      console.error(err);
+    }
+  };
+
+  const setDateFormat = async (format: DateFormat) => {
+    try {
+      await storeData(DATE_FORMAT_KEY, format);
+      setDateFormatState(format);
+    } catch (err) {
+      setError('Failed to save date format');
+      console.error(err);
+    }
   };
 
   return (
     <PatientContext.Provider
       value={{
         patient,
+        profiles,
+        activeProfileId,
+        quarantinedRecords,
+        changeLog,
+        caregiverName,
+        dateFormat,
         loading,
         error,
-        initializePatient,
+        loadFailed,
+        addProfile,
+        switchProfile,
+        renameProfile,
+        deleteProfile,
         updatePatient,
         addMedication,
         updateMedication,
@@ -198,7 +731,14 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
         updateMedicalHistory,
         deleteMedicalHistory,
         addAllergy,
+        updateAllergy,
         deleteAllergy,
+        importRecords,
+        undoChange,
+        setCaregiverName,
+        setDateFormat,
+        retryLoad,
+        resetPatientData,
       }}
     >
       {children}
@@ -212,4 +752,4 @@ export const usePatient = (): PatientContextType => {
     throw new Error('usePatient must be used within a PatientProvider');
   }
   return context;
-}; 
\ No newline at end of file
+};
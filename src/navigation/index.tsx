@@ -6,6 +6,7 @@ import { RootStackParamList } from "../types";
 // Import screens
 import HomeScreen from "../screens/HomeScreen";
 import ProfileScreen from "../screens/ProfileScreen";
+import ProfilesScreen from "../screens/ProfilesScreen";
 import MedicationsScreen from "../screens/MedicationsScreen";
 import AddMedicationScreen from "../screens/AddMedicationScreen";
 import MedicationDetailScreen from "../screens/MedicationDetailScreen";
@@ -16,6 +17,11 @@ import AddDiagnosisScreen from "../screens/AddDiagnosisScreen";
 import MedicalHistoryScreen from "../screens/MedicalHistoryScreen";
 import AddMedicalHistoryScreen from "../screens/AddMedicalHistoryScreen";
 import AnalysisScreen from "../screens/AnalysisScreen";
+import ChangeHistoryScreen from "../screens/ChangeHistoryScreen";
+import ImportRecordScreen from "../screens/ImportRecordScreen";
+import LabelEvidenceScreen from "../screens/LabelEvidenceScreen";
+import LabelBrowserScreen from "../screens/LabelBrowserScreen";
+import SettingsScreen from "../screens/SettingsScreen";
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -47,6 +53,11 @@ const Navigation = () => {
           component={ProfileScreen}
           options={{ title: "My Profile" }}
         />
+        <Stack.Screen
+          name="Profiles"
+          component={ProfilesScreen}
+          options={{ title: "Profiles" }}
+        />
         <Stack.Screen
           name="Medications"
           component={MedicationsScreen}
@@ -97,6 +108,31 @@ const Navigation = () => {
           component={AnalysisScreen}
           options={{ title: "Safety Analysis" }}
         />
+        <Stack.Screen
+          name="ChangeHistory"
+          component={ChangeHistoryScreen}
+          options={{ title: "Change History" }}
+        />
+        <Stack.Screen
+          name="ImportRecord"
+          component={ImportRecordScreen}
+          options={{ title: "Import Health Record" }}
+        />
+        <Stack.Screen
+          name="LabelEvidence"
+          component={LabelEvidenceScreen}
+          options={{ title: "Label Evidence" }}
+        />
+        <Stack.Screen
+          name="LabelBrowser"
+          component={LabelBrowserScreen}
+          options={{ title: "FDA Label" }}
+        />
+        <Stack.Screen
+          name="Settings"
+          component={SettingsScreen}
+          options={{ title: "Settings" }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
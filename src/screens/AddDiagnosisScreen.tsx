@@ -5,10 +5,11 @@ import { usePatient } from '../contexts/PatientContext';
 import Input from '../components/Input';
 import Button from '../components/Button';
 import Card from '../components/Card';
+import { parseDateInput } from '../utils/dates';
 
 const AddDiagnosisScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { patient, addDiagnosis } = usePatient();
+  const { patient, addDiagnosis, dateFormat } = usePatient();
 
   const [name, setName] = useState('');
   const [diagnosedDate, setDiagnosedDate] = useState('');
@@ -25,12 +26,8 @@ const AddDiagnosisScreen: React.FC = () => {
 
     if (!diagnosedDate.trim()) {
       newErrors.diagnosedDate = 'Diagnosis date is required';
-    } else {
-      // Basic date validation (MM/DD/YYYY)
-      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
-      if (!dateRegex.test(diagnosedDate)) {
-        newErrors.diagnosedDate = 'Please use MM/DD/YYYY format';
-      }
+    } else if (!parseDateInput(diagnosedDate, dateFormat)) {
+      newErrors.diagnosedDate = `Please enter a valid date (${dateFormat})`;
     }
 
     if (!diagnosedBy.trim()) {
@@ -47,7 +44,7 @@ const AddDiagnosisScreen: React.FC = () => {
     try {
       await addDiagnosis({
         name,
-        diagnosedDate,
+        diagnosedDate: parseDateInput(diagnosedDate, dateFormat)!,
         diagnosedBy,
         notes: notes.trim() || undefined,
       });
@@ -87,7 +84,7 @@ const AddDiagnosisScreen: React.FC = () => {
           label="Date Diagnosed"
           value={diagnosedDate}
           onChangeText={setDiagnosedDate}
-          placeholder="MM/DD/YYYY"
+          placeholder={dateFormat}
           error={errors.diagnosedDate}
         />
 
@@ -6,10 +6,11 @@ import { MedicalHistory } from '../types';
 import Input from '../components/Input';
 import Button from '../components/Button';
 import Card from '../components/Card';
+import { parseDateInput } from '../utils/dates';
 
 const AddMedicalHistoryScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { patient, addMedicalHistory } = usePatient();
+  const { patient, addMedicalHistory, dateFormat } = usePatient();
 
   const [name, setName] = useState('');
   const [type, setType] = useState<MedicalHistory['type']>('other');
@@ -26,12 +27,8 @@ const AddMedicalHistoryScreen: React.FC = () => {
 
     if (!date.trim()) {
       newErrors.date = 'Date is required';
-    } else {
-      // Basic date validation (MM/DD/YYYY)
-      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
-      if (!dateRegex.test(date)) {
-        newErrors.date = 'Please use MM/DD/YYYY format';
-      }
+    } else if (!parseDateInput(date, dateFormat)) {
+      newErrors.date = `Please enter a valid date (${dateFormat})`;
     }
 
     setErrors(newErrors);
@@ -45,7 +42,7 @@ const AddMedicalHistoryScreen: React.FC = () => {
       await addMedicalHistory({
         name,
         type,
-        date,
+        date: parseDateInput(date, dateFormat)!,
         notes: notes.trim() || undefined,
       });
       navigation.goBack();
@@ -120,7 +117,7 @@ const AddMedicalHistoryScreen: React.FC = () => {
           label="Date"
           value={date}
           onChangeText={setDate}
-          placeholder="MM/DD/YYYY"
+          placeholder={dateFormat}
           error={errors.date}
         />
 
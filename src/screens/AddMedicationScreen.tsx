@@ -1,27 +1,79 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
-import { RootStackParamList } from '../types';
+import { MedicationIdentity, RootStackParamList } from '../types';
+import { NdcProduct } from '../types/openfda';
 import { usePatient } from '../contexts/PatientContext';
 import Input from '../components/Input';
 import Button from '../components/Button';
 import Card from '../components/Card';
-import { searchMedication } from '../services/FdaService';
+import OptionSelector from '../components/OptionSelector';
+import { lookupNdc, searchMedication } from '../services/FdaService';
+import { checkAllergyConflicts } from '../services/AllergyCheckService';
+import { checkDuplicationsWith } from '../services/DuplicationService';
+import {
+  getMedicationIdentity,
+  identityFromNdcProduct,
+} from '../services/DrugNormalizationService';
+import {
+  DAY_LABELS,
+  DOSE_FORMS,
+  DOSE_ROUTES,
+  DOSE_UNITS,
+  formatDose,
+  formatSchedule,
+  parseDose,
+} from '../utils/dosage';
+import { isSamePackageNdc } from '../utils/ndc';
+import { formatDateInput, parseDateInput } from '../utils/dates';
+
+const toOptions = (values: string[]) =>
+  values.map(value => ({ value, label: value }));
+
+const DAY_OPTIONS = DAY_LABELS.map((label, day) => ({ value: String(day), label }));
+
+// The NDC code that was looked up, what was stored for it and, when it was
+// looked up on this screen, the product it matched
+interface NdcMatch {
+  input: string;
+  ndc: string;
+  product?: NdcProduct;
+}
+
+// e.g. "Lipitor · atorvastatin calcium 40 mg/1 · tablet · Sample Pharmaceuticals"
+const describeNdcProduct = (product: NdcProduct) =>
+  [
+    product.brand_name || product.generic_name,
+    (product.active_ingredients || [])
+      .map(ingredient => `${ingredient.name.toLowerCase()} ${ingredient.strength || ''}`.trim())
+      .join(', '),
+    product.dosage_form?.toLowerCase(),
+    product.labeler_name,
+  ]
+    .filter(Boolean)
+    .join(' · ');
 
 type AddMedicationScreenRouteProp = RouteProp<RootStackParamList, 'AddMedication'>;
 
 const AddMedicationScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<AddMedicationScreenRouteProp>();
-  const { patient, addMedication, updateMedication } = usePatient();
+  const { patient, addMedication, updateMedication, dateFormat } = usePatient();
 
   const medicationId = (route.params as any)?.medicationId;
   const existingMedication = patient?.medications.find(med => med.id === medicationId);
   const isEditing = !!existingMedication;
 
   const [name, setName] = useState('');
-  const [dosage, setDosage] = useState('');
-  const [frequency, setFrequency] = useState('');
+  const [amount, setAmount] = useState('');
+  const [unit, setUnit] = useState('mg');
+  const [form, setForm] = useState('');
+  const [doseRoute, setDoseRoute] = useState('');
+  const [scheduleType, setScheduleType] = useState<'daily' | 'interval'>('daily');
+  const [timesPerDay, setTimesPerDay] = useState('');
+  const [intervalHours, setIntervalHours] = useState('');
+  const [asNeeded, setAsNeeded] = useState(false);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [prescribedBy, setPrescribedBy] = useState('');
@@ -29,18 +81,36 @@ const AddMedicationScreen: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [searching, setSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [ndcInput, setNdcInput] = useState('');
+  const [ndcMatch, setNdcMatch] = useState<NdcMatch | null>(null);
+  const [lookingUpNdc, setLookingUpNdc] = useState(false);
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     if (existingMedication) {
       setName(existingMedication.name);
-      setDosage(existingMedication.dosage);
-      setFrequency(existingMedication.frequency);
-      setStartDate(existingMedication.startDate);
-      setEndDate(existingMedication.endDate || '');
+      const { dose, schedule } = existingMedication;
+      setAmount(dose.amount !== null ? String(dose.amount) : '');
+      setUnit(dose.unit || 'mg');
+      setForm(dose.form || '');
+      setDoseRoute(dose.route || '');
+      setScheduleType(schedule.intervalHours ? 'interval' : 'daily');
+      setTimesPerDay(schedule.timesPerDay ? String(schedule.timesPerDay) : '');
+      setIntervalHours(schedule.intervalHours ? String(schedule.intervalHours) : '');
+      setAsNeeded(schedule.asNeeded);
+      setDaysOfWeek(schedule.daysOfWeek || []);
+      setStartDate(formatDateInput(existingMedication.startDate, dateFormat));
+      setEndDate(formatDateInput(existingMedication.endDate, dateFormat));
       setPrescribedBy(existingMedication.prescribedBy || '');
       setNotes(existingMedication.notes || '');
+      setNdcInput(existingMedication.ndc || '');
+      setNdcMatch(
+        existingMedication.ndc
+          ? { input: existingMedication.ndc, ndc: existingMedication.ndc }
+          : null
+      );
     }
-  }, [existingMedication]);
+  }, [existingMedication, dateFormat]);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -49,28 +119,41 @@ const AddMedicationScreen: React.FC = () => {
       newErrors.name = 'Medication name is required';
     }
 
-    if (!dosage.trim()) {
-      newErrors.dosage = 'Dosage is required';
+    if (ndcInput.trim() && ndcMatch?.input !== ndcInput.trim()) {
+      newErrors.ndc = 'Look up this NDC before saving, or clear it';
+    }
+
+    if (!amount.trim()) {
+      newErrors.amount = 'Dose amount is required';
+    } else if (!(Number(amount) > 0)) {
+      newErrors.amount = 'Please enter a number greater than 0';
     }
 
-    if (!frequency.trim()) {
-      newErrors.frequency = 'Frequency is required';
+    // As-needed medications may have no fixed schedule
+    if (scheduleType === 'daily') {
+      const count = Number(timesPerDay);
+      if (timesPerDay.trim() && !(Number.isInteger(count) && count > 0)) {
+        newErrors.timesPerDay = 'Please enter a whole number of times per day';
+      } else if (!timesPerDay.trim() && !asNeeded) {
+        newErrors.timesPerDay = 'Times per day is required';
+      }
+    } else if (!(Number(intervalHours) > 0)) {
+      newErrors.intervalHours = 'Please enter the number of hours between doses';
     }
 
     if (!startDate.trim()) {
       newErrors.startDate = 'Start date is required';
-    } else {
-      // Basic date validation (MM/DD/YYYY)
-      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
-      if (!dateRegex.test(startDate)) {
-        newErrors.startDate = 'Please use MM/DD/YYYY format';
-      }
+    } else if (!parseDateInput(startDate, dateFormat)) {
+      newErrors.startDate = `Please enter a valid date (${dateFormat})`;
     }
 
     if (endDate.trim()) {
-      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
-      if (!dateRegex.test(endDate)) {
-        newErrors.endDate = 'Please use MM/DD/YYYY format';
+      const end = parseDateInput(endDate, dateFormat);
+      const start = parseDateInput(startDate, dateFormat);
+      if (!end) {
+        newErrors.endDate = `Please enter a valid date (${dateFormat})`;
+      } else if (start && end < start) {
+        newErrors.endDate = 'End date cannot be before the start date';
       }
     }
 
@@ -96,21 +179,165 @@ const AddMedicationScreen: React.FC = () => {
     const brandName = result.openfda.brand_name ? result.openfda.brand_name[0] : '';
     const genericName = result.openfda.generic_name ? result.openfda.generic_name[0] : '';
     setName(brandName || genericName);
+    // Prefill the route when the label lists one we know
+    const labelRoute = result.openfda.route ? result.openfda.route[0].toLowerCase() : '';
+    if (DOSE_ROUTES.includes(labelRoute)) {
+      setDoseRoute(labelRoute);
+    }
     setSearchResults([]);
   };
 
+  const handleLookupNdc = async () => {
+    const input = ndcInput.trim();
+    if (!input) return;
+
+    try {
+      setLookingUpNdc(true);
+      const product = await lookupNdc(input);
+      if (!product) {
+        setErrors({ ...errors, ndc: 'No product found for this NDC. Check the code on the package.' });
+        return;
+      }
+      setErrors({ ...errors, ndc: '' });
+
+      // Keep the package code when the user entered one, since recalls
+      // can be limited to particular packages
+      const packageNdc = product.packaging?.find(pack =>
+        isSamePackageNdc(pack.package_ndc, input)
+      )?.package_ndc;
+      setNdcMatch({ input, ndc: packageNdc || product.product_ndc, product });
+      setName(product.brand_name || product.generic_name || name);
+
+      // Strengths are per unit of the dosage form, e.g. "40 mg/1". Liquids
+      // give them per volume, which isn't a dose, so only the unit is used.
+      const ingredients = product.active_ingredients || [];
+      if (ingredients.length === 1 && ingredients[0].strength) {
+        const [perUnit, per] = ingredients[0].strength.split('/');
+        const strength = parseDose(perUnit);
+        if (strength.unit && DOSE_UNITS.includes(strength.unit)) {
+          setUnit(strength.unit);
+          if (strength.amount !== null && per === '1') {
+            setAmount(String(strength.amount));
+          }
+        }
+      }
+      const productForm = product.dosage_form ? parseDose(product.dosage_form).form : undefined;
+      if (productForm) {
+        setForm(productForm);
+      }
+      const productRoute = product.route?.[0]?.toLowerCase() || '';
+      if (DOSE_ROUTES.includes(productRoute)) {
+        setDoseRoute(productRoute);
+      }
+      setSearchResults([]);
+    } catch (error) {
+      console.error('Error looking up NDC:', error);
+      setErrors({ ...errors, ndc: 'Could not look up this NDC. Please try again.' });
+    } finally {
+      setLookingUpNdc(false);
+    }
+  };
+
+  // Resolves to true when there is no allergy conflict or the user chooses
+  // to save anyway
+  const confirmAllergyConflicts = async (identity: MedicationIdentity) => {
+    if (!patient) return true;
+
+    let conflicts;
+    try {
+      conflicts = await checkAllergyConflicts([{ name, identity }], patient.allergies);
+    } catch (error) {
+      console.error('Error checking allergy conflicts:', error);
+      return true;
+    }
+    if (conflicts.length === 0) return true;
+
+    return new Promise<boolean>(resolve => {
+      Alert.alert(
+        'Allergy Conflict',
+        `${conflicts.map(conflict => conflict.message).join('\n\n')}\n\nCheck with your doctor or pharmacist before taking this medication.`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Save Anyway', style: 'destructive', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+  };
+
+  // Resolves to true when the medication doesn't duplicate another one on the
+  // list or the user chooses to save anyway
+  const confirmDuplications = async (identity: MedicationIdentity) => {
+    if (!patient) return true;
+
+    let duplications;
+    try {
+      duplications = await checkDuplicationsWith(
+        { name, identity },
+        patient.medications.filter(med => med.id !== medicationId)
+      );
+    } catch (error) {
+      console.error('Error checking therapeutic duplication:', error);
+      return true;
+    }
+    if (duplications.length === 0) return true;
+
+    return new Promise<boolean>(resolve => {
+      Alert.alert(
+        'Possible Duplicate',
+        `${duplications.map(duplication => duplication.message).join('\n\n')}\n\nCheck with your doctor or pharmacist before taking both.`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Save Anyway', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+  };
+
   const handleSave = async () => {
     if (!validateForm()) return;
 
     try {
+      setSaving(true);
+      const ndc = ndcInput.trim() ? ndcMatch?.ndc : undefined;
+      // A product looked up by NDC is known exactly. Otherwise keeps the
+      // stored identity unless the name was changed.
+      const identity =
+        ndc && ndcMatch?.product
+          ? identityFromNdcProduct(ndcMatch.product, name)
+          : await getMedicationIdentity({
+              name,
+              identity: existingMedication?.identity,
+            });
+      if (!(await confirmAllergyConflicts(identity))) return;
+      if (!(await confirmDuplications(identity))) return;
+
+      const dose = {
+        amount: Number(amount),
+        unit,
+        form: form || undefined,
+        route: doseRoute || undefined,
+      };
+      const schedule = {
+        timesPerDay:
+          scheduleType === 'daily' && timesPerDay.trim() ? Number(timesPerDay) : null,
+        intervalHours: scheduleType === 'interval' ? Number(intervalHours) : null,
+        asNeeded,
+        daysOfWeek: daysOfWeek.length > 0 ? [...daysOfWeek].sort() : null,
+      };
       const medicationData = {
         name,
-        dosage,
-        frequency,
-        startDate,
-        endDate: endDate || undefined,
+        dosage: formatDose(dose),
+        frequency: formatSchedule(schedule),
+        dose,
+        schedule,
+        startDate: parseDateInput(startDate, dateFormat)!,
+        endDate: parseDateInput(endDate, dateFormat) || undefined,
         prescribedBy: prescribedBy || undefined,
         notes: notes || undefined,
+        identity,
+        ndc,
       };
 
       if (isEditing && medicationId) {
@@ -121,6 +348,8 @@ const AddMedicationScreen: React.FC = () => {
       navigation.goBack();
     } catch (error) {
       console.error('Error saving medication:', error);
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -142,6 +371,15 @@ const AddMedicationScreen: React.FC = () => {
       <Card>
         <Text style={styles.title}>{isEditing ? 'Edit Medication' : 'Add Medication'}</Text>
 
+        {!isEditing && (
+          <Button
+            title="Import from Health Record File"
+            onPress={() => navigation.navigate('ImportRecord' as never)}
+            type="secondary"
+            style={styles.importButton}
+          />
+        )}
+
         <View style={styles.searchContainer}>
           <Input
             label="Medication Name"
@@ -159,6 +397,30 @@ const AddMedicationScreen: React.FC = () => {
           />
         </View>
 
+        <View style={styles.searchContainer}>
+          <Input
+            label="NDC (Optional)"
+            value={ndcInput}
+            onChangeText={setNdcInput}
+            placeholder="e.g., 0069-0150-30, from the package"
+            error={errors.ndc}
+            style={styles.searchInput}
+          />
+          <Button
+            title="Look Up"
+            onPress={handleLookupNdc}
+            style={styles.searchButton}
+            loading={lookingUpNdc}
+          />
+        </View>
+
+        {ndcMatch?.product && ndcMatch.input === ndcInput.trim() && (
+          <Card style={styles.resultsCard}>
+            <Text style={styles.resultsTitle}>NDC {ndcMatch.ndc}</Text>
+            <Text style={styles.ndcProduct}>{describeNdcProduct(ndcMatch.product)}</Text>
+          </Card>
+        )}
+
         {searchResults.length > 0 && (
           <Card style={styles.resultsCard}>
             <Text style={styles.resultsTitle}>Search Results</Text>
@@ -179,26 +441,90 @@ const AddMedicationScreen: React.FC = () => {
         )}
 
         <Input
-          label="Dosage"
-          value={dosage}
-          onChangeText={setDosage}
-          placeholder="e.g., 10mg"
-          error={errors.dosage}
+          label="Dose"
+          value={amount}
+          onChangeText={setAmount}
+          placeholder="e.g., 10"
+          error={errors.amount}
+          keyboardType="decimal-pad"
         />
 
-        <Input
-          label="Frequency"
-          value={frequency}
-          onChangeText={setFrequency}
-          placeholder="e.g., Twice daily"
-          error={errors.frequency}
+        <OptionSelector
+          label="Unit"
+          options={toOptions(DOSE_UNITS)}
+          selected={[unit]}
+          onSelect={setUnit}
+        />
+
+        <OptionSelector
+          label="Form (Optional)"
+          options={toOptions(DOSE_FORMS)}
+          selected={[form]}
+          onSelect={value => setForm(value === form ? '' : value)}
+        />
+
+        <OptionSelector
+          label="Route (Optional)"
+          options={toOptions(DOSE_ROUTES)}
+          selected={[doseRoute]}
+          onSelect={value => setDoseRoute(value === doseRoute ? '' : value)}
+        />
+
+        <OptionSelector
+          label="Schedule"
+          options={[
+            { value: 'daily', label: 'Times per day' },
+            { value: 'interval', label: 'Every few hours' },
+          ]}
+          selected={[scheduleType]}
+          onSelect={value => setScheduleType(value as 'daily' | 'interval')}
+        />
+
+        {scheduleType === 'daily' ? (
+          <Input
+            label={asNeeded ? 'Maximum Times Per Day' : 'Times Per Day'}
+            value={timesPerDay}
+            onChangeText={setTimesPerDay}
+            placeholder="e.g., 2"
+            error={errors.timesPerDay}
+            keyboardType="number-pad"
+          />
+        ) : (
+          <Input
+            label="Hours Between Doses"
+            value={intervalHours}
+            onChangeText={setIntervalHours}
+            placeholder="e.g., 6"
+            error={errors.intervalHours}
+            keyboardType="decimal-pad"
+          />
+        )}
+
+        <OptionSelector
+          options={[{ value: 'asNeeded', label: 'Take only as needed (PRN)' }]}
+          selected={asNeeded ? ['asNeeded'] : []}
+          onSelect={() => setAsNeeded(!asNeeded)}
+        />
+
+        <OptionSelector
+          label="Days of the Week (leave empty for every day)"
+          options={DAY_OPTIONS}
+          selected={daysOfWeek.map(String)}
+          onSelect={value => {
+            const day = Number(value);
+            setDaysOfWeek(
+              daysOfWeek.includes(day)
+                ? daysOfWeek.filter(d => d !== day)
+                : [...daysOfWeek, day]
+            );
+          }}
         />
 
         <Input
           label="Start Date"
           value={startDate}
           onChangeText={setStartDate}
-          placeholder="MM/DD/YYYY"
+          placeholder={dateFormat}
           error={errors.startDate}
         />
 
@@ -206,7 +532,7 @@ const AddMedicationScreen: React.FC = () => {
           label="End Date (Optional)"
           value={endDate}
           onChangeText={setEndDate}
-          placeholder="MM/DD/YYYY"
+          placeholder={dateFormat}
           error={errors.endDate}
         />
 
@@ -228,6 +554,7 @@ const AddMedicationScreen: React.FC = () => {
         <Button
           title={isEditing ? 'Update Medication' : 'Add Medication'}
           onPress={handleSave}
+          loading={saving}
           style={styles.saveButton}
         />
       </Card>
@@ -265,6 +592,10 @@ const styles = StyleSheet.create({
   saveButton: {
     marginTop: 16,
   },
+  importButton: {
+    marginBottom: 16,
+  },
+
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -290,6 +621,10 @@ const styles = StyleSheet.create({
   resultButton: {
     marginBottom: 8,
   },
+  ndcProduct: {
+    fontSize: 14,
+    color: '#666',
+  },
 });
 
 export default AddMedicationScreen; 
\ No newline at end of file
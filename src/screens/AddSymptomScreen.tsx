@@ -6,6 +6,7 @@ import { usePatient } from "../contexts/PatientContext";
 import Input from "../components/Input";
 import Button from "../components/Button";
 import Card from "../components/Card";
+import { severityFromScore } from "../utils/helpers";
 
 const AddSymptomScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -30,16 +31,12 @@ const AddSymptomScreen: React.FC = () => {
   const handleSave = async () => {
     if (!validateForm()) return;
 
-    const today = new Date();
-    const dateString = `${
-      today.getMonth() + 1
-    }/${today.getDate()}/${today.getFullYear()}`;
-
     try {
       await addSymptom({
         name,
-        severity,
-        dateRecorded: dateString,
+        description: name,
+        severity: severityFromScore(severity),
+        dateRecorded: new Date().toISOString(),
         notes: notes.trim() || undefined,
       });
       navigation.goBack();
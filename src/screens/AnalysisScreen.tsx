@@ -10,13 +10,27 @@ import {
   Alert,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { usePatient } from "../contexts/PatientContext";
 import Button from "../components/Button";
 import Card from "../components/Card";
 import { checkMedicationInteractions } from "../services/FdaService";
 import { getComprehensiveSafetyAnalysis } from "../services/MedicalSafetyService";
-import { MedicationInteraction, Medication } from "../types";
+import { checkAllergyConflicts } from "../services/AllergyCheckService";
+import { getOldestDataServedSince } from "../services/CacheService";
+import { calculateAge } from "../utils/helpers";
+import {
+  MedicationInteraction,
+  Medication,
+  AllergyConflict,
+  RootStackParamList,
+  TherapeuticDuplication,
+  DrugDiseaseConflict,
+  PregnancyLactationFinding,
+  BeersCriteriaFinding,
+} from "../types";
 import AnalysisResultsRenderer from "../components/AnalysisResultsRenderer";
+import DataAsOf from "../components/DataAsOf";
 
 // Try to import Toast, but handle gracefully if it's missing
 let Toast: any;
@@ -106,14 +120,58 @@ interface SafetyAnalysis {
     medicationDiagnosisEffects: MedicationDiagnosisEffect[];
   };
   medicationErrorRisks: MedicationErrorRisk[];
+  therapeuticDuplications: TherapeuticDuplication[];
+  drugDiseaseConflicts: DrugDiseaseConflict[];
+  pregnancyLactationFindings: PregnancyLactationFinding[];
+  beersCriteriaFindings: BeersCriteriaFinding[];
   haiRisks: HAIRisk[];
   status: string;
 }
 
+// Which ingredients an interaction was found between, e.g. "oxycodone in
+// Percocet with alprazolam", or null when both medications were entered by
+// their ingredient names
+const ingredientSummary = (
+  interaction: MedicationInteraction
+): string | null => {
+  const describe = (drug: string, ingredient?: string) =>
+    !ingredient || drug.toLowerCase() === ingredient.toLowerCase()
+      ? drug
+      : `${ingredient} in ${drug}`;
+  const first = describe(interaction.drug1, interaction.ingredient1);
+  const second = describe(interaction.drug2, interaction.ingredient2);
+  return first === interaction.drug1 && second === interaction.drug2
+    ? null
+    : `${first} with ${second}`;
+};
+
+// Link text for an interaction's label citation, e.g. "View label passage
+// (Coumadin, version 5)"
+const describeEvidence = (interaction: MedicationInteraction): string => {
+  const evidence = interaction.evidence || [];
+  const first = evidence[0];
+  const version = first?.version ? `, version ${first.version}` : "";
+  return `View label passage${evidence.length > 1 ? "s" : ""} (${
+    first?.drugName
+  }${version})`;
+};
+
 const AnalysisScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList, "Analysis">>();
   const { patient } = usePatient();
   const [interactions, setInteractions] = useState<MedicationInteraction[]>([]);
+  const [interactionProgress, setInteractionProgress] = useState<{
+    checked: number;
+    total: number;
+  } | null>(null);
+  const [interactionError, setInteractionError] = useState<string | null>(
+    null
+  );
+  const interactionRun = React.useRef(0);
+  const [allergyConflicts, setAllergyConflicts] = useState<AllergyConflict[]>(
+    []
+  );
   const [safetyAnalysis, setSafetyAnalysis] = useState<SafetyAnalysis | null>(
     null
   );
@@ -123,59 +181,88 @@ const AnalysisScreen: React.FC = () => {
     [key: string]: boolean;
   }>({});
   const [analysisStatus, setAnalysisStatus] = useState<string>("");
+  // Fetch time of the oldest FDA data used in the last analysis
+  const [dataAsOf, setDataAsOf] = useState<string | null>(null);
   const [infoMessage, setInfoMessage] = useState<string>("");
 
   useEffect(() => {
     if (patient) {
       checkInteractions();
+      checkAllergies();
       performSafetyAnalysis();
     }
   }, [patient]);
 
+  const checkAllergies = async () => {
+    if (!patient) return;
+
+    try {
+      const conflicts = await checkAllergyConflicts(
+        patient.medications,
+        patient.allergies
+      );
+      setAllergyConflicts(conflicts);
+    } catch (err) {
+      console.error("Error checking allergy conflicts:", err);
+      setAllergyConflicts([]);
+    }
+  };
+
   const checkInteractions = async () => {
     if (!patient || patient.medications.length < 2) return;
 
-    try {
-      setLoading(true);
-      setError(null);
-      const medicationNames = patient.medications.map((med) => med.name);
+    // Results from an earlier check that is still running are ignored
+    const run = ++interactionRun.current;
+    setInteractions([]);
+    setInteractionError(null);
+    setInteractionProgress({ checked: 0, total: 0 });
 
-      // Add a short delay to ensure state updates
-      setTimeout(async () => {
-        try {
-          const results = await checkMedicationInteractions(medicationNames);
-          setInteractions(results);
-          setLoading(false);
-        } catch (err) {
-          console.error("Error checking interactions:", err);
-          setError(
-            "Could not check all medication interactions. Please ensure you have an internet connection and try again."
-          );
-          setLoading(false);
-        }
-      }, 300);
+    try {
+      // Interactions are shown as each pair is checked, in the order they
+      // finish, so expanded details stay with the same row
+      await checkMedicationInteractions(patient.medications, {
+        onInteraction: (interaction) => {
+          if (run === interactionRun.current) {
+            setInteractions((current) => [...current, interaction]);
+          }
+        },
+        onProgress: (checked, total) => {
+          if (run === interactionRun.current) {
+            setInteractionProgress({ checked, total });
+          }
+        },
+      });
     } catch (err) {
-      console.error("Error initiating interaction check:", err);
-      setError(
-        "Failed to check medication interactions. Please check your internet connection and try again."
-      );
-      setLoading(false);
+      console.error("Error checking interactions:", err);
+      if (run === interactionRun.current) {
+        setInteractionError(
+          "Could not check all medication interactions. Please ensure you have an internet connection and try again."
+        );
+      }
+    } finally {
+      if (run === interactionRun.current) setInteractionProgress(null);
     }
   };
 
   const performSafetyAnalysis = async () => {
-    if (!patient || !patient.symptoms || patient.symptoms.length === 0) {
+    // Medication checks don't need symptoms, so either is enough to analyze
+    if (
+      !patient ||
+      ((patient.symptoms || []).length === 0 &&
+        (patient.medications || []).length === 0)
+    ) {
       if (Toast) {
         Toast.show({
           type: "error",
           text1: "Insufficient Data",
-          text2: "Please add some symptoms to perform a safety analysis",
+          text2:
+            "Please add some symptoms or medications to perform a safety analysis",
           visibilityTime: 3000,
         });
       } else {
         Alert.alert(
           "Insufficient Data",
-          "Please add some symptoms to perform a safety analysis"
+          "Please add some symptoms or medications to perform a safety analysis"
         );
       }
       return;
@@ -184,19 +271,22 @@ const AnalysisScreen: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
+      const startedAt = Date.now();
 
       // Log the data being analyzed for debugging
       console.log("Performing analysis on:", {
-        symptoms: patient.symptoms,
+        symptoms: patient.symptoms || [],
         diagnoses: patient.diagnoses || [],
         medications: patient.medications || [],
       });
 
       try {
         const results = await getComprehensiveSafetyAnalysis(
-          patient.symptoms,
+          patient.symptoms || [],
           patient.diagnoses || [],
-          patient.medications || []
+          patient.medications || [],
+          patient.reproductiveStatus,
+          calculateAge(patient.dateOfBirth)
         );
 
         // Log the results for debugging
@@ -265,10 +355,16 @@ const AnalysisScreen: React.FC = () => {
             medicationDiagnosisEffects: [],
           },
           medicationErrorRisks: results.medicationErrorRisks || [],
+          therapeuticDuplications: results.therapeuticDuplications || [],
+          drugDiseaseConflicts: results.drugDiseaseConflicts || [],
+          pregnancyLactationFindings:
+            results.pregnancyLactationFindings || [],
+          beersCriteriaFindings: results.beersCriteriaFindings || [],
           haiRisks: results.haiRisks || [],
         };
 
         setSafetyAnalysis(safeResults);
+        setDataAsOf(getOldestDataServedSince(startedAt));
 
         // Check if we have any safety concerns to highlight with proper null checks
         const hasSafetyConcerns =
@@ -292,6 +388,10 @@ const AnalysisScreen: React.FC = () => {
               0) ||
           (safeResults.medicationErrorRisks &&
             safeResults.medicationErrorRisks.length > 0) ||
+          safeResults.therapeuticDuplications.length > 0 ||
+          safeResults.drugDiseaseConflicts.length > 0 ||
+          safeResults.pregnancyLactationFindings.length > 0 ||
+          safeResults.beersCriteriaFindings.length > 0 ||
           (safeResults.haiRisks && safeResults.haiRisks.length > 0);
 
         if (!hasSafetyConcerns) {
@@ -443,59 +543,195 @@ const AnalysisScreen: React.FC = () => {
         </Text>
       </View>
 
-      {loading ? (
-        <View
-          style={{
-            flex: 1,
-            justifyContent: "center",
-            alignItems: "center",
-          }}
-        >
-          <ActivityIndicator size="large" color="#4a80f5" />
-          <Text
-            style={{
-              marginTop: 16,
-              color: "#4a4a4a",
-            }}
-          >
-            {analysisStatus || "Analyzing your health data..."}
-          </Text>
-        </View>
-      ) : error ? (
-        <View
-          style={{
-            flex: 1,
-            justifyContent: "center",
-            alignItems: "center",
-            padding: 20,
-          }}
-        >
-          <Text
-            style={{
-              color: "#e74c3c",
-              fontSize: 16,
-              textAlign: "center",
-              marginBottom: 20,
-            }}
-          >
-            {error}
-          </Text>
-          <Button title="Try Again" onPress={performSafetyAnalysis} />
-        </View>
-      ) : (
-        <ScrollView
-          style={{
-            flex: 1,
-            padding: 8,
-          }}
-        >
+      <ScrollView
+        style={{
+          flex: 1,
+          padding: 8,
+        }}
+      >
+        {!loading && (
+          <DataAsOf fetchedAt={dataAsOf} style={styles.dataAsOf} />
+        )}
+
+        {allergyConflicts.length > 0 && (
+          <View style={styles.conflictSection}>
+            <Text style={styles.conflictSectionTitle}>Allergy Conflicts</Text>
+            {allergyConflicts.map((conflict, index) => (
+              <View
+                key={`${conflict.medicationName}_${conflict.allergyId}`}
+                style={[
+                  styles.conflictItem,
+                  index > 0 && styles.conflictDivider,
+                ]}
+              >
+                <View style={styles.interactionHeader}>
+                  <Text style={styles.conflictTitle}>
+                    {conflict.medicationName} · {conflict.allergen}
+                  </Text>
+                  <View
+                    style={[
+                      styles.severityBadge,
+                      conflict.severity === "high"
+                        ? styles.majorBadge
+                        : styles.moderateBadge,
+                    ]}
+                  >
+                    <Text style={styles.severityText}>
+                      {conflict.matchType === "ingredient"
+                        ? "ALLERGEN"
+                        : "SAME CLASS"}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={styles.conflictText}>{conflict.message}</Text>
+              </View>
+            ))}
+            <Text style={styles.conflictAdvice}>
+              Talk to your doctor or pharmacist before taking these
+              medications.
+            </Text>
+          </View>
+        )}
+
+        {patient.medications.length >= 2 && (
+          <View style={styles.interactionSection}>
+            <Text style={styles.conflictSectionTitle}>
+              Medication Interactions
+            </Text>
+            {interactions.map((interaction, index) => (
+              <View
+                key={`${interaction.drug1}_${interaction.ingredient1}_${interaction.drug2}_${interaction.ingredient2}_${index}`}
+                style={[
+                  styles.conflictItem,
+                  index > 0 && styles.conflictDivider,
+                ]}
+              >
+                <View style={styles.interactionHeader}>
+                  <Text style={styles.conflictTitle}>
+                    {interaction.drug1} + {interaction.drug2}
+                  </Text>
+                  <View
+                    style={[
+                      styles.severityBadge,
+                      interaction.severity === "major"
+                        ? styles.majorBadge
+                        : interaction.severity === "moderate"
+                        ? styles.moderateBadge
+                        : styles.minorBadge,
+                    ]}
+                  >
+                    <Text style={styles.severityText}>
+                      {interaction.severity.toUpperCase()}
+                    </Text>
+                  </View>
+                </View>
+                {ingredientSummary(interaction) && (
+                  <Text style={styles.interactionIngredients}>
+                    {ingredientSummary(interaction)}
+                  </Text>
+                )}
+                <Text style={styles.conflictText}>
+                  {interaction.simplifiedExplanation}
+                </Text>
+                {interaction.severityConfidence !== undefined && (
+                  <Text style={styles.interactionSource}>
+                    Severity confidence:{" "}
+                    {Math.round(interaction.severityConfidence * 100)}%
+                    {interaction.severityConfidence < 0.4
+                      ? " (the label text is unclear, ask your pharmacist)"
+                      : ""}
+                  </Text>
+                )}
+                <Text style={styles.interactionSource}>
+                  {interaction.source}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => toggleTechnicalDetails(index)}
+                >
+                  <Text style={styles.interactionToggle}>
+                    {expandedDetails[index] ? "Hide FDA text" : "Show FDA text"}
+                  </Text>
+                </TouchableOpacity>
+                {expandedDetails[index] && (
+                  <Text style={styles.interactionDetails}>
+                    {interaction.description}
+                  </Text>
+                )}
+                {interaction.evidence && interaction.evidence.length > 0 && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      navigation.navigate("LabelEvidence", {
+                        evidence: interaction.evidence!,
+                        title: `${interaction.drug1} + ${interaction.drug2}`,
+                      })
+                    }
+                  >
+                    <Text style={styles.interactionToggle}>
+                      {describeEvidence(interaction)}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {interactionProgress ? (
+              <View style={styles.interactionProgress}>
+                <ActivityIndicator size="small" color="#4a80f5" />
+                <Text style={styles.interactionProgressText}>
+                  {interactionProgress.total > 0
+                    ? `Checked ${interactionProgress.checked} of ${interactionProgress.total} medication pairs`
+                    : "Looking up your medications..."}
+                </Text>
+              </View>
+            ) : interactionError ? (
+              <Text style={styles.interactionError}>{interactionError}</Text>
+            ) : (
+              interactions.length === 0 && (
+                <Text style={styles.conflictText}>
+                  No interactions were found in FDA label data for your
+                  medications.
+                </Text>
+              )
+            )}
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.analysisStatus}>
+            <ActivityIndicator size="large" color="#4a80f5" />
+            <Text
+              style={{
+                marginTop: 16,
+                color: "#4a4a4a",
+              }}
+            >
+              {analysisStatus || "Analyzing your health data..."}
+            </Text>
+          </View>
+        ) : error ? (
+          <View style={styles.analysisStatus}>
+            <Text
+              style={{
+                color: "#e74c3c",
+                fontSize: 16,
+                textAlign: "center",
+                marginBottom: 20,
+              }}
+            >
+              {error}
+            </Text>
+            <Button title="Try Again" onPress={performSafetyAnalysis} />
+          </View>
+        ) : (
           <AnalysisResultsRenderer
             analysisResults={safetyAnalysis}
             isLoading={loading}
             error={error}
+            onViewEvidence={(evidence, title) =>
+              navigation.navigate("LabelEvidence", { evidence, title })
+            }
           />
-        </ScrollView>
-      )}
+        )}
+      </ScrollView>
     </View>
   );
 };
@@ -611,6 +847,118 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "bold",
   },
+  dataAsOf: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  conflictSection: {
+    marginBottom: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: "#f44336",
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  conflictSectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#2c3e50",
+    marginBottom: 12,
+  },
+  conflictItem: {
+    paddingVertical: 8,
+  },
+  conflictDivider: {
+    borderTopWidth: 1,
+    borderTopColor: "#ecf0f1",
+  },
+  conflictTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#2c3e50",
+    flex: 1,
+    marginRight: 8,
+  },
+  conflictText: {
+    fontSize: 14,
+    color: "#34495e",
+    lineHeight: 20,
+  },
+  conflictAdvice: {
+    fontSize: 13,
+    color: "#7f8c8d",
+    fontStyle: "italic",
+    marginTop: 8,
+  },
+  interactionSection: {
+    marginBottom: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: "#ff9800",
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  interactionIngredients: {
+    fontSize: 13,
+    color: "#7f8c8d",
+    marginBottom: 4,
+  },
+  interactionSource: {
+    fontSize: 12,
+    color: "#7f8c8d",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+  interactionToggle: {
+    fontSize: 13,
+    color: "#4a80f5",
+    fontWeight: "bold",
+    marginTop: 8,
+  },
+  interactionDetails: {
+    fontSize: 13,
+    color: "#34495e",
+    lineHeight: 19,
+    backgroundColor: "#f5f5f5",
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 8,
+  },
+  interactionProgress: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  interactionProgressText: {
+    fontSize: 13,
+    color: "#7f8c8d",
+    marginLeft: 8,
+  },
+  interactionError: {
+    fontSize: 14,
+    color: "#e74c3c",
+    marginTop: 8,
+  },
+  analysisStatus: {
+    alignItems: "center",
+    padding: 20,
+    marginTop: 24,
+  },
   simplifiedExplanation: {
     fontSize: 15,
     color: "#a8b2d1",
@@ -0,0 +1,212 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { RootStackParamList, ChangeLogEntry } from "../types";
+import { usePatient } from "../contexts/PatientContext";
+import {
+  describeChange,
+  getChangedFields,
+  getEntityHistory,
+  isUndoable,
+} from "../services/ChangeLogService";
+
+type ChangeHistoryRouteProp = RouteProp<RootStackParamList, "ChangeHistory">;
+
+const ChangeHistoryScreen: React.FC = () => {
+  const route = useRoute<ChangeHistoryRouteProp>();
+  const { patient, changeLog, undoChange } = usePatient();
+  const { entityType, entityId, title } = route.params || {};
+
+  if (!patient) {
+    return (
+      <View style={styles.fullScreenContainer}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading patient data...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const entries: ChangeLogEntry[] =
+    entityType && entityId
+      ? getEntityHistory(changeLog, patient.id, entityType, entityId)
+      : changeLog.filter((entry) => entry.profileId === patient.id).reverse();
+
+  const confirmUndo = (entry: ChangeLogEntry) => {
+    Alert.alert("Undo Change", `Undo "${describeChange(entry)}"?`, [
+      {
+        text: "Cancel",
+        style: "cancel",
+      },
+      {
+        text: "Undo",
+        onPress: () => undoChange(entry.id),
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>{title || "Change History"}</Text>
+        <Text style={styles.subtitle}>
+          Every change made to {patient.name}'s record, newest first
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        {entries.length === 0 ? (
+          <View style={styles.emptyStateCard}>
+            <Text style={styles.emptyStateTitle}>No Changes Recorded</Text>
+            <Text style={styles.emptyStateText}>
+              Changes appear here as medications, symptoms and other details
+              are added, edited or removed.
+            </Text>
+          </View>
+        ) : (
+          entries.map((entry) => (
+            <View key={entry.id} style={styles.entryCard}>
+              <View style={styles.entryHeader}>
+                <Text style={styles.entrySummary}>{describeChange(entry)}</Text>
+                {isUndoable(changeLog, entry) && (
+                  <TouchableOpacity
+                    style={styles.undoButton}
+                    onPress={() => confirmUndo(entry)}
+                  >
+                    <Text style={styles.undoButtonText}>Undo</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={styles.entryMeta}>
+                {new Date(entry.timestamp).toLocaleString()}
+                {entry.changedBy ? ` · by ${entry.changedBy}` : ""}
+              </Text>
+              {getChangedFields(entry).map((change) => (
+                <View key={change.field} style={styles.fieldRow}>
+                  <Text style={styles.fieldName}>{change.field}</Text>
+                  <Text style={styles.fieldValue}>
+                    {change.before} → {change.after}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  headerContainer: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#b8b9cb",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 18,
+    color: "#ffffff",
+    textAlign: "center",
+  },
+  emptyStateCard: {
+    padding: 20,
+    borderRadius: 10,
+    backgroundColor: "#1a2151",
+    alignItems: "center",
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 10,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: "white",
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  entryCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 12,
+    backgroundColor: "#1a2151",
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  entrySummary: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "white",
+    marginRight: 8,
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: "#b8b9cb",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  fieldRow: {
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255, 255, 255, 0.1)",
+  },
+  fieldName: {
+    fontSize: 13,
+    fontWeight: "bold",
+    color: "#dbdbdb",
+  },
+  fieldValue: {
+    fontSize: 14,
+    color: "white",
+  },
+  undoButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+  },
+  undoButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
+
+export default ChangeHistoryScreen;
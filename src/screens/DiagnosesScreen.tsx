@@ -11,11 +11,11 @@ import { useNavigation } from "@react-navigation/native";
 import { usePatient } from "../contexts/PatientContext";
 import Button from "../components/Button";
 import Card from "../components/Card";
-import { formatDate } from "../utils/helpers";
+import { formatDisplayDate } from "../utils/dates";
 
 const DiagnosesScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { patient, updatePatient } = usePatient();
+  const { patient, deleteDiagnosis: removeDiagnosis } = usePatient();
 
   const deleteDiagnosis = (id: string, name: string) => {
     Alert.alert(
@@ -29,12 +29,7 @@ const DiagnosesScreen: React.FC = () => {
         {
           text: "Delete",
           style: "destructive",
-          onPress: () => {
-            const updatedDiagnoses =
-              patient?.diagnoses.filter((d) => d.id !== id) || [];
-            patient &&
-              updatePatient({ ...patient, diagnoses: updatedDiagnoses });
-          },
+          onPress: () => removeDiagnosis(id),
         },
       ]
     );
@@ -88,7 +83,7 @@ const DiagnosesScreen: React.FC = () => {
                   <View style={styles.infoRow}>
                     <Text style={styles.label}>Diagnosed On:</Text>
                     <Text style={styles.value}>
-                      {formatDate(diagnosis.diagnosedDate)}
+                      {formatDisplayDate(diagnosis.diagnosedDate)}
                     </Text>
                   </View>
                   <View style={styles.infoRow}>
@@ -1,17 +1,24 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Alert,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { RootStackParamList } from "../types";
+import { MedicationRecall, RootStackParamList } from "../types";
 import { usePatient } from "../contexts/PatientContext";
 import Card from "../components/Card";
 import Button from "../components/Button";
+import { formatDisplayDate } from "../utils/dates";
+import {
+  checkRecalls,
+  dismissRecall,
+  getDismissedRecalls,
+} from "../services/RecallService";
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -20,7 +27,74 @@ type HomeScreenNavigationProp = NativeStackNavigationProp<
 
 const HomeScreen: React.FC = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
-  const { patient, loading } = usePatient();
+  const {
+    patient,
+    profiles,
+    activeProfileId,
+    switchProfile,
+    loading,
+    loadFailed,
+    retryLoad,
+    resetPatientData,
+  } = usePatient();
+  const [recalls, setRecalls] = useState<MedicationRecall[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecalls([]);
+    if (!patient || patient.medications.length === 0) return;
+
+    const loadRecalls = async () => {
+      try {
+        const [found, dismissed] = await Promise.all([
+          checkRecalls(patient.medications),
+          getDismissedRecalls(patient.id),
+        ]);
+        if (!cancelled) {
+          setRecalls(
+            found.filter((recall) => !dismissed.includes(recall.recallNumber))
+          );
+        }
+      } catch (error) {
+        console.error("Error loading recalls:", error);
+      }
+    };
+    loadRecalls();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patient?.id, patient?.medications]);
+
+  const confirmReset = () => {
+    Alert.alert(
+      "Reset Patient Data",
+      "The stored profiles couldn't be read and will be deleted. This can't be undone. You can then set up a profile again and import any records you exported.",
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: () => resetPatientData(),
+        },
+      ]
+    );
+  };
+
+  const handleDismissRecall = async (recall: MedicationRecall) => {
+    if (!patient) return;
+    setRecalls((current) =>
+      current.filter((item) => item.recallNumber !== recall.recallNumber)
+    );
+    try {
+      await dismissRecall(patient.id, recall.recallNumber);
+    } catch (error) {
+      console.error("Error dismissing recall:", error);
+    }
+  };
 
   if (loading) {
     return (
@@ -32,6 +106,27 @@ const HomeScreen: React.FC = () => {
     );
   }
 
+  if (loadFailed) {
+    return (
+      <View style={styles.fullScreenContainer}>
+        <View style={styles.centerContainer}>
+          <Text style={styles.title}>Patient Data Could Not Be Loaded</Text>
+          <Text style={styles.subtitle}>
+            Changes won't be saved until it can be read, so nothing stored is
+            overwritten. Try again, or reset if the data can't be recovered.
+          </Text>
+          <Button title="Try Again" onPress={retryLoad} style={styles.button} />
+          <Button
+            title="Reset Patient Data"
+            type="danger"
+            onPress={confirmReset}
+            style={styles.button}
+          />
+        </View>
+      </View>
+    );
+  }
+
   if (!patient) {
     return (
       <View style={styles.fullScreenContainer}>
@@ -57,6 +152,67 @@ const HomeScreen: React.FC = () => {
           <Text style={styles.greeting}>Hello, {patient.name}</Text>
         </View>
 
+        <View style={styles.profileSelector}>
+          <Text style={styles.profileSelectorLabel}>Viewing profile</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {profiles.map((profile) => (
+              <TouchableOpacity
+                key={profile.id}
+                style={[
+                  styles.profileChip,
+                  profile.id === activeProfileId && styles.activeProfileChip,
+                ]}
+                onPress={() => switchProfile(profile.id)}
+              >
+                <Text style={styles.profileChipText}>{profile.name}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.manageProfilesChip}
+              onPress={() => navigation.navigate("Profiles")}
+            >
+              <Text style={styles.profileChipText}>Manage</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+
+        {recalls.length > 0 && (
+          <View style={styles.recallBanner}>
+            <Text style={styles.recallBannerTitle}>
+              {recalls.length === 1
+                ? "A medication you take may be recalled"
+                : `${recalls.length} recalls may affect your medications`}
+            </Text>
+            {recalls.map((recall) => (
+              <View
+                key={`${recall.recallNumber}-${recall.medicationId}`}
+                style={styles.recallItem}
+              >
+                <Text style={styles.recallMedication}>
+                  {recall.medicationName} · {recall.classification}
+                </Text>
+                <Text style={styles.recallReason} numberOfLines={2}>
+                  {recall.reason}
+                </Text>
+                <View style={styles.recallActions}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      navigation.navigate("MedicationDetail", {
+                        medicationId: recall.medicationId,
+                      })
+                    }
+                  >
+                    <Text style={styles.recallLink}>View</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDismissRecall(recall)}>
+                    <Text style={styles.recallDismiss}>Dismiss</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         <View style={styles.quickActions}>
           <TouchableOpacity
             style={styles.actionItem}
@@ -137,7 +293,9 @@ const HomeScreen: React.FC = () => {
               {patient.symptoms.slice(0, 3).map((symptom) => (
                 <View key={symptom.id} style={styles.symptomItem}>
                   <Text style={styles.symptomName}>{symptom.name}</Text>
-                  <Text style={styles.symptomDate}>{symptom.dateRecorded}</Text>
+                  <Text style={styles.symptomDate}>
+                    {formatDisplayDate(symptom.dateRecorded)}
+                  </Text>
                 </View>
               ))}
               <Button
@@ -182,7 +340,7 @@ const styles = StyleSheet.create({
     padding: 16,
   },
   header: {
-    marginBottom: 24,
+    marginBottom: 16,
   },
   greeting: {
     fontSize: 24,
@@ -203,6 +361,80 @@ const styles = StyleSheet.create({
     color: "white",
     paddingHorizontal: 24,
   },
+  profileSelector: {
+    marginBottom: 24,
+  },
+  profileSelectorLabel: {
+    fontSize: 14,
+    color: "#b8b9cb",
+    marginBottom: 8,
+  },
+  profileChip: {
+    backgroundColor: "#0f1635",
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: "#232b4a",
+  },
+  activeProfileChip: {
+    backgroundColor: "rgba(74, 128, 245, 0.25)",
+    borderColor: "#4a80f5",
+  },
+  manageProfilesChip: {
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    borderStyle: "dashed",
+  },
+  profileChipText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  recallBanner: {
+    backgroundColor: "rgba(244, 67, 54, 0.15)",
+    borderWidth: 1,
+    borderColor: "#f44336",
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+  },
+  recallBannerTitle: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  recallItem: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.1)",
+  },
+  recallMedication: {
+    color: "white",
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  recallReason: {
+    color: "#b8b9cb",
+    fontSize: 14,
+  },
+  recallActions: {
+    flexDirection: "row",
+    marginTop: 8,
+  },
+  recallLink: {
+    color: "#4a80f5",
+    fontWeight: "bold",
+    marginRight: 24,
+  },
+  recallDismiss: {
+    color: "#b8b9cb",
+    fontWeight: "bold",
+  },
   quickActions: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -0,0 +1,428 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { usePatient } from "../contexts/PatientContext";
+import Button from "../components/Button";
+import {
+  ImportItem,
+  buildImportPlan,
+  parseHealthRecord,
+} from "../services/ImportService";
+import { formatDisplayDate } from "../utils/dates";
+
+const CATEGORY_LABELS: Record<ImportItem["category"], string> = {
+  medication: "Medication",
+  diagnosis: "Diagnosis",
+  medicalHistory: "Medical History",
+  allergy: "Allergy",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  dosage: "dosage",
+  frequency: "frequency",
+  startDate: "start date",
+  endDate: "end date",
+  prescribedBy: "prescriber",
+  diagnosedDate: "diagnosis date",
+  diagnosedBy: "diagnosed by",
+  date: "date",
+  reaction: "reaction",
+  onsetDate: "onset date",
+  notes: "notes",
+};
+
+const ACTION_SECTIONS: {
+  action: ImportItem["action"];
+  title: string;
+  description: string;
+}[] = [
+  {
+    action: "add",
+    title: "Will Be Added",
+    description: "New entries that are not in your record yet",
+  },
+  {
+    action: "merge",
+    title: "Will Be Merged",
+    description: "Existing entries that will have missing details filled in",
+  },
+  {
+    action: "skip",
+    title: "Skipped",
+    description: "Entries that are already recorded or could not be read",
+  },
+];
+
+const describeItem = (item: ImportItem): string => {
+  switch (item.category) {
+    case "medication":
+      return [
+        item.data.dosage,
+        item.data.frequency,
+        formatDisplayDate(item.data.startDate),
+      ]
+        .filter(Boolean)
+        .join(" · ");
+    case "diagnosis":
+      return [formatDisplayDate(item.data.diagnosedDate), item.data.diagnosedBy]
+        .filter(Boolean)
+        .join(" · ");
+    case "medicalHistory":
+      return [item.data.type, formatDisplayDate(item.data.date)]
+        .filter(Boolean)
+        .join(" · ");
+    case "allergy":
+      return [
+        item.data.category,
+        item.data.severity !== "unknown" ? item.data.severity : "",
+        item.data.reaction,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+  }
+};
+
+const ImportRecordScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { patient, importRecords } = usePatient();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChooseFile = async () => {
+    if (!patient) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [
+          "application/json",
+          "application/fhir+json",
+          "application/xml",
+          "text/xml",
+        ],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      setReading(true);
+      setError(null);
+      const file = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      const plan = buildImportPlan(patient, parseHealthRecord(content));
+
+      setFileName(file.name);
+      setItems(plan);
+      setExcluded(new Set());
+      if (plan.length === 0) {
+        setError(
+          "No medications, conditions or allergies were found in this file."
+        );
+      }
+    } catch (err: any) {
+      console.error("Error reading health record:", err);
+      setItems([]);
+      setError(err?.message || "The file could not be read.");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toggleItem = (key: string) => {
+    setExcluded((current) => {
+      const updated = new Set(current);
+      if (updated.has(key)) {
+        updated.delete(key);
+      } else {
+        updated.add(key);
+      }
+      return updated;
+    });
+  };
+
+  const selectedItems = items.filter(
+    (item) => item.action !== "skip" && !excluded.has(item.key)
+  );
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      const count = await importRecords(selectedItems);
+      Alert.alert(
+        "Import Complete",
+        `${count} ${count === 1 ? "entry was" : "entries were"} saved to ${
+          patient?.name
+        }'s record.`
+      );
+      navigation.goBack();
+    } catch (err) {
+      console.error("Error importing health record:", err);
+      Alert.alert("Import Failed", "The imported entries could not be saved.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!patient) {
+    return (
+      <View style={styles.fullScreenContainer}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>
+            Please set up your profile first
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>Import Health Record</Text>
+        <Text style={styles.subtitle}>
+          Add medications, conditions and allergies from a FHIR or C-CDA file
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        <Button
+          title={fileName ? "Choose a Different File" : "Choose File"}
+          onPress={handleChooseFile}
+          loading={reading}
+          type={fileName ? "secondary" : "primary"}
+          style={styles.chooseButton}
+        />
+
+        {fileName && (
+          <Text style={styles.fileName}>Reviewing {fileName}</Text>
+        )}
+
+        {error && (
+          <View style={styles.errorCard}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {ACTION_SECTIONS.map(({ action, title, description }) => {
+          const sectionItems = items.filter((item) => item.action === action);
+          if (sectionItems.length === 0) return null;
+
+          return (
+            <View key={action} style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                {title} ({sectionItems.length})
+              </Text>
+              <Text style={styles.sectionDescription}>{description}</Text>
+
+              {sectionItems.map((item) => {
+                const included = action !== "skip" && !excluded.has(item.key);
+                const detail = describeItem(item);
+
+                return (
+                  <View
+                    key={item.key}
+                    style={[
+                      styles.itemCard,
+                      action !== "skip" && !included && styles.excludedCard,
+                    ]}
+                  >
+                    <View style={styles.itemHeader}>
+                      <View style={styles.itemInfo}>
+                        <Text style={styles.itemCategory}>
+                          {CATEGORY_LABELS[item.category].toUpperCase()}
+                        </Text>
+                        <Text style={styles.itemName}>{item.label}</Text>
+                      </View>
+                      {action !== "skip" && (
+                        <TouchableOpacity
+                          style={[
+                            styles.toggleButton,
+                            included && styles.toggleButtonActive,
+                          ]}
+                          onPress={() => toggleItem(item.key)}
+                        >
+                          <Text style={styles.toggleButtonText}>
+                            {included ? "Included" : "Excluded"}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {!!detail && <Text style={styles.itemDetail}>{detail}</Text>}
+                    {item.mergedFields && item.mergedFields.length > 0 && (
+                      <Text style={styles.itemReason}>
+                        Adds{" "}
+                        {item.mergedFields
+                          .map((field) => FIELD_LABELS[field] || field)
+                          .join(", ")}{" "}
+                        to the existing entry
+                      </Text>
+                    )}
+                    {action === "skip" && item.reason && (
+                      <Text style={styles.itemReason}>{item.reason}</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+
+        {items.length > 0 && (
+          <Button
+            title={`Import ${selectedItems.length} ${
+              selectedItems.length === 1 ? "Entry" : "Entries"
+            }`}
+            onPress={handleImport}
+            loading={importing}
+            disabled={selectedItems.length === 0}
+            style={styles.importButton}
+          />
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  headerContainer: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#b8b9cb",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 18,
+    color: "#ffffff",
+    textAlign: "center",
+  },
+  chooseButton: {
+    marginBottom: 12,
+  },
+  fileName: {
+    fontSize: 14,
+    color: "#b8b9cb",
+    marginBottom: 16,
+  },
+  errorCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 16,
+    backgroundColor: "rgba(229, 57, 53, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(229, 57, 53, 0.3)",
+  },
+  errorText: {
+    fontSize: 14,
+    color: "white",
+    lineHeight: 20,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: "#b8b9cb",
+    marginBottom: 12,
+  },
+  itemCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 10,
+    backgroundColor: "#1a2151",
+  },
+  excludedCard: {
+    opacity: 0.5,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemCategory: {
+    fontSize: 12,
+    fontWeight: "bold",
+    color: "#4a80f5",
+    marginBottom: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "white",
+  },
+  itemDetail: {
+    fontSize: 14,
+    color: "#dbdbdb",
+    marginTop: 6,
+  },
+  itemReason: {
+    fontSize: 13,
+    color: "#b8b9cb",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+  toggleButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+  },
+  toggleButtonActive: {
+    backgroundColor: "#4a80f5",
+  },
+  toggleButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  importButton: {
+    marginTop: 4,
+    marginBottom: 40,
+  },
+});
+
+export default ImportRecordScreen;
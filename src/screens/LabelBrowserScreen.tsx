@@ -0,0 +1,542 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextLayoutEventData,
+  TextStyle,
+} from "react-native";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Medication, RootStackParamList } from "../types";
+import { DrugLabel } from "../types/openfda";
+import { usePatient } from "../contexts/PatientContext";
+import DataAsOf from "../components/DataAsOf";
+import HighlightedText from "../components/HighlightedText";
+import { getMedicationLabel } from "../services/FdaService";
+import { CachedResponse } from "../services/CacheService";
+import { formatDisplayDate } from "../utils/dates";
+import { labelEffectiveDate } from "../utils/labelEvidence";
+import {
+  LabelSection,
+  findTextMatches,
+  getLabelSections,
+} from "../utils/labelSections";
+
+type LabelBrowserRouteProp = RouteProp<RootStackParamList, "LabelBrowser">;
+
+// Shorter queries match too much of the label to be useful
+const MIN_QUERY_LENGTH = 2;
+
+interface SearchMatch {
+  sectionKey: string;
+  range: [number, number];
+}
+
+// Where a section's text sits in its card and how it wrapped into lines
+interface TextLayout {
+  y: number;
+  lines: TextLayoutEventData["lines"];
+}
+
+const LabelBrowserScreen: React.FC = () => {
+  const route = useRoute<LabelBrowserRouteProp>();
+  const { patient } = usePatient();
+  const { medicationId } = route.params;
+  const [label, setLabel] = useState<DrugLabel | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [stale, setStale] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [query, setQuery] = useState("");
+  const [matchIndex, setMatchIndex] = useState(0);
+  const scrollRef = useRef<ScrollView>(null);
+  // Position of each section in the scroll view and of the lines of its
+  // text, for jumping to matches
+  const sectionOffsets = useRef<Record<string, number>>({});
+  const textLayouts = useRef<Record<string, Partial<TextLayout>>>({});
+  // A match to scroll to once its section's text has been laid out
+  const pendingMatch = useRef<SearchMatch | null>(null);
+
+  const medication = patient?.medications.find((m) => m.id === medicationId);
+
+  useEffect(() => {
+    if (medication) {
+      fetchLabel(medication);
+    }
+  }, [medication]);
+
+  const showResult = (result: CachedResponse<DrugLabel | null>) => {
+    setLabel(result.data);
+    setFetchedAt(result.fetchedAt);
+    setStale(result.stale);
+  };
+
+  const fetchLabel = async (target: Medication, forceRefresh = false) => {
+    try {
+      if (forceRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+      showResult(
+        await getMedicationLabel(target, {
+          forceRefresh,
+          onRevalidated: showResult,
+        })
+      );
+    } catch (err) {
+      console.error("Error fetching label:", err);
+      setError("Failed to fetch the label from the FDA database.");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const sections = useMemo(
+    () => (label ? getLabelSections(label) : []),
+    [label]
+  );
+  const boxedWarning = sections.find(
+    (section) => section.key === "boxed_warning"
+  );
+  const otherSections = sections.filter(
+    (section) => section.key !== "boxed_warning"
+  );
+
+  // Matches in the order the sections are shown, boxed warning first
+  const matches = useMemo<SearchMatch[]>(() => {
+    if (query.trim().length < MIN_QUERY_LENGTH) return [];
+    return sections.flatMap((section) =>
+      findTextMatches(section.text, query).map((range) => ({
+        sectionKey: section.key,
+        range,
+      }))
+    );
+  }, [sections, query]);
+  const currentMatch =
+    matchIndex < matches.length ? matches[matchIndex] : undefined;
+
+  useEffect(() => {
+    setMatchIndex(0);
+  }, [query]);
+
+  /**
+   * Scrolls to the line holding a match. Until its section's text has been
+   * laid out, scrolls to the section instead and returns false.
+   */
+  const scrollToMatch = (match: SearchMatch): boolean => {
+    const sectionOffset = sectionOffsets.current[match.sectionKey];
+    if (sectionOffset === undefined) return false;
+
+    const { y, lines } = textLayouts.current[match.sectionKey] || {};
+    let lineY: number | undefined;
+    if (y !== undefined && lines) {
+      let lineEnd = 0;
+      const line =
+        lines.find((item) => (lineEnd += item.text.length) > match.range[0]) ||
+        lines[lines.length - 1];
+      lineY = y + (line?.y ?? 0);
+    }
+    scrollRef.current?.scrollTo({
+      y: Math.max(0, sectionOffset + (lineY ?? 0) - 8),
+    });
+    return lineY !== undefined;
+  };
+
+  // Opens the section holding the current match and scrolls to it
+  useEffect(() => {
+    if (!currentMatch) return;
+    const { sectionKey } = currentMatch;
+    if (sectionKey !== "boxed_warning" && !expanded.includes(sectionKey)) {
+      // Laid out again once expanded
+      delete textLayouts.current[sectionKey];
+    }
+    setExpanded((current) =>
+      current.includes(sectionKey) ? current : [...current, sectionKey]
+    );
+    pendingMatch.current = scrollToMatch(currentMatch) ? null : currentMatch;
+  }, [currentMatch?.sectionKey, matchIndex, matches.length]);
+
+  // Records a section's text layout and finishes any scroll waiting for it
+  const updateTextLayout = (
+    sectionKey: string,
+    layout: Partial<TextLayout>
+  ) => {
+    textLayouts.current[sectionKey] = {
+      ...textLayouts.current[sectionKey],
+      ...layout,
+    };
+    const pending = pendingMatch.current;
+    if (pending?.sectionKey === sectionKey && scrollToMatch(pending)) {
+      pendingMatch.current = null;
+    }
+  };
+
+  const toggleSection = (key: string) =>
+    setExpanded((current) =>
+      current.includes(key)
+        ? current.filter((item) => item !== key)
+        : [...current, key]
+    );
+
+  const allExpanded =
+    otherSections.length > 0 &&
+    otherSections.every((section) => expanded.includes(section.key));
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) return;
+    setMatchIndex(
+      (current) => (current + step + matches.length) % matches.length
+    );
+  };
+
+  const matchRanges = (section: LabelSection): [number, number][] =>
+    matches
+      .filter((match) => match.sectionKey === section.key)
+      .map((match) => match.range);
+
+  const renderSectionText = (section: LabelSection, style: TextStyle) => (
+    <HighlightedText
+      text={section.text}
+      ranges={matchRanges(section)}
+      activeRange={
+        currentMatch?.sectionKey === section.key
+          ? currentMatch.range
+          : undefined
+      }
+      style={style}
+      onLayout={(event) =>
+        updateTextLayout(section.key, { y: event.nativeEvent.layout.y })
+      }
+      onTextLayout={(event) =>
+        updateTextLayout(section.key, { lines: event.nativeEvent.lines })
+      }
+    />
+  );
+
+  if (!medication) {
+    return (
+      <View style={styles.fullScreenContainer}>
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>Medication not found</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const effectiveDate = label ? labelEffectiveDate(label) : undefined;
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{medication.name}</Text>
+        <Text style={styles.subtitle}>
+          FDA label
+          {label?.version ? `, version ${label.version}` : ""}
+          {effectiveDate
+            ? `, effective ${formatDisplayDate(effectiveDate)}`
+            : ""}
+        </Text>
+
+        <View style={styles.searchRow}>
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search this label"
+            placeholderTextColor="#8d8fa8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            onSubmitEditing={() => stepMatch(1)}
+          />
+          <TouchableOpacity
+            style={styles.matchButton}
+            onPress={() => stepMatch(-1)}
+            disabled={matches.length === 0}
+          >
+            <Text style={styles.matchButtonText}>‹</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.matchButton}
+            onPress={() => stepMatch(1)}
+            disabled={matches.length === 0}
+          >
+            <Text style={styles.matchButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+        {query.trim().length >= MIN_QUERY_LENGTH && (
+          <Text style={styles.matchCount}>
+            {matches.length > 0
+              ? `Match ${matchIndex + 1} of ${matches.length}`
+              : "No matches"}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView ref={scrollRef} style={styles.scrollContainer}>
+        {loading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color="#64ffda" />
+            <Text style={styles.loadingText}>Fetching label...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => fetchLabel(medication)}
+            >
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : !label ? (
+          <Text style={styles.emptyText}>
+            No FDA label available for this medication.
+          </Text>
+        ) : (
+          <>
+            <DataAsOf
+              fetchedAt={fetchedAt}
+              stale={stale}
+              onRefresh={() => fetchLabel(medication, true)}
+              refreshing={refreshing}
+              darkMode
+            />
+
+            {boxedWarning && (
+              <View
+                style={styles.boxedWarning}
+                onLayout={(event) => {
+                  sectionOffsets.current[boxedWarning.key] =
+                    event.nativeEvent.layout.y;
+                }}
+              >
+                <Text style={styles.boxedWarningTitle}>Boxed Warning</Text>
+                {renderSectionText(boxedWarning, styles.boxedWarningText)}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.expandAllButton}
+              onPress={() =>
+                setExpanded(
+                  allExpanded ? [] : otherSections.map((section) => section.key)
+                )
+              }
+            >
+              <Text style={styles.expandAllText}>
+                {allExpanded ? "Collapse all" : "Expand all"}
+              </Text>
+            </TouchableOpacity>
+
+            {otherSections.map((section) => {
+              const isExpanded = expanded.includes(section.key);
+              const sectionMatches = matchRanges(section).length;
+              return (
+                <View
+                  key={section.key}
+                  style={styles.sectionCard}
+                  onLayout={(event) => {
+                    sectionOffsets.current[section.key] =
+                      event.nativeEvent.layout.y;
+                  }}
+                >
+                  <TouchableOpacity
+                    style={styles.sectionHeader}
+                    onPress={() => toggleSection(section.key)}
+                  >
+                    <Text style={styles.sectionTitle}>{section.title}</Text>
+                    {sectionMatches > 0 && (
+                      <Text style={styles.sectionMatches}>
+                        {sectionMatches}
+                      </Text>
+                    )}
+                    <Text style={styles.sectionToggle}>
+                      {isExpanded ? "−" : "+"}
+                    </Text>
+                  </TouchableOpacity>
+                  {isExpanded &&
+                    renderSectionText(section, styles.sectionText)}
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  header: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#b8b9cb",
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: "#1a2151",
+    color: "white",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  matchButton: {
+    width: 40,
+    height: 40,
+    marginLeft: 8,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(74, 128, 245, 0.2)",
+  },
+  matchButtonText: {
+    color: "white",
+    fontSize: 22,
+    fontWeight: "bold",
+  },
+  matchCount: {
+    color: "#b8b9cb",
+    fontSize: 13,
+    marginTop: 8,
+  },
+  boxedWarning: {
+    padding: 16,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "#f44336",
+    backgroundColor: "rgba(244, 67, 54, 0.15)",
+    marginBottom: 16,
+  },
+  boxedWarningTitle: {
+    color: "#ff7597",
+    fontSize: 17,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  boxedWarningText: {
+    color: "white",
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  expandAllButton: {
+    alignSelf: "flex-end",
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  expandAllText: {
+    color: "#4a80f5",
+    fontWeight: "bold",
+  },
+  sectionCard: {
+    borderRadius: 10,
+    backgroundColor: "#1a2151",
+    marginBottom: 10,
+    paddingHorizontal: 16,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+  },
+  sectionTitle: {
+    flex: 1,
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  sectionMatches: {
+    color: "#0a1128",
+    backgroundColor: "#fff3b0",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    fontSize: 12,
+    fontWeight: "bold",
+    overflow: "hidden",
+    marginRight: 12,
+  },
+  sectionToggle: {
+    color: "#b8b9cb",
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  sectionText: {
+    color: "#b8b9cb",
+    fontSize: 14,
+    lineHeight: 22,
+    paddingBottom: 16,
+  },
+  loadingText: {
+    color: "white",
+    marginTop: 12,
+    fontSize: 16,
+  },
+  errorContainer: {
+    padding: 16,
+    backgroundColor: "rgba(244, 67, 54, 0.1)",
+    borderRadius: 8,
+  },
+  errorText: {
+    color: "#ff7597",
+    marginBottom: 16,
+    fontSize: 15,
+  },
+  retryButton: {
+    backgroundColor: "rgba(100, 255, 218, 0.1)",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "rgba(100, 255, 218, 0.3)",
+  },
+  retryButtonText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  emptyText: {
+    color: "white",
+    fontStyle: "italic",
+    textAlign: "center",
+    padding: 20,
+  },
+});
+
+export default LabelBrowserScreen;
@@ -0,0 +1,161 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { LabelEvidence, RootStackParamList } from "../types";
+import HighlightedText from "../components/HighlightedText";
+import { formatDisplayDate } from "../utils/dates";
+import { formatSectionName } from "../utils/labelEvidence";
+
+type LabelEvidenceRouteProp = RouteProp<RootStackParamList, "LabelEvidence">;
+
+// Evidence from the same passage of the same label, shown as one passage
+// with every matched sentence highlighted
+interface EvidencePassage {
+  evidence: LabelEvidence;
+  ranges: [number, number][];
+}
+
+const groupByPassage = (evidence: LabelEvidence[]): EvidencePassage[] => {
+  const passages = new Map<string, EvidencePassage>();
+  for (const item of evidence) {
+    const key = `${item.labelId || item.setId || item.drugName}|${
+      item.section
+    }|${item.passage}`;
+    const existing = passages.get(key);
+    if (existing) {
+      existing.ranges.push([item.matchStart, item.matchEnd]);
+    } else {
+      passages.set(key, {
+        evidence: item,
+        ranges: [[item.matchStart, item.matchEnd]],
+      });
+    }
+  }
+  return Array.from(passages.values());
+};
+
+const LabelEvidenceScreen: React.FC = () => {
+  const route = useRoute<LabelEvidenceRouteProp>();
+  const { evidence, title } = route.params;
+  const passages = groupByPassage(evidence);
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>{title || "Label Evidence"}</Text>
+        <Text style={styles.subtitle}>
+          Highlighted sentences are the FDA label text this finding is based on
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        {passages.length === 0 ? (
+          <View style={styles.passageCard}>
+            <Text style={styles.emptyText}>
+              No label passage was recorded for this finding.
+            </Text>
+          </View>
+        ) : (
+          passages.map(({ evidence: item, ranges }, index) => (
+            <View key={index} style={styles.passageCard}>
+              <Text style={styles.drugName}>{item.drugName}</Text>
+              <Text style={styles.sectionName}>
+                {formatSectionName(item.section)}
+              </Text>
+
+              <View style={styles.metaContainer}>
+                {item.version && (
+                  <Text style={styles.metaText}>
+                    Label version {item.version}
+                    {item.effectiveDate
+                      ? `, effective ${formatDisplayDate(item.effectiveDate)}`
+                      : ""}
+                  </Text>
+                )}
+                {!item.version && item.effectiveDate && (
+                  <Text style={styles.metaText}>
+                    Effective {formatDisplayDate(item.effectiveDate)}
+                  </Text>
+                )}
+                {item.setId && (
+                  <Text style={styles.metaText} selectable>
+                    Set ID: {item.setId}
+                  </Text>
+                )}
+              </View>
+
+              <HighlightedText
+                text={item.passage}
+                ranges={ranges}
+                style={styles.passageText}
+              />
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  headerContainer: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#b8b9cb",
+  },
+  passageCard: {
+    padding: 16,
+    borderRadius: 10,
+    backgroundColor: "#1a2151",
+    marginBottom: 15,
+  },
+  drugName: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "white",
+  },
+  sectionName: {
+    fontSize: 14,
+    color: "#4a80f5",
+    fontWeight: "bold",
+    marginTop: 4,
+  },
+  metaContainer: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#8d8fa8",
+    marginBottom: 2,
+  },
+  passageText: {
+    fontSize: 15,
+    color: "#b8b9cb",
+    lineHeight: 22,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#b8b9cb",
+    textAlign: "center",
+  },
+});
+
+export default LabelEvidenceScreen;
@@ -4,7 +4,7 @@ import { useNavigation } from '@react-navigation/native';
 import { usePatient } from '../contexts/PatientContext';
 import Button from '../components/Button';
 import Card from '../components/Card';
-import { formatDate } from '../utils/helpers';
+import { formatDisplayDate } from '../utils/dates';
 
 const MedicalHistoryScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -55,7 +55,7 @@ const MedicalHistoryScreen: React.FC = () => {
                 <Text style={styles.historyName}>{history.name}</Text>
                 <Text style={styles.historyType}>{getHistoryTypeLabel(history.type)}</Text>
               </View>
-              <Text style={styles.historyDate}>Date: {formatDate(history.date)}</Text>
+              <Text style={styles.historyDate}>Date: {formatDisplayDate(history.date)}</Text>
               {history.notes && <Text style={styles.notes}>{history.notes}</Text>}
             </Card>
           ))}
@@ -8,46 +8,159 @@ import {
   TouchableOpacity,
 } from "react-native";
 import { useRoute, RouteProp, useNavigation } from "@react-navigation/native";
-import { RootStackParamList } from "../types";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import {
+  AdverseEventSummary,
+  Medication,
+  MedicationRecall,
+  RootStackParamList,
+} from "../types";
+import { DrugLabel } from "../types/openfda";
 import { usePatient } from "../contexts/PatientContext";
 import Card from "../components/Card";
 import Button from "../components/Button";
-import { formatDate } from "../utils/helpers";
-import { getMedicationDetails } from "../services/FdaService";
+import DataAsOf from "../components/DataAsOf";
+import { formatDisplayDate } from "../utils/dates";
+import { getLabelSections } from "../utils/labelSections";
+import { getMedicationLabel } from "../services/FdaService";
+import { CachedResponse } from "../services/CacheService";
+import { describeIdentity } from "../services/DrugNormalizationService";
+import {
+  dismissRecall,
+  getDismissedRecalls,
+  getMedicationRecalls,
+} from "../services/RecallService";
+import { getAdverseEventSummary } from "../services/AdverseEventService";
 
 type MedicationDetailRouteProp = RouteProp<
   RootStackParamList,
   "MedicationDetail"
 >;
 
+type MedicationDetailNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "MedicationDetail"
+>;
+
 const MedicationDetailScreen: React.FC = () => {
   const route = useRoute<MedicationDetailRouteProp>();
-  const navigation = useNavigation();
+  const navigation = useNavigation<MedicationDetailNavigationProp>();
   const { patient } = usePatient();
   const { medicationId } = route.params;
   const [loading, setLoading] = useState(false);
-  const [details, setDetails] = useState<any>(null);
+  const [details, setDetails] = useState<DrugLabel | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [stale, setStale] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recalls, setRecalls] = useState<MedicationRecall[]>([]);
+  const [dismissedRecalls, setDismissedRecalls] = useState<string[]>([]);
+  const [recallsLoading, setRecallsLoading] = useState(false);
+  const [recallError, setRecallError] = useState<string | null>(null);
+  const [eventSummary, setEventSummary] =
+    useState<CachedResponse<AdverseEventSummary> | null>(null);
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [eventsRefreshing, setEventsRefreshing] = useState(false);
+  const [eventsError, setEventsError] = useState<string | null>(null);
 
   const medication = patient?.medications.find((m) => m.id === medicationId);
+  const identity = medication?.identity;
+  const recognisedAs =
+    identity && identity.resolvedFrom === medication?.name
+      ? describeIdentity(identity)
+      : null;
 
   useEffect(() => {
     if (medication) {
-      fetchMedicationDetails(medication.name);
+      fetchMedicationDetails(medication);
+      fetchRecalls(medication);
+      fetchEventSummary(medication);
     }
   }, [medication]);
 
-  const fetchMedicationDetails = async (medicationName: string) => {
+  const showResult = (result: CachedResponse<DrugLabel | null>) => {
+    setDetails(result.data);
+    setFetchedAt(result.fetchedAt);
+    setStale(result.stale);
+  };
+
+  const fetchMedicationDetails = async (
+    target: Medication,
+    forceRefresh = false
+  ) => {
     try {
-      setLoading(true);
+      if (forceRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
       setError(null);
-      const result = await getMedicationDetails(medicationName);
-      setDetails(result);
+      // A stale saved copy is shown straight away and replaced once the
+      // background refresh finishes
+      const result = await getMedicationLabel(target, {
+        forceRefresh,
+        onRevalidated: showResult,
+      });
+      showResult(result);
     } catch (err) {
       console.error("Error fetching medication details:", err);
       setError("Failed to fetch medication details from FDA database.");
     } finally {
       setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const fetchRecalls = async (target: Medication) => {
+    try {
+      setRecallsLoading(true);
+      setRecallError(null);
+      const [found, dismissed] = await Promise.all([
+        getMedicationRecalls(target),
+        patient ? getDismissedRecalls(patient.id) : Promise.resolve([]),
+      ]);
+      setRecalls(found);
+      setDismissedRecalls(dismissed);
+    } catch (err) {
+      console.error("Error fetching recalls:", err);
+      setRecallError("Failed to check for recalls.");
+    } finally {
+      setRecallsLoading(false);
+    }
+  };
+
+  const fetchEventSummary = async (
+    target: Medication,
+    forceRefresh = false
+  ) => {
+    try {
+      if (forceRefresh) {
+        setEventsRefreshing(true);
+      } else {
+        setEventsLoading(true);
+      }
+      setEventsError(null);
+      setEventSummary(
+        await getAdverseEventSummary(target, patient?.symptoms || [], {
+          forceRefresh,
+          onRevalidated: setEventSummary,
+        })
+      );
+    } catch (err) {
+      console.error("Error fetching adverse event reports:", err);
+      setEventsError("Failed to fetch adverse event reports.");
+    } finally {
+      setEventsLoading(false);
+      setEventsRefreshing(false);
+    }
+  };
+
+  const handleDismissRecall = async (recallNumber: string) => {
+    if (!patient) return;
+    try {
+      setDismissedRecalls(await dismissRecall(patient.id, recallNumber));
+    } catch (err) {
+      console.error("Error dismissing recall:", err);
     }
   };
 
@@ -80,6 +193,18 @@ const MedicationDetailScreen: React.FC = () => {
       <ScrollView style={styles.scrollContainer}>
         <View style={styles.infoCard}>
           <View style={styles.infoSection}>
+            {recognisedAs && (
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Active Ingredients:</Text>
+                <Text style={styles.value}>{recognisedAs}</Text>
+              </View>
+            )}
+            {medication.ndc && (
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>NDC:</Text>
+                <Text style={styles.value}>{medication.ndc}</Text>
+              </View>
+            )}
             <View style={styles.infoRow}>
               <Text style={styles.label}>Dosage:</Text>
               <Text style={styles.value}>{medication.dosage}</Text>
@@ -91,14 +216,14 @@ const MedicationDetailScreen: React.FC = () => {
             <View style={styles.infoRow}>
               <Text style={styles.label}>Start Date:</Text>
               <Text style={styles.value}>
-                {formatDate(medication.startDate)}
+                {formatDisplayDate(medication.startDate)}
               </Text>
             </View>
             {medication.endDate && (
               <View style={styles.infoRow}>
                 <Text style={styles.label}>End Date:</Text>
                 <Text style={styles.value}>
-                  {formatDate(medication.endDate)}
+                  {formatDisplayDate(medication.endDate)}
                 </Text>
               </View>
             )}
@@ -117,6 +242,76 @@ const MedicationDetailScreen: React.FC = () => {
           </View>
         </View>
 
+        <View style={styles.infoCard}>
+          <Text style={styles.sectionTitle}>Recalls</Text>
+          {recallsLoading ? (
+            <ActivityIndicator size="small" color="#64ffda" />
+          ) : recallError ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{recallError}</Text>
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={() => fetchRecalls(medication)}
+              >
+                <Text style={styles.retryButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            </View>
+          ) : recalls.length > 0 ? (
+            recalls.map((recall) => {
+              const dismissed = dismissedRecalls.includes(recall.recallNumber);
+              return (
+                <View
+                  key={recall.recallNumber}
+                  style={[
+                    styles.recallItem,
+                    dismissed && styles.recallDismissed,
+                  ]}
+                >
+                  <View style={styles.recallHeader}>
+                    <Text style={styles.recallClassification}>
+                      {recall.classification}
+                    </Text>
+                    {dismissed && (
+                      <Text style={styles.recallDismissedTag}>Dismissed</Text>
+                    )}
+                  </View>
+                  <Text style={styles.fdaText}>{recall.reason}</Text>
+                  <Text style={styles.recallMeta}>
+                    {recall.initiatedOn
+                      ? `Recalled ${formatDisplayDate(recall.initiatedOn)}`
+                      : "Recall date not given"}
+                    {recall.recallingFirm ? ` by ${recall.recallingFirm}` : ""}
+                    {` (${recall.recallNumber})`}
+                  </Text>
+                  <Text style={styles.recallProduct}>
+                    {recall.productDescription}
+                  </Text>
+                  {recall.codeInfo && (
+                    <Text style={styles.recallProduct}>{recall.codeInfo}</Text>
+                  )}
+                  {recall.matchedBy === "name" && (
+                    <Text style={styles.recallNote}>
+                      Matched by name only. Check the lot number on your
+                      package against the recall.
+                    </Text>
+                  )}
+                  {!dismissed && (
+                    <TouchableOpacity
+                      onPress={() => handleDismissRecall(recall.recallNumber)}
+                    >
+                      <Text style={styles.recallDismissText}>Dismiss</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })
+          ) : (
+            <Text style={styles.noDataText}>
+              No active recalls found for this medication.
+            </Text>
+          )}
+        </View>
+
         <View style={styles.infoCard}>
           <Text style={styles.sectionTitle}>FDA Information</Text>
           {loading ? (
@@ -129,65 +324,166 @@ const MedicationDetailScreen: React.FC = () => {
               <Text style={styles.errorText}>{error}</Text>
               <TouchableOpacity
                 style={styles.retryButton}
-                onPress={() => fetchMedicationDetails(medication.name)}
+                onPress={() => fetchMedicationDetails(medication)}
               >
                 <Text style={styles.retryButtonText}>Try Again</Text>
               </TouchableOpacity>
             </View>
           ) : details ? (
             <>
-              {details.warnings && (
-                <View style={styles.fdaSection}>
-                  <Text style={styles.fdaSectionTitle}>Warnings</Text>
+              <DataAsOf
+                fetchedAt={fetchedAt}
+                stale={stale}
+                onRefresh={() => fetchMedicationDetails(medication, true)}
+                refreshing={refreshing}
+                darkMode
+              />
+              {details.boxed_warning && (
+                <View style={styles.boxedWarning}>
+                  <Text style={styles.boxedWarningTitle}>Boxed Warning</Text>
                   <Text style={styles.fdaText}>
-                    {details.warnings.join(" ")}
+                    {details.boxed_warning.join("\n\n")}
                   </Text>
                 </View>
               )}
-              {details.warnings_and_cautions && (
-                <View style={styles.fdaSection}>
-                  <Text style={styles.fdaSectionTitle}>
-                    Warnings and Cautions
-                  </Text>
-                  <Text style={styles.fdaText}>
-                    {details.warnings_and_cautions.join(" ")}
-                  </Text>
-                </View>
-              )}
-              {details.drug_interactions && (
-                <View style={styles.fdaSection}>
-                  <Text style={styles.fdaSectionTitle}>Drug Interactions</Text>
-                  <Text style={styles.fdaText}>
-                    {details.drug_interactions.join(" ")}
-                  </Text>
-                </View>
-              )}
-              {details.adverse_reactions && (
-                <View style={styles.fdaSection}>
-                  <Text style={styles.fdaSectionTitle}>Adverse Reactions</Text>
-                  <Text style={styles.fdaText}>
-                    {details.adverse_reactions.join(" ")}
-                  </Text>
+              <Text style={styles.fdaText}>
+                The label covers{" "}
+                {getLabelSections(details)
+                  .filter((section) => section.key !== "boxed_warning")
+                  .map((section) => section.title)
+                  .join(", ")}
+                .
+              </Text>
+              <TouchableOpacity
+                style={styles.labelButton}
+                onPress={() =>
+                  navigation.navigate("LabelBrowser", { medicationId })
+                }
+              >
+                <Text style={styles.editButtonText}>Browse Full Label</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.noDataText}>
+              No FDA data available for this medication.
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.infoCard}>
+          <Text style={styles.sectionTitle}>Reported Side Effects</Text>
+          <Text style={styles.disclaimerText}>
+            These are reports sent to the FDA Adverse Event Reporting System
+            (FAERS) by patients, doctors and manufacturers. A report means the
+            reaction happened while someone was taking this drug, not that the
+            drug caused it. Counts don't show how common a reaction is.
+          </Text>
+          {eventsLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#64ffda" />
+              <Text style={styles.loadingText}>Fetching reports...</Text>
+            </View>
+          ) : eventsError ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{eventsError}</Text>
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={() => fetchEventSummary(medication)}
+              >
+                <Text style={styles.retryButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            </View>
+          ) : eventSummary && eventSummary.data.reportCount > 0 ? (
+            <>
+              <DataAsOf
+                fetchedAt={eventSummary.fetchedAt}
+                stale={eventSummary.stale}
+                onRefresh={() => fetchEventSummary(medication, true)}
+                refreshing={eventsRefreshing}
+                darkMode
+              />
+              <Text style={styles.fdaText}>
+                {eventSummary.data.reportCount.toLocaleString()} report
+                {eventSummary.data.reportCount === 1 ? "" : "s"} name this
+                medication.{" "}
+                {Math.round(eventSummary.data.seriousShare * 100)}% were
+                serious (hospitalization, disability, a life-threatening
+                event or death).
+              </Text>
+
+              <Text style={styles.eventSubtitle}>Most reported reactions</Text>
+              {eventSummary.data.topReactions.map((item) => (
+                <View key={item.reaction} style={styles.eventRow}>
+                  <View style={styles.eventLabelRow}>
+                    <Text
+                      style={[
+                        styles.eventLabel,
+                        !!item.loggedSymptom && styles.eventLabelLogged,
+                      ]}
+                    >
+                      {item.reaction}
+                    </Text>
+                    <Text style={styles.eventCount}>
+                      {item.count.toLocaleString()}
+                    </Text>
+                  </View>
+                  <View style={styles.eventBarTrack}>
+                    <View
+                      style={[
+                        styles.eventBar,
+                        !!item.loggedSymptom && styles.eventBarLogged,
+                        { width: `${Math.round(item.share * 100)}%` },
+                      ]}
+                    />
+                  </View>
+                  {item.loggedSymptom && (
+                    <Text style={styles.eventLoggedNote}>
+                      You logged "{item.loggedSymptom}" as a symptom
+                    </Text>
+                  )}
                 </View>
+              ))}
+
+              {eventSummary.data.byYear.length > 0 && (
+                <>
+                  <Text style={styles.eventSubtitle}>Reports by year</Text>
+                  {eventSummary.data.byYear.map((item) => (
+                    <View key={item.year} style={styles.eventLabelRow}>
+                      <Text style={styles.eventLabel}>{item.year}</Text>
+                      <Text style={styles.eventCount}>
+                        {item.count.toLocaleString()} (
+                        {item.seriousCount.toLocaleString()} serious)
+                      </Text>
+                    </View>
+                  ))}
+                </>
               )}
             </>
           ) : (
             <Text style={styles.noDataText}>
-              No FDA data available for this medication.
+              No adverse event reports found for this medication.
             </Text>
           )}
         </View>
 
         <TouchableOpacity
           style={styles.editButton}
+          onPress={() => navigation.navigate("AddMedication", { medicationId })}
+        >
+          <Text style={styles.editButtonText}>Edit Medication</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.historyButton}
           onPress={() =>
-            navigation.navigate(
-              "AddMedication" as never,
-              { medicationId } as never
-            )
+            navigation.navigate("ChangeHistory", {
+              entityType: "medication",
+              entityId: medicationId,
+              title: `${medication.name} History`,
+            })
           }
         >
-          <Text style={styles.editButtonText}>Edit Medication</Text>
+          <Text style={styles.editButtonText}>View Change History</Text>
         </TouchableOpacity>
       </ScrollView>
     </View>
@@ -272,23 +568,136 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     color: "white",
   },
-  fdaSection: {
-    marginBottom: 20,
-    paddingBottom: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: "rgba(255,255,255,0.1)",
+  boxedWarning: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: "#f44336",
+    backgroundColor: "rgba(244, 67, 54, 0.15)",
+    marginBottom: 16,
   },
-  fdaSectionTitle: {
+  boxedWarningTitle: {
     fontSize: 17,
     fontWeight: "bold",
     marginBottom: 10,
-    color: "#ffffff",
+    color: "#ff7597",
+  },
+  labelButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 16,
   },
   fdaText: {
     fontSize: 14,
     color: "white",
     lineHeight: 22,
   },
+  recallItem: {
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: "#f44336",
+    backgroundColor: "rgba(244, 67, 54, 0.1)",
+    marginBottom: 12,
+  },
+  recallDismissed: {
+    borderLeftColor: "#b8b9cb",
+    backgroundColor: "rgba(0,0,0,0.2)",
+  },
+  recallHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  recallClassification: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  recallDismissedTag: {
+    color: "#b8b9cb",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  recallMeta: {
+    color: "#b8b9cb",
+    fontSize: 13,
+    marginTop: 8,
+  },
+  recallProduct: {
+    color: "#b8b9cb",
+    fontSize: 13,
+    marginTop: 4,
+  },
+  recallNote: {
+    color: "#ffb74d",
+    fontSize: 13,
+    fontStyle: "italic",
+    marginTop: 8,
+  },
+  recallDismissText: {
+    color: "#4a80f5",
+    fontWeight: "bold",
+    marginTop: 8,
+  },
+  disclaimerText: {
+    color: "#ffb74d",
+    fontSize: 13,
+    fontStyle: "italic",
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  eventSubtitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "white",
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  eventRow: {
+    marginBottom: 12,
+  },
+  eventLabelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  eventLabel: {
+    flex: 1,
+    color: "white",
+    fontSize: 14,
+  },
+  eventLabelLogged: {
+    color: "#64ffda",
+    fontWeight: "bold",
+  },
+  eventCount: {
+    color: "#b8b9cb",
+    fontSize: 14,
+  },
+  eventBarTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "rgba(255,255,255,0.1)",
+  },
+  eventBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#4a80f5",
+  },
+  eventBarLogged: {
+    backgroundColor: "#64ffda",
+  },
+  eventLoggedNote: {
+    color: "#64ffda",
+    fontSize: 12,
+    marginTop: 4,
+  },
   loadingContainer: {
     padding: 24,
     alignItems: "center",
@@ -344,7 +753,16 @@ const styles = StyleSheet.create({
     padding: 15,
     borderRadius: 10,
     alignItems: "center",
-    marginVertical: 20,
+    marginTop: 20,
+  },
+  historyButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+    marginTop: 12,
     marginBottom: 40,
   },
   editButtonText: {
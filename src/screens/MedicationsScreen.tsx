@@ -12,7 +12,7 @@ import { RootStackParamList } from "../types";
 import { usePatient } from "../contexts/PatientContext";
 import Button from "../components/Button";
 import Card from "../components/Card";
-import { formatDate } from "../utils/helpers";
+import { formatDisplayDate } from "../utils/dates";
 
 type MedicationsScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -117,12 +117,12 @@ const MedicationsScreen: React.FC = () => {
                 </Text>
                 <Text style={styles.medicationDate}>
                   <Text style={styles.label}>Started: </Text>
-                  {formatDate(item.startDate)}
+                  {formatDisplayDate(item.startDate)}
                 </Text>
                 {item.endDate && (
                   <Text style={styles.medicationDate}>
                     <Text style={styles.label}>Ended: </Text>
-                    {formatDate(item.endDate)}
+                    {formatDisplayDate(item.endDate)}
                   </Text>
                 )}
                 {item.prescribedBy && (
@@ -5,30 +5,73 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Alert,
 } from "react-native";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { Allergy, RootStackParamList } from "../types";
 import { usePatient } from "../contexts/PatientContext";
 import Input from "../components/Input";
 import Button from "../components/Button";
 import Card from "../components/Card";
+import AllergyEditor from "../components/AllergyEditor";
+import OptionSelector from "../components/OptionSelector";
+import {
+  formatDateInput,
+  formatDisplayDate,
+  parseDateInput,
+} from "../utils/dates";
+import {
+  buildFhirBundle,
+  validateFhirBundle,
+  shareFhirBundle,
+} from "../services/FhirService";
+
+type ProfileScreenRouteProp = RouteProp<RootStackParamList, "Profile">;
 
 const ProfileScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { patient, initializePatient, updatePatient, loading } = usePatient();
+  const route = useRoute<ProfileScreenRouteProp>();
+  const {
+    patient: activePatient,
+    addProfile,
+    updatePatient,
+    addAllergy,
+    updateAllergy,
+    deleteAllergy,
+    dateFormat,
+    loading,
+  } = usePatient();
+
+  // When creating an additional profile, start from an empty form
+  const isNewProfile = !!route.params?.newProfile;
+  const patient = isNewProfile ? null : activePatient;
 
   const [name, setName] = useState("");
   const [dateOfBirth, setDateOfBirth] = useState("");
   const [gender, setGender] = useState("");
-  const [newAllergy, setNewAllergy] = useState("");
+  const [pregnant, setPregnant] = useState(false);
+  const [dueDate, setDueDate] = useState("");
+  const [breastfeeding, setBreastfeeding] = useState(false);
+  // The allergy being edited, or "new" while adding one
+  const [editingAllergy, setEditingAllergy] = useState<Allergy | "new" | null>(
+    null
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (patient) {
       setName(patient.name);
-      setDateOfBirth(patient.dateOfBirth);
+      setDateOfBirth(formatDateInput(patient.dateOfBirth, dateFormat));
       setGender(patient.gender);
+      setPregnant(!!patient.reproductiveStatus?.pregnant);
+      setDueDate(
+        patient.reproductiveStatus?.dueDate
+          ? formatDateInput(patient.reproductiveStatus.dueDate, dateFormat)
+          : ""
+      );
+      setBreastfeeding(!!patient.reproductiveStatus?.breastfeeding);
     }
-  }, [patient]);
+  }, [patient, dateFormat]);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -39,39 +82,50 @@ const ProfileScreen: React.FC = () => {
 
     if (!dateOfBirth.trim()) {
       newErrors.dateOfBirth = "Date of birth is required";
-    } else {
-      // Basic date validation (MM/DD/YYYY)
-      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
-      if (!dateRegex.test(dateOfBirth)) {
-        newErrors.dateOfBirth = "Please use MM/DD/YYYY format";
-      }
+    } else if (!parseDateInput(dateOfBirth, dateFormat)) {
+      newErrors.dateOfBirth = `Please enter a valid date (${dateFormat})`;
     }
 
     if (!gender.trim()) {
       newErrors.gender = "Gender is required";
     }
 
+    if (pregnant && dueDate.trim() && !parseDateInput(dueDate, dateFormat)) {
+      newErrors.dueDate = `Please enter a valid date (${dateFormat})`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   const handleSave = async () => {
     if (!validateForm()) return;
+    const birthDate = parseDateInput(dateOfBirth, dateFormat)!;
+    const reproductiveStatus = {
+      pregnant,
+      dueDate:
+        pregnant && dueDate.trim()
+          ? parseDateInput(dueDate, dateFormat)!
+          : undefined,
+      breastfeeding,
+    };
 
     try {
       if (patient) {
         // Update existing patient
         await updatePatient({
           name,
-          dateOfBirth,
+          dateOfBirth: birthDate,
           gender,
+          reproductiveStatus,
         });
       } else {
-        // Create new patient
-        await initializePatient({
+        // Create a new profile and make it the active one
+        await addProfile({
           name,
-          dateOfBirth,
+          dateOfBirth: birthDate,
           gender,
+          reproductiveStatus,
           allergies: [],
           medications: [],
           symptoms: [],
@@ -85,31 +139,55 @@ const ProfileScreen: React.FC = () => {
     }
   };
 
-  const handleAddAllergy = async () => {
-    if (!newAllergy.trim()) return;
-
+  const handleSaveAllergy = async (allergy: Omit<Allergy, "id">) => {
     try {
       if (patient) {
-        const updatedAllergies = [...patient.allergies, newAllergy];
-        await updatePatient({ allergies: updatedAllergies });
-        setNewAllergy("");
+        if (editingAllergy && editingAllergy !== "new") {
+          await updateAllergy(editingAllergy.id, allergy);
+        } else {
+          await addAllergy(allergy);
+        }
+        setEditingAllergy(null);
       }
     } catch (error) {
-      console.error("Error adding allergy:", error);
+      console.error("Error saving allergy:", error);
     }
   };
 
-  const handleRemoveAllergy = async (allergy: string) => {
+  const handleRemoveAllergy = async (allergy: Allergy) => {
     try {
       if (patient) {
-        const updatedAllergies = patient.allergies.filter((a) => a !== allergy);
-        await updatePatient({ allergies: updatedAllergies });
+        await deleteAllergy(allergy.id);
+        if (editingAllergy !== "new" && editingAllergy?.id === allergy.id) {
+          setEditingAllergy(null);
+        }
       }
     } catch (error) {
       console.error("Error removing allergy:", error);
     }
   };
 
+  const handleExport = async () => {
+    if (!patient) return;
+
+    const bundle = buildFhirBundle(patient);
+    const problems = validateFhirBundle(bundle);
+    if (problems.length > 0) {
+      Alert.alert(
+        "Export Failed",
+        `The health record could not be exported:\n\n${problems.join("\n")}`
+      );
+      return;
+    }
+
+    try {
+      await shareFhirBundle(bundle);
+    } catch (error) {
+      console.error("Error exporting health record:", error);
+      Alert.alert("Export Failed", "The health record could not be shared.");
+    }
+  };
+
   if (loading) {
     return (
       <View style={styles.fullScreenContainer}>
@@ -126,8 +204,14 @@ const ProfileScreen: React.FC = () => {
   return (
     <View style={styles.fullScreenContainer}>
       <View style={styles.header}>
-        <Text style={styles.title}>Profile</Text>
-        <Text style={styles.subtitle}>Manage your personal information</Text>
+        <Text style={styles.title}>
+          {isNewProfile ? "New Profile" : "Profile"}
+        </Text>
+        <Text style={styles.subtitle}>
+          {isNewProfile
+            ? "Add someone you care for"
+            : "Manage your personal information"}
+        </Text>
       </View>
 
       <ScrollView style={styles.scrollContainer}>
@@ -146,7 +230,7 @@ const ProfileScreen: React.FC = () => {
             label="Date of Birth"
             value={dateOfBirth}
             onChangeText={setDateOfBirth}
-            placeholder="MM/DD/YYYY"
+            placeholder={dateFormat}
             error={errors.dateOfBirth}
             inputStyle={styles.inputStyle}
             labelStyle={styles.labelStyle}
@@ -163,51 +247,147 @@ const ProfileScreen: React.FC = () => {
         </View>
 
         <View style={styles.sectionContainer}>
-          <Text style={styles.sectionTitle}>Allergies</Text>
-          <View style={styles.allergiesContainer}>
-            {patient?.allergies.length === 0 && (
-              <Text style={styles.emptyText}>No allergies added yet</Text>
-            )}
-
-            {patient?.allergies.map((allergy, index) => (
-              <View key={index} style={styles.allergyItem}>
-                <Text style={styles.allergyText}>{allergy}</Text>
-                <TouchableOpacity
-                  style={styles.removeButton}
-                  onPress={() => handleRemoveAllergy(allergy)}
-                >
-                  <Text style={styles.removeButtonText}>Remove</Text>
-                </TouchableOpacity>
-              </View>
-            ))}
-          </View>
-          <View style={styles.addAllergyContainer}>
+          <Text style={styles.sectionTitle}>Pregnancy and Breastfeeding</Text>
+          <Text style={styles.hintText}>
+            Medications will be checked against what their labels say about
+            use during pregnancy and breastfeeding.
+          </Text>
+          <OptionSelector
+            label="Currently"
+            options={[
+              { value: "pregnant", label: "Pregnant" },
+              { value: "breastfeeding", label: "Breastfeeding" },
+            ]}
+            selected={[
+              ...(pregnant ? ["pregnant"] : []),
+              ...(breastfeeding ? ["breastfeeding"] : []),
+            ]}
+            onSelect={(value) =>
+              value === "pregnant"
+                ? setPregnant(!pregnant)
+                : setBreastfeeding(!breastfeeding)
+            }
+            darkMode
+          />
+          {pregnant && (
             <Input
-              value={newAllergy}
-              onChangeText={setNewAllergy}
-              placeholder="Add a new allergy"
-              style={styles.allergyInput}
+              label="Due Date (optional)"
+              value={dueDate}
+              onChangeText={setDueDate}
+              placeholder={dateFormat}
+              error={errors.dueDate}
               inputStyle={styles.inputStyle}
+              labelStyle={styles.labelStyle}
             />
-            <TouchableOpacity
-              style={[
-                styles.addButton,
-                !newAllergy.trim() && styles.disabledButton,
-              ]}
-              onPress={handleAddAllergy}
-              disabled={!newAllergy.trim()}
-            >
-              <Text style={styles.addButtonText}>Add</Text>
-            </TouchableOpacity>
-          </View>
+          )}
         </View>
 
+        {patient && (
+          <View style={styles.sectionContainer}>
+            <Text style={styles.sectionTitle}>Allergies</Text>
+            <View style={styles.allergiesContainer}>
+              {patient.allergies.length === 0 && (
+                <Text style={styles.emptyText}>No allergies added yet</Text>
+              )}
+
+              {patient.allergies.map((allergy) => (
+                <View key={allergy.id} style={styles.allergyItem}>
+                  <View style={styles.allergyInfo}>
+                    <Text
+                      style={[
+                        styles.allergyText,
+                        allergy.verificationStatus === "refuted" &&
+                          styles.refutedText,
+                      ]}
+                    >
+                      {allergy.allergen}
+                    </Text>
+                    <Text style={styles.allergyDetail}>
+                      {[
+                        allergy.category,
+                        allergy.severity !== "unknown" && allergy.severity,
+                        allergy.verificationStatus,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                    {!!allergy.reaction && (
+                      <Text style={styles.allergyDetail}>
+                        Reaction: {allergy.reaction}
+                      </Text>
+                    )}
+                    {!!allergy.onsetDate && (
+                      <Text style={styles.allergyDetail}>
+                        Since {formatDisplayDate(allergy.onsetDate)}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.allergyActions}>
+                    <TouchableOpacity
+                      style={styles.editButton}
+                      onPress={() => setEditingAllergy(allergy)}
+                    >
+                      <Text style={styles.removeButtonText}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRemoveAllergy(allergy)}
+                    >
+                      <Text style={styles.removeButtonText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+            {editingAllergy ? (
+              <AllergyEditor
+                key={editingAllergy === "new" ? "new" : editingAllergy.id}
+                allergy={editingAllergy === "new" ? undefined : editingAllergy}
+                dateFormat={dateFormat}
+                onSave={handleSaveAllergy}
+                onCancel={() => setEditingAllergy(null)}
+              />
+            ) : (
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setEditingAllergy("new")}
+              >
+                <Text style={styles.addButtonText}>Add Allergy</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         <View style={styles.buttonsContainer}>
           <Button
             title="Save Profile"
             onPress={handleSave}
             style={styles.saveButton}
           />
+          {patient && (
+            <Button
+              title="View Change History"
+              onPress={() => navigation.navigate("ChangeHistory" as never)}
+              type="secondary"
+              style={styles.historyButton}
+            />
+          )}
+          {patient && (
+            <Button
+              title="Import Health Record"
+              onPress={() => navigation.navigate("ImportRecord" as never)}
+              type="secondary"
+              style={styles.historyButton}
+            />
+          )}
+          {patient && (
+            <Button
+              title="Export Health Record (FHIR)"
+              onPress={handleExport}
+              type="secondary"
+              style={styles.exportButton}
+            />
+          )}
         </View>
       </ScrollView>
     </View>
@@ -252,6 +432,11 @@ const styles = StyleSheet.create({
   allergiesContainer: {
     marginBottom: 16,
   },
+  hintText: {
+    color: "#b8b9cb",
+    fontSize: 14,
+    marginBottom: 12,
+  },
   emptyText: {
     color: "white",
     fontStyle: "italic",
@@ -267,10 +452,35 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "rgba(255, 255, 255, 0.1)",
   },
+  allergyInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
   allergyText: {
     fontSize: 16,
     color: "white",
   },
+  refutedText: {
+    textDecorationLine: "line-through",
+    color: "#b8b9cb",
+  },
+  allergyDetail: {
+    fontSize: 14,
+    color: "#b8b9cb",
+    marginTop: 2,
+  },
+  allergyActions: {
+    flexDirection: "row",
+  },
+  editButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    marginRight: 8,
+  },
   removeButton: {
     backgroundColor: "rgba(229, 57, 53, 0.1)",
     borderRadius: 20,
@@ -284,17 +494,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
-  addAllergyContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginTop: 10,
-  },
-  allergyInput: {
-    flex: 1,
-    marginBottom: 0,
-    marginRight: 10,
-    backgroundColor: "rgba(255, 255, 255, 0.1)",
-  },
   addButton: {
     backgroundColor: "#4a80f5",
     borderRadius: 8,
@@ -303,9 +502,6 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
-  disabledButton: {
-    opacity: 0.5,
-  },
   addButtonText: {
     color: "white",
     fontWeight: "bold",
@@ -317,6 +513,11 @@ const styles = StyleSheet.create({
     paddingVertical: 15,
     alignItems: "center",
     marginVertical: 20,
+  },
+  historyButton: {
+    marginBottom: 12,
+  },
+  exportButton: {
     marginBottom: 40,
   },
   loadingContainer: {
@@ -340,6 +541,7 @@ const styles = StyleSheet.create({
   },
   buttonsContainer: {
     alignItems: "center",
+    paddingBottom: 20,
   },
 });
 
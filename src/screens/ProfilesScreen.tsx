@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RootStackParamList } from "../types";
+import { usePatient } from "../contexts/PatientContext";
+import Input from "../components/Input";
+
+type ProfilesScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Profiles"
+>;
+
+const ProfilesScreen: React.FC = () => {
+  const navigation = useNavigation<ProfilesScreenNavigationProp>();
+  const {
+    profiles,
+    activeProfileId,
+    quarantinedRecords,
+    caregiverName,
+    setCaregiverName,
+    switchProfile,
+    renameProfile,
+    deleteProfile,
+  } = usePatient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [caregiverInput, setCaregiverInput] = useState(caregiverName);
+
+  useEffect(() => {
+    setCaregiverInput(caregiverName);
+  }, [caregiverName]);
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditName(name);
+  };
+
+  const saveRename = async () => {
+    if (!editingId || !editName.trim()) return;
+    try {
+      await renameProfile(editingId, editName);
+      setEditingId(null);
+      setEditName("");
+    } catch (error) {
+      console.error("Error renaming profile:", error);
+    }
+  };
+
+  const confirmDelete = (id: string, name: string) => {
+    Alert.alert(
+      "Delete Profile",
+      `Are you sure you want to delete "${name}"? All medications, symptoms and diagnoses stored for this profile will be removed.`,
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteProfile(id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>Profiles</Text>
+        <Text style={styles.subtitle}>
+          Switch between the people you track health information for
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => navigation.navigate("Profile", { newProfile: true })}
+        >
+          <Text style={styles.addButtonText}>+ Add New Profile</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingsButton}
+          onPress={() => navigation.navigate("Settings")}
+        >
+          <Text style={styles.settingsButtonText}>App Settings</Text>
+          <Text style={styles.settingsButtonHint}>
+            Date format, offline FDA data and drug information source
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.caregiverCard}>
+          <Input
+            label="Who is using this device?"
+            value={caregiverInput}
+            onChangeText={setCaregiverInput}
+            placeholder="Your name (recorded in change history)"
+            darkMode
+          />
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              styles.caregiverSaveButton,
+              caregiverInput.trim() === caregiverName && styles.disabledButton,
+            ]}
+            onPress={() => setCaregiverName(caregiverInput)}
+            disabled={caregiverInput.trim() === caregiverName}
+          >
+            <Text style={styles.buttonText}>Save Name</Text>
+          </TouchableOpacity>
+        </View>
+
+        {quarantinedRecords.length > 0 && (
+          <View style={styles.noticeCard}>
+            <Text style={styles.noticeText}>
+              {quarantinedRecords.length} stored record
+              {quarantinedRecords.length === 1 ? "" : "s"} could not be
+              upgraded and {quarantinedRecords.length === 1 ? "was" : "were"}{" "}
+              set aside. The data has been kept for recovery.
+            </Text>
+          </View>
+        )}
+
+        {profiles.length === 0 ? (
+          <View style={styles.emptyStateCard}>
+            <Text style={styles.emptyStateTitle}>No Profiles Yet</Text>
+            <Text style={styles.emptyStateText}>
+              Create a profile for yourself or someone you care for to start
+              tracking medications and symptoms.
+            </Text>
+          </View>
+        ) : (
+          profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            const isEditing = profile.id === editingId;
+
+            return (
+              <View
+                key={profile.id}
+                style={[styles.profileCard, isActive && styles.activeCard]}
+              >
+                {isEditing ? (
+                  <Input
+                    value={editName}
+                    onChangeText={setEditName}
+                    placeholder="Profile name"
+                    darkMode
+                  />
+                ) : (
+                  <View style={styles.profileHeader}>
+                    <Text style={styles.profileName}>{profile.name}</Text>
+                    {isActive && (
+                      <View style={styles.activeBadge}>
+                        <Text style={styles.activeBadgeText}>ACTIVE</Text>
+                      </View>
+                    )}
+                  </View>
+                )}
+                <Text style={styles.profileDetail}>
+                  {profile.medications.length} medications ·{" "}
+                  {profile.diagnoses.length} diagnoses
+                </Text>
+
+                <View style={styles.actionButtons}>
+                  {isEditing ? (
+                    <>
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => setEditingId(null)}
+                      >
+                        <Text style={styles.buttonText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.primaryButton}
+                        onPress={saveRename}
+                      >
+                        <Text style={styles.buttonText}>Save</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <>
+                      {!isActive && (
+                        <TouchableOpacity
+                          style={styles.primaryButton}
+                          onPress={() => switchProfile(profile.id)}
+                        >
+                          <Text style={styles.buttonText}>Switch</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => startRename(profile.id, profile.name)}
+                      >
+                        <Text style={styles.buttonText}>Rename</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => confirmDelete(profile.id, profile.name)}
+                      >
+                        <Text style={styles.buttonText}>Delete</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  headerContainer: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#b8b9cb",
+  },
+  addButton: {
+    backgroundColor: "#4a80f5",
+    borderRadius: 10,
+    paddingVertical: 15,
+    alignItems: "center",
+    marginBottom: 20,
+  },
+  addButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  settingsButton: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 20,
+    backgroundColor: "#1a2151",
+    borderWidth: 1,
+    borderColor: "rgba(74, 128, 245, 0.4)",
+  },
+  settingsButtonText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "white",
+    marginBottom: 4,
+  },
+  settingsButtonHint: {
+    fontSize: 13,
+    color: "#b8b9cb",
+  },
+  caregiverCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 20,
+    backgroundColor: "#1a2151",
+  },
+  caregiverSaveButton: {
+    alignSelf: "flex-end",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  noticeCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 20,
+    backgroundColor: "rgba(255, 170, 0, 0.15)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 170, 0, 0.4)",
+  },
+  noticeText: {
+    fontSize: 14,
+    color: "white",
+    lineHeight: 20,
+  },
+  emptyStateCard: {
+    padding: 20,
+    borderRadius: 10,
+    backgroundColor: "#1a2151",
+    alignItems: "center",
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 10,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: "white",
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  profileCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 16,
+    backgroundColor: "#1a2151",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  activeCard: {
+    borderColor: "#4a80f5",
+  },
+  profileHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  profileName: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "white",
+    flex: 1,
+  },
+  activeBadge: {
+    backgroundColor: "rgba(74, 128, 245, 0.25)",
+    borderRadius: 20,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  activeBadgeText: {
+    color: "#4a80f5",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  profileDetail: {
+    fontSize: 14,
+    color: "#b8b9cb",
+  },
+  actionButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#4a80f5",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    backgroundColor: "rgba(74, 128, 245, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#4a80f5",
+    marginLeft: 8,
+  },
+  deleteButton: {
+    backgroundColor: "rgba(229, 57, 53, 0.1)",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(229, 57, 53, 0.3)",
+    marginLeft: 8,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
+
+export default ProfilesScreen;
@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { DateFormat } from "../types";
+import { usePatient } from "../contexts/PatientContext";
+import Input from "../components/Input";
+import OptionSelector from "../components/OptionSelector";
+import { DATE_FORMATS, formatDisplayDate } from "../utils/dates";
+import { clearCache, getCacheStats } from "../services/CacheService";
+import {
+  DRUG_INFO_PROVIDERS,
+  DrugInfoProviderId,
+  DrugInfoSettings,
+  getDrugInfoSettings,
+  setDrugInfoSettings,
+} from "../services/DrugInfoService";
+
+const DATE_FORMAT_OPTIONS = DATE_FORMATS.map((format) => ({
+  value: format,
+  label: format,
+}));
+
+const DRUG_INFO_OPTIONS = DRUG_INFO_PROVIDERS.map((provider) => ({
+  value: provider.id,
+  label: provider.name,
+}));
+
+// Settings that apply to the whole app rather than to one profile
+const SettingsScreen: React.FC = () => {
+  const { dateFormat, setDateFormat } = usePatient();
+  const [cacheStats, setCacheStats] = useState<{
+    entries: number;
+    oldestFetchedAt: string | null;
+  } | null>(null);
+  const [drugInfo, setDrugInfo] = useState<DrugInfoSettings | null>(null);
+  const [mirrorUrlInput, setMirrorUrlInput] = useState("");
+  const [rxnormUrlInput, setRxnormUrlInput] = useState("");
+
+  useEffect(() => {
+    getDrugInfoSettings()
+      .then((settings) => {
+        setDrugInfo(settings);
+        setMirrorUrlInput(settings.mirrorUrl);
+        setRxnormUrlInput(settings.rxnormUrl);
+      })
+      .catch((error) =>
+        console.error("Error reading drug information settings:", error)
+      );
+  }, []);
+
+  const saveDrugInfo = async (providerId: DrugInfoProviderId) => {
+    const settings = {
+      providerId,
+      mirrorUrl: mirrorUrlInput.trim(),
+      rxnormUrl: rxnormUrlInput.trim(),
+    };
+    try {
+      await setDrugInfoSettings(settings);
+      setDrugInfo(settings);
+    } catch (error: any) {
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  useEffect(() => {
+    getCacheStats()
+      .then(setCacheStats)
+      .catch((error) => console.error("Error reading cache stats:", error));
+  }, []);
+
+  const confirmClearCache = () => {
+    Alert.alert(
+      "Clear Saved FDA Data",
+      "Medication information will be downloaded again the next time it is needed, and won't be available offline until then.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await clearCache();
+              setCacheStats({ entries: 0, oldestFetchedAt: null });
+            } catch (error) {
+              Alert.alert("Error", "Saved FDA data could not be cleared.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.fullScreenContainer}>
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>Settings</Text>
+        <Text style={styles.subtitle}>
+          These apply to every profile on this device
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.settingCard}>
+          <OptionSelector
+            label="Date format"
+            options={DATE_FORMAT_OPTIONS}
+            selected={[dateFormat]}
+            onSelect={(value) => setDateFormat(value as DateFormat)}
+            style={styles.optionSelector}
+            darkMode
+          />
+          <Text style={styles.settingHint}>
+            Used when typing dates. Dates are shown in your device's format.
+          </Text>
+        </View>
+
+        <View style={styles.settingCard}>
+          <Text style={styles.settingTitle}>Offline FDA Data</Text>
+          <Text style={styles.settingHint}>
+            {cacheStats && cacheStats.entries > 0
+              ? `${cacheStats.entries} saved ${
+                  cacheStats.entries === 1 ? "response" : "responses"
+                }, oldest from ${formatDisplayDate(
+                  cacheStats.oldestFetchedAt || undefined
+                )}. Saved data is refreshed automatically when it gets old.`
+              : "No FDA data saved yet. Medication information is saved as you view it so it's available offline."}
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              styles.spacedButton,
+              !cacheStats?.entries && styles.disabledButton,
+            ]}
+            onPress={confirmClearCache}
+            disabled={!cacheStats?.entries}
+          >
+            <Text style={styles.buttonText}>Clear Saved Data</Text>
+          </TouchableOpacity>
+        </View>
+
+        {drugInfo && (
+          <View style={styles.settingCard}>
+            <OptionSelector
+              label="Drug information source"
+              options={DRUG_INFO_OPTIONS}
+              selected={[drugInfo.providerId]}
+              onSelect={(value) => saveDrugInfo(value as DrugInfoProviderId)}
+              style={styles.optionSelector}
+              darkMode
+            />
+            <Text style={styles.settingHint}>
+              {
+                DRUG_INFO_PROVIDERS.find(
+                  (provider) => provider.id === drugInfo.providerId
+                )?.description
+              }
+            </Text>
+            {drugInfo.providerId === "mirror" && (
+              <View style={styles.urlSetting}>
+                <Input
+                  label="Mirror URL"
+                  value={mirrorUrlInput}
+                  onChangeText={setMirrorUrlInput}
+                  placeholder="http://192.168.1.10:8000"
+                  keyboardType="url"
+                  darkMode
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    mirrorUrlInput.trim() === drugInfo.mirrorUrl &&
+                      styles.disabledButton,
+                  ]}
+                  onPress={() => saveDrugInfo("mirror")}
+                  disabled={mirrorUrlInput.trim() === drugInfo.mirrorUrl}
+                >
+                  <Text style={styles.buttonText}>Save URL</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <View style={styles.urlSetting}>
+              <Input
+                label="RxNorm server URL (optional)"
+                value={rxnormUrlInput}
+                onChangeText={setRxnormUrlInput}
+                placeholder="http://192.168.1.10:4000"
+                keyboardType="url"
+                darkMode
+              />
+              <Text style={styles.settingHint}>
+                Used to recognise medication names missing from the built-in
+                list. Leave empty to use the built-in list and FDA labels only.
+              </Text>
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  styles.spacedButton,
+                  rxnormUrlInput.trim() === drugInfo.rxnormUrl &&
+                    styles.disabledButton,
+                ]}
+                onPress={() => saveDrugInfo(drugInfo.providerId)}
+                disabled={rxnormUrlInput.trim() === drugInfo.rxnormUrl}
+              >
+                <Text style={styles.buttonText}>Save URL</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreenContainer: {
+    flex: 1,
+    backgroundColor: "#0a1128",
+  },
+  headerContainer: {
+    padding: 20,
+    backgroundColor: "#0f1635",
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#b8b9cb",
+  },
+  settingCard: {
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 20,
+    backgroundColor: "#1a2151",
+  },
+  optionSelector: {
+    marginBottom: 8,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#dbdbdb",
+    marginBottom: 8,
+  },
+  settingHint: {
+    fontSize: 13,
+    color: "#b8b9cb",
+  },
+  urlSetting: {
+    marginTop: 12,
+  },
+  primaryButton: {
+    alignSelf: "flex-end",
+    backgroundColor: "#4a80f5",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  spacedButton: {
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
+
+export default SettingsScreen;
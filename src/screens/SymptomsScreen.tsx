@@ -13,9 +13,15 @@ import {
 } from "react-native";
 import { usePatient } from "../contexts/PatientContext";
 import { Symptom } from "../types";
+import { formatDisplayDate } from "../utils/dates";
 
 const SymptomsScreen = () => {
-  const { patient, updatePatient } = usePatient();
+  const {
+    patient,
+    addSymptom: saveSymptom,
+    updateSymptom: saveSymptomChanges,
+    deleteSymptom: removeSymptom,
+  } = usePatient();
   const [newSymptom, setNewSymptom] = useState("");
   const [newSeverity, setNewSeverity] = useState("medium");
   const [newDuration, setNewDuration] = useState("");
@@ -51,16 +57,13 @@ const SymptomsScreen = () => {
       return;
     }
 
-    const symptom: Symptom = {
-      id: Date.now().toString(),
+    saveSymptom({
+      name: newSymptom,
       description: newSymptom,
       severity: newSeverity as "low" | "medium" | "high",
       duration: newDuration,
       dateRecorded: new Date().toISOString(),
-    };
-
-    const updatedSymptoms = [...patient.symptoms, symptom];
-    updatePatient({ ...patient, symptoms: updatedSymptoms });
+    });
     clearForm();
   };
 
@@ -71,18 +74,12 @@ const SymptomsScreen = () => {
       return;
     }
 
-    const updatedSymptoms = patient.symptoms.map((s) =>
-      s.id === currentSymptom.id
-        ? {
-            ...s,
-            description: newSymptom,
-            severity: newSeverity as "low" | "medium" | "high",
-            duration: newDuration,
-          }
-        : s
-    );
-
-    updatePatient({ ...patient, symptoms: updatedSymptoms });
+    saveSymptomChanges(currentSymptom.id, {
+      name: newSymptom,
+      description: newSymptom,
+      severity: newSeverity as "low" | "medium" | "high",
+      duration: newDuration,
+    });
     clearForm();
     setEditMode(false);
   };
@@ -99,10 +96,7 @@ const SymptomsScreen = () => {
         {
           text: "Delete",
           style: "destructive",
-          onPress: () => {
-            const updatedSymptoms = patient.symptoms.filter((s) => s.id !== id);
-            updatePatient({ ...patient, symptoms: updatedSymptoms });
-          },
+          onPress: () => removeSymptom(id),
         },
       ]
     );
@@ -141,11 +135,6 @@ const SymptomsScreen = () => {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString();
-  };
-
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -281,7 +270,7 @@ const SymptomsScreen = () => {
                   )}
 
                   <Text style={styles.symptomDetail}>
-                    Recorded: {formatDate(item.dateRecorded)}
+                    Recorded: {formatDisplayDate(item.dateRecorded)}
                   </Text>
 
                   <View style={styles.actionButtons}>
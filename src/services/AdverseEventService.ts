@@ -0,0 +1,201 @@
+import { AdverseEventSummary, Medication, Symptom } from "../types";
+import {
+  AdverseEventReport,
+  OpenFdaCount,
+  OpenFdaResponse,
+} from "../types/openfda";
+import { CacheOptions, CachedResponse } from "./CacheService";
+import { getDrugInfoProvider, searchTerm } from "./DrugInfoService";
+import { getMedicationIdentity } from "./DrugNormalizationService";
+import { reactionMatchesSymptom } from "../utils/reactions";
+
+// Reactions listed in the summary
+const TOP_REACTION_COUNT = 10;
+const REACTION_FIELD = "patient.reaction.reactionmeddrapt.exact";
+
+/**
+ * Search for reports naming the medication as one of the drugs taken.
+ * Single-ingredient products are searched by ingredient so every generic
+ * counts; combination products by brand.
+ */
+const buildEventSearch = async (
+  medication: Pick<Medication, "name" | "identity">
+): Promise<string> => {
+  const identity = await getMedicationIdentity(medication);
+  const terms =
+    identity.source !== "unresolved" && identity.ingredients.length === 1
+      ? [
+          searchTerm(
+            "patient.drug.openfda.generic_name",
+            identity.ingredients[0]
+          ),
+          ...identity.brandNames.map((brand) =>
+            searchTerm("patient.drug.openfda.brand_name", brand)
+          ),
+        ]
+      : [
+          ...identity.brandNames.map((brand) =>
+            searchTerm("patient.drug.openfda.brand_name", brand)
+          ),
+          searchTerm("patient.drug.medicinalproduct", medication.name),
+        ];
+  return terms.join(" ");
+};
+
+// openFDA counts over every report matching a medication's search
+export interface AdverseEventCounts {
+  // meta.results.total of the search
+  total: number;
+  // By the `serious` field
+  serious: OpenFdaCount[];
+  // By reaction, most common first
+  reactions: OpenFdaCount[];
+  // By day received, for all reports and for serious ones
+  byDay: OpenFdaCount[];
+  seriousByDay: OpenFdaCount[];
+}
+
+// Sums day buckets ("YYYYMMDD") into years
+const countByYear = (days: OpenFdaCount[]): Map<number, number> => {
+  const years = new Map<number, number>();
+  for (const day of days) {
+    const year = Number(day.time?.slice(0, 4));
+    if (year) years.set(year, (years.get(year) || 0) + day.count);
+  }
+  return years;
+};
+
+/**
+ * Builds the summary from openFDA's counts, so every figure describes all
+ * the matching reports rather than a page of them. Reactions matching a
+ * symptom the patient logged are marked with that symptom.
+ */
+export const summarizeAdverseEvents = (
+  medicationName: string,
+  counts: AdverseEventCounts,
+  symptoms: Pick<Symptom, "name">[] = []
+): AdverseEventSummary => {
+  const reportCount = counts.total;
+  // FAERS marks serious reports "1" and others "2"
+  const seriousCount =
+    counts.serious.find((bucket) => String(bucket.term) === "1")?.count || 0;
+  const years = countByYear(counts.byDay);
+  const seriousYears = countByYear(counts.seriousByDay);
+
+  return {
+    medicationName,
+    reportCount,
+    seriousCount,
+    seriousShare: reportCount > 0 ? seriousCount / reportCount : 0,
+    topReactions: counts.reactions
+      .filter((bucket) => bucket.term)
+      .slice(0, TOP_REACTION_COUNT)
+      .map(({ term, count }) => ({
+        reaction: term!,
+        count,
+        share: reportCount > 0 ? count / reportCount : 0,
+        loggedSymptom: symptoms.find((symptom) =>
+          reactionMatchesSymptom(term!, symptom.name)
+        )?.name,
+      })),
+    byYear: Array.from(years)
+      .sort(([a], [b]) => a - b)
+      .map(([year, count]) => ({
+        year,
+        count,
+        seriousCount: seriousYears.get(year) || 0,
+      })),
+  };
+};
+
+// Oldest fetch time of several responses, stale if any of them is
+const combineResponses = <T>(
+  responses: CachedResponse<unknown>[],
+  data: T
+): CachedResponse<T> => ({
+  data,
+  fetchedAt: responses
+    .map((response) => response.fetchedAt)
+    .reduce((oldest, fetchedAt) => (fetchedAt < oldest ? fetchedAt : oldest)),
+  stale: responses.some((response) => response.stale),
+});
+
+/**
+ * Summary of the FAERS reports naming a medication, with the patient's
+ * logged symptoms marked among the reactions. Reports show that a reaction
+ * was seen in someone taking the drug, not that the drug caused it.
+ */
+export const getAdverseEventSummary = async (
+  medication: Pick<Medication, "name" | "identity">,
+  symptoms: Pick<Symptom, "name">[],
+  options: CacheOptions<AdverseEventSummary> = {}
+): Promise<CachedResponse<AdverseEventSummary>> => {
+  try {
+    const provider = await getDrugInfoProvider();
+    const search = await buildEventSearch(medication);
+    const seriousSearch = `(${search}) AND serious:"1"`;
+
+    // Latest response of each query; a background refresh of any of them
+    // re-summarizes with the others as they are
+    let responses: CachedResponse<unknown>[] = [];
+    const summarize = (): CachedResponse<AdverseEventSummary> => {
+      const [total, serious, reactions, byDay, seriousByDay] = responses as [
+        CachedResponse<OpenFdaResponse<AdverseEventReport>>,
+        ...CachedResponse<OpenFdaCount[]>[]
+      ];
+      return combineResponses(
+        responses,
+        summarizeAdverseEvents(
+          medication.name,
+          {
+            total: total.data.meta?.results?.total || 0,
+            serious: serious.data,
+            reactions: reactions.data,
+            byDay: byDay.data,
+            seriousByDay: seriousByDay.data,
+          },
+          symptoms
+        )
+      );
+    };
+    const cacheOptions = <T>(index: number): CacheOptions<T> => ({
+      forceRefresh: options.forceRefresh,
+      onRevalidated: options.onRevalidated
+        ? (fresh) => {
+            responses = responses.map((response, i) =>
+              i === index ? fresh : response
+            );
+            options.onRevalidated!(summarize());
+          }
+        : undefined,
+    });
+
+    responses = await Promise.all<CachedResponse<unknown>>([
+      // Only the total is needed from the reports themselves
+      provider.query<AdverseEventReport>("event", search, 1, cacheOptions(0)),
+      provider.countAdverseEvents(search, "serious", 2, cacheOptions(1)),
+      provider.countAdverseEvents(
+        search,
+        REACTION_FIELD,
+        TOP_REACTION_COUNT,
+        cacheOptions(2)
+      ),
+      provider.countAdverseEvents(
+        search,
+        "receivedate",
+        undefined,
+        cacheOptions(3)
+      ),
+      provider.countAdverseEvents(
+        seriousSearch,
+        "receivedate",
+        undefined,
+        cacheOptions(4)
+      ),
+    ]);
+    return summarize();
+  } catch (error) {
+    console.error("Error getting adverse event summary:", error);
+    throw new Error("Failed to get adverse event summary");
+  }
+};
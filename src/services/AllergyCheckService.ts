@@ -0,0 +1,277 @@
+import {
+  Allergy,
+  AllergyConflict,
+  Medication,
+  MedicationIdentity,
+} from "../types";
+import { getActiveIngredients, safeFdaApiCall } from "./FdaService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+  resolveMedicationIdentity,
+} from "./DrugNormalizationService";
+
+interface DrugClass {
+  name: string;
+  // Names a patient might record the allergy under
+  aliases: string[];
+  members: string[];
+  // Matches the class in openFDA's pharm_class_epc field
+  pharmClassPattern: RegExp;
+}
+
+// Drug classes where an allergy to one member means the others should be
+// avoided or only given under supervision
+const DRUG_CLASSES: DrugClass[] = [
+  {
+    name: "penicillins",
+    aliases: ["penicillin", "penicillins"],
+    members: [
+      "penicillin",
+      "amoxicillin",
+      "ampicillin",
+      "dicloxacillin",
+      "nafcillin",
+      "oxacillin",
+      "piperacillin",
+    ],
+    pharmClassPattern: /penicillin-class/i,
+  },
+  {
+    name: "cephalosporins",
+    aliases: ["cephalosporin", "cephalosporins"],
+    members: [
+      "cephalexin",
+      "cefadroxil",
+      "cefazolin",
+      "cefuroxime",
+      "cefprozil",
+      "cefdinir",
+      "cefpodoxime",
+      "cefixime",
+      "ceftriaxone",
+      "cefepime",
+    ],
+    pharmClassPattern: /cephalosporin/i,
+  },
+  {
+    name: "sulfonamide antibiotics",
+    aliases: ["sulfa", "sulfa drugs", "sulfonamide", "sulfonamides"],
+    members: ["sulfamethoxazole", "sulfadiazine", "sulfisoxazole"],
+    pharmClassPattern: /sulfonamide antibacterial/i,
+  },
+  {
+    name: "NSAIDs",
+    aliases: ["nsaid", "nsaids", "anti-inflammatories"],
+    members: [
+      "aspirin",
+      "ibuprofen",
+      "naproxen",
+      "diclofenac",
+      "ketorolac",
+      "meloxicam",
+      "celecoxib",
+      "indomethacin",
+      "etodolac",
+      "nabumetone",
+    ],
+    pharmClassPattern: /nonsteroidal anti-inflammatory/i,
+  },
+  {
+    name: "opioids",
+    aliases: ["opioid", "opioids", "opiates", "narcotics"],
+    members: [
+      "codeine",
+      "morphine",
+      "hydrocodone",
+      "oxycodone",
+      "hydromorphone",
+      "tramadol",
+      "fentanyl",
+      "methadone",
+    ],
+    pharmClassPattern: /opioid agonist/i,
+  },
+  {
+    name: "fluoroquinolones",
+    aliases: ["fluoroquinolone", "fluoroquinolones", "quinolones"],
+    members: [
+      "ciprofloxacin",
+      "levofloxacin",
+      "moxifloxacin",
+      "ofloxacin",
+    ],
+    pharmClassPattern: /quinolone antibacterial/i,
+  },
+  {
+    name: "macrolides",
+    aliases: ["macrolide", "macrolides"],
+    members: ["azithromycin", "clarithromycin", "erythromycin"],
+    pharmClassPattern: /macrolide/i,
+  },
+  {
+    name: "tetracyclines",
+    aliases: ["tetracyclines"],
+    members: ["tetracycline", "doxycycline", "minocycline"],
+    pharmClassPattern: /tetracycline-class/i,
+  },
+];
+
+// Salt and ester parts of ingredient names that don't change what the drug is
+const SALT_WORDS =
+  /\b(hydrochloride|hcl|sodium|potassium|calcium|magnesium|sulfate|phosphate|acetate|maleate|mesylate|besylate|tartrate|citrate|succinate|trihydrate|monohydrate|anhydrous|bitartrate|hyclate)\b/g;
+
+const normalize = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(SALT_WORDS, "")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Whole-word containment, so "penicillin" matches "penicillin v" but
+// "sulfa" doesn't match "sulfasalazine"
+const containsTerm = (text: string, term: string): boolean =>
+  !!term && ` ${text} `.includes(` ${term} `);
+
+const namesMatch = (a: string, b: string): boolean =>
+  containsTerm(a, b) || containsTerm(b, a);
+
+interface ResolvedDrug {
+  ingredients: string[];
+  pharmClasses: string[];
+}
+
+const classesOf = ({ ingredients, pharmClasses }: ResolvedDrug): DrugClass[] =>
+  DRUG_CLASSES.filter(
+    (drugClass) =>
+      pharmClasses.some((pc) => drugClass.pharmClassPattern.test(pc)) ||
+      ingredients.some((ingredient) =>
+        [...drugClass.aliases, ...drugClass.members].some((term) =>
+          containsTerm(ingredient, term)
+        )
+      )
+  );
+
+/**
+ * Looks up a drug's active ingredients and classes from its label, adding
+ * the ingredients it was resolved to. Falls back to the name itself when the
+ * FDA has no label for it or can't be reached.
+ */
+const resolveDrug = async (
+  identity: MedicationIdentity,
+  cache: Map<string, Promise<ResolvedDrug>>
+): Promise<ResolvedDrug> => {
+  const name = getLookupName(identity);
+  const key = normalize(name);
+  if (!cache.has(key)) {
+    cache.set(
+      key,
+      safeFdaApiCall(() => getActiveIngredients(name), null).then(
+        (result: ResolvedDrug | null) => ({
+          ingredients: result?.ingredients.length
+            ? result.ingredients.map(normalize)
+            : [key],
+          pharmClasses: result?.pharmClasses || [],
+        })
+      )
+    );
+  }
+
+  const drug = await cache.get(key)!;
+  if (identity.source === "unresolved") return drug;
+  return {
+    ingredients: Array.from(
+      new Set([...identity.ingredients.map(normalize), ...drug.ingredients])
+    ),
+    pharmClasses: drug.pharmClasses,
+  };
+};
+
+const conflictSeverity = (
+  allergy: Allergy,
+  matchType: AllergyConflict["matchType"]
+): AllergyConflict["severity"] => {
+  if (matchType === "ingredient") {
+    return allergy.severity === "mild" ? "medium" : "high";
+  }
+  return allergy.severity === "severe" ? "high" : "medium";
+};
+
+/**
+ * Compares medications against the patient's recorded allergies and returns
+ * a conflict for each medication that contains an allergen or belongs to the
+ * same drug class as one. Refuted allergies are ignored.
+ */
+export const checkAllergyConflicts = async (
+  medications: Pick<Medication, "name" | "identity">[],
+  allergies: Allergy[]
+): Promise<AllergyConflict[]> => {
+  const activeAllergies = allergies.filter(
+    (allergy) => allergy.verificationStatus !== "refuted"
+  );
+  if (medications.length === 0 || activeAllergies.length === 0) return [];
+
+  try {
+    const cache = new Map<string, Promise<ResolvedDrug>>();
+    const conflicts: AllergyConflict[] = [];
+
+    for (const medication of medications) {
+      if (!medication.name.trim()) continue;
+      const drug = await resolveDrug(
+        await getMedicationIdentity(medication),
+        cache
+      );
+      const drugClasses = classesOf(drug);
+
+      for (const allergy of activeAllergies) {
+        const allergen = normalize(allergy.allergen);
+        const matchedIngredient = drug.ingredients.find((ingredient) =>
+          namesMatch(ingredient, allergen)
+        );
+
+        if (matchedIngredient) {
+          conflicts.push({
+            medicationName: medication.name,
+            allergyId: allergy.id,
+            allergen: allergy.allergen,
+            matchType: "ingredient",
+            matchedIngredient,
+            severity: conflictSeverity(allergy, "ingredient"),
+            message: `${medication.name} contains ${matchedIngredient}, which is recorded as an allergy (${allergy.allergen}).`,
+          });
+          continue;
+        }
+
+        // Only drug allergies carry over to the rest of a drug class
+        if (allergy.category !== "drug") continue;
+        const allergenClasses = classesOf(
+          await resolveDrug(
+            await resolveMedicationIdentity(allergy.allergen),
+            cache
+          )
+        );
+        const sharedClass = drugClasses.find((drugClass) =>
+          allergenClasses.includes(drugClass)
+        );
+
+        if (sharedClass) {
+          conflicts.push({
+            medicationName: medication.name,
+            allergyId: allergy.id,
+            allergen: allergy.allergen,
+            matchType: "class",
+            drugClass: sharedClass.name,
+            severity: conflictSeverity(allergy, "class"),
+            message: `${medication.name} belongs to the same drug class (${sharedClass.name}) as ${allergy.allergen}, which is recorded as an allergy.`,
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  } catch (error) {
+    console.error("Error checking allergy conflicts:", error);
+    throw new Error("Failed to check medications against allergies");
+  }
+};
@@ -0,0 +1,137 @@
+import { BeersCriteriaFinding, Diagnosis, Medication } from "../types";
+import { getMedicationIdentity } from "./DrugNormalizationService";
+import {
+  BEERS_CONDITION_RULES,
+  BEERS_KIDNEY_RULES,
+  BEERS_MEDICATION_RULES,
+  BEERS_MINIMUM_AGE,
+} from "../utils/beersCriteria";
+import { findConditionMention } from "../utils/conditions";
+
+const DISCUSS_ALTERNATIVES =
+  "Ask your doctor whether a safer alternative would work for you.";
+
+// The recorded diagnosis matching any of a rule's conditions, if any
+const findDiagnosis = (
+  conditions: string[],
+  diagnoses: Pick<Diagnosis, "name">[]
+): Pick<Diagnosis, "name"> | undefined =>
+  diagnoses.find((diagnosis) =>
+    conditions.some((condition) =>
+      findConditionMention(condition, diagnosis.name)
+    )
+  );
+
+/**
+ * Applies the Beers Criteria rule tables to one medication's ingredients.
+ * Reports each rule at most once per medication. Kidney rules only apply
+ * when kidney disease is recorded, since the app doesn't store kidney
+ * function test results.
+ */
+export const findBeersCriteriaFindings = (
+  medicationName: string,
+  ingredients: string[],
+  diagnoses: Pick<Diagnosis, "name">[]
+): BeersCriteriaFinding[] => {
+  const findings: BeersCriteriaFinding[] = [];
+  const matchIngredient = (ruleIngredients: string[]) =>
+    ingredients.find((ingredient) => ruleIngredients.includes(ingredient));
+
+  for (const rule of BEERS_CONDITION_RULES) {
+    const ingredient = matchIngredient(rule.ingredients);
+    const diagnosis = ingredient && findDiagnosis(rule.conditions, diagnoses);
+    if (!ingredient || !diagnosis) continue;
+
+    findings.push({
+      medicationName,
+      ingredient,
+      drugGroup: rule.group,
+      criterion: "condition",
+      diagnosisName: diagnosis.name,
+      recommendation: "avoid",
+      rationale: rule.rationale,
+      message: `The AGS Beers Criteria advise older adults with ${rule.conditionLabel} to avoid ${ingredient}. You have ${diagnosis.name} recorded. ${DISCUSS_ALTERNATIVES}`,
+    });
+  }
+
+  const kidneyDiagnosis = findDiagnosis(["renal impairment"], diagnoses);
+  if (kidneyDiagnosis) {
+    for (const rule of BEERS_KIDNEY_RULES) {
+      const ingredient = matchIngredient(rule.ingredients);
+      if (!ingredient) continue;
+
+      const threshold = `when kidney function (creatinine clearance) is below ${rule.creatinineClearanceBelow} mL/min`;
+      findings.push({
+        medicationName,
+        ingredient,
+        drugGroup: rule.group,
+        criterion: "kidney",
+        diagnosisName: kidneyDiagnosis.name,
+        recommendation: rule.recommendation,
+        rationale: rule.rationale,
+        message: `${
+          rule.recommendation === "avoid"
+            ? `The AGS Beers Criteria advise older adults to avoid ${ingredient} ${threshold}.`
+            : `The AGS Beers Criteria advise a lower dose or less frequent dosing of ${ingredient} ${threshold}.`
+        } You have ${
+          kidneyDiagnosis.name
+        } recorded; ask your doctor whether your kidney function calls for a change.`,
+      });
+    }
+  }
+
+  for (const rule of BEERS_MEDICATION_RULES) {
+    const ingredient = matchIngredient(rule.ingredients);
+    if (!ingredient) continue;
+
+    const when = rule.when ? ` ${rule.when}` : "";
+    findings.push({
+      medicationName,
+      ingredient,
+      drugGroup: rule.group,
+      criterion: "medication",
+      recommendation: rule.recommendation,
+      rationale: rule.rationale,
+      message: `${
+        rule.recommendation === "avoid"
+          ? `The AGS Beers Criteria advise adults ${BEERS_MINIMUM_AGE} and older to avoid ${ingredient}${when}.`
+          : `The AGS Beers Criteria advise adults ${BEERS_MINIMUM_AGE} and older to use ${ingredient} with caution${when}.`
+      } ${DISCUSS_ALTERNATIVES}`,
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Screens a patient's medications against the AGS Beers Criteria for
+ * potentially inappropriate medications in older adults. Applies only from
+ * age 65; younger patients, and patients whose age is unknown, get no
+ * findings.
+ */
+export const checkBeersCriteria = async (
+  medications: Pick<Medication, "name" | "identity">[],
+  diagnoses: Pick<Diagnosis, "name">[],
+  age: number
+): Promise<BeersCriteriaFinding[]> => {
+  if (!(age >= BEERS_MINIMUM_AGE) || medications.length === 0) return [];
+
+  try {
+    const results = await Promise.all(
+      medications
+        .filter((medication) => medication.name.trim())
+        .map(async (medication) => {
+          const identity = await getMedicationIdentity(medication);
+          return findBeersCriteriaFindings(
+            medication.name,
+            identity.ingredients,
+            diagnoses
+          );
+        })
+    );
+    return results.flat();
+  } catch (error) {
+    console.error("Error checking Beers Criteria:", error);
+    throw new Error("Failed to check medications for older adults");
+  }
+};
@@ -0,0 +1,257 @@
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import {
+  decryptValue,
+  encryptValue,
+  getData,
+  removeData,
+  storeData,
+} from "./StorageService";
+
+// Responses are stored as encrypted files named by a hash of the request, so
+// the medication names in a query are not readable on disk
+const CACHE_DIRECTORY = `${FileSystem.documentDirectory}fda-cache/`;
+const CACHE_INDEX_KEY = "fdaCacheIndex";
+const MAX_ENTRIES = 200;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// How long a response counts as fresh, by openFDA endpoint. Labels rarely
+// change, while adverse event reports and recalls are updated weekly.
+export const CACHE_TTLS: Record<string, number> = {
+  label: 7 * DAY,
+  ndc: 30 * DAY,
+  event: DAY,
+  enforcement: 12 * HOUR,
+};
+const DEFAULT_TTL = DAY;
+
+interface CacheIndexEntry {
+  endpoint: string;
+  fetchedAt: string;
+  lastUsedAt: string;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+export interface CachedResponse<T> {
+  data: T;
+  // ISO timestamp of when the data was fetched from the server
+  fetchedAt: string;
+  // True when the data is past its TTL, either because it is being refreshed
+  // in the background or because the server could not be reached
+  stale: boolean;
+}
+
+export interface CacheOptions<T> {
+  // Fetch even when a fresh copy is cached. The cached copy is still returned
+  // if the fetch fails.
+  forceRefresh?: boolean;
+  // Called when a stale response has been refreshed in the background
+  onRevalidated?: (response: CachedResponse<T>) => void;
+}
+
+let indexPromise: Promise<CacheIndex> | null = null;
+let indexWrite: Promise<void> = Promise.resolve();
+let directoryReady: Promise<void> | null = null;
+const inFlight = new Map<string, Promise<CachedResponse<any>>>();
+// Fetch times of the responses served recently, so a screen can tell how old
+// the data behind a result is
+const served: { servedAt: number; fetchedAt: string }[] = [];
+
+const loadIndex = (): Promise<CacheIndex> => {
+  if (!indexPromise) {
+    indexPromise = getData(CACHE_INDEX_KEY)
+      .then((index) => index || {})
+      .catch(() => ({}));
+  }
+  return indexPromise;
+};
+
+const saveIndex = (index: CacheIndex) => {
+  indexWrite = indexWrite
+    .then(() => storeData(CACHE_INDEX_KEY, index))
+    .catch((error) => console.error("Error saving cache index:", error));
+  return indexWrite;
+};
+
+const ensureDirectory = () => {
+  if (!directoryReady) {
+    directoryReady = FileSystem.makeDirectoryAsync(CACHE_DIRECTORY, {
+      intermediates: true,
+    }).catch(async (error) => {
+      const info = await FileSystem.getInfoAsync(CACHE_DIRECTORY);
+      if (!info.exists) {
+        directoryReady = null;
+        throw error;
+      }
+    });
+  }
+  return directoryReady;
+};
+
+// API keys are left out so changing the key doesn't invalidate the cache
+const cacheKeyFor = (url: string): Promise<string> =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    url.replace(/&?api_key=[^&]*/, "")
+  );
+
+const endpointOf = (url: string): string =>
+  url.match(/\/(\w+)\.json/)?.[1] || "other";
+
+const entryPath = (key: string) => `${CACHE_DIRECTORY}${key}.json`;
+
+// Records a response for getOldestDataServedSince. Exported so data that
+// doesn't go through the cache, like the bundled sample data, counts too.
+export const markServed = <T>(response: CachedResponse<T>): CachedResponse<T> => {
+  served.push({ servedAt: Date.now(), fetchedAt: response.fetchedAt });
+  if (served.length > MAX_ENTRIES) served.shift();
+  return response;
+};
+
+const readEntry = async <T>(
+  key: string
+): Promise<{ data: T; fetchedAt: string } | null> => {
+  const index = await loadIndex();
+  if (!index[key]) return null;
+
+  try {
+    const payload = await FileSystem.readAsStringAsync(entryPath(key));
+    index[key].lastUsedAt = new Date().toISOString();
+    return {
+      data: JSON.parse(await decryptValue(payload)),
+      fetchedAt: index[key].fetchedAt,
+    };
+  } catch (error) {
+    console.error("Error reading cached response:", error);
+    delete index[key];
+    saveIndex(index);
+    return null;
+  }
+};
+
+const writeEntry = async (key: string, endpoint: string, data: unknown) => {
+  const fetchedAt = new Date().toISOString();
+  await ensureDirectory();
+  await FileSystem.writeAsStringAsync(
+    entryPath(key),
+    await encryptValue(JSON.stringify(data))
+  );
+
+  const index = await loadIndex();
+  index[key] = { endpoint, fetchedAt, lastUsedAt: fetchedAt };
+
+  // Drop the least recently used entries once the cache is full
+  const keys = Object.keys(index);
+  if (keys.length > MAX_ENTRIES) {
+    const evicted = keys
+      .sort((a, b) => index[a].lastUsedAt.localeCompare(index[b].lastUsedAt))
+      .slice(0, keys.length - MAX_ENTRIES);
+    for (const evictedKey of evicted) {
+      delete index[evictedKey];
+      await FileSystem.deleteAsync(entryPath(evictedKey), { idempotent: true });
+    }
+  }
+
+  await saveIndex(index);
+  return fetchedAt;
+};
+
+const fetchAndStore = <T>(
+  key: string,
+  endpoint: string,
+  fetcher: () => Promise<T>
+): Promise<CachedResponse<T>> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const data = await fetcher();
+    let fetchedAt = new Date().toISOString();
+    try {
+      fetchedAt = await writeEntry(key, endpoint, data);
+    } catch (error) {
+      // A response that can't be cached is still worth returning
+      console.error("Error caching response:", error);
+    }
+    return { data, fetchedAt, stale: false };
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, request);
+  return request;
+};
+
+/**
+ * Fetches a URL through the persistent cache. Fresh copies are returned
+ * straight away; stale copies are returned while a refresh runs in the
+ * background, and are used as a fallback when the server can't be reached.
+ */
+export const cachedRequest = async <T>(
+  url: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions<T> = {}
+): Promise<CachedResponse<T>> => {
+  const key = await cacheKeyFor(url);
+  const endpoint = endpointOf(url);
+  const cached = await readEntry<T>(key);
+
+  if (cached && !options.forceRefresh) {
+    const age = Date.now() - new Date(cached.fetchedAt).getTime();
+    if (age < (CACHE_TTLS[endpoint] ?? DEFAULT_TTL)) {
+      return markServed({ ...cached, stale: false });
+    }
+
+    fetchAndStore(key, endpoint, fetcher)
+      .then((response) => options.onRevalidated?.(markServed(response)))
+      .catch((error) =>
+        console.log("Background refresh failed:", error?.message || error)
+      );
+    return markServed({ ...cached, stale: true });
+  }
+
+  try {
+    return markServed(await fetchAndStore(key, endpoint, fetcher));
+  } catch (error) {
+    if (cached) {
+      console.log("Serving cached response after failed refresh");
+      return markServed({ ...cached, stale: true });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fetch time of the oldest response served since a point in time, or null
+ * if nothing was served. Used for "data as of" indicators.
+ */
+export const getOldestDataServedSince = (since: number): string | null =>
+  served
+    .filter((entry) => entry.servedAt >= since)
+    .map((entry) => entry.fetchedAt)
+    .sort()[0] || null;
+
+export const getCacheStats = async (): Promise<{
+  entries: number;
+  oldestFetchedAt: string | null;
+}> => {
+  const entries = Object.values(await loadIndex());
+  return {
+    entries: entries.length,
+    oldestFetchedAt: entries.map((entry) => entry.fetchedAt).sort()[0] || null,
+  };
+};
+
+export const clearCache = async (): Promise<void> => {
+  try {
+    await indexWrite;
+    await FileSystem.deleteAsync(CACHE_DIRECTORY, { idempotent: true });
+    await removeData(CACHE_INDEX_KEY);
+    indexPromise = Promise.resolve({});
+    directoryReady = null;
+  } catch (error) {
+    console.error("Error clearing cache:", error);
+    throw new Error("Failed to clear cached data");
+  }
+};
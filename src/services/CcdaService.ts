@@ -0,0 +1,298 @@
+import { XMLParser } from "fast-xml-parser";
+import { Allergy, MedicalHistory } from "../types";
+import { ImportedRecord } from "./ImportService";
+import { parseMedicationText } from "../utils/dosage";
+import { inferAllergyCategory } from "../utils/allergies";
+
+// C-CDA sections are identified by LOINC code, with the section template id as
+// a fallback for documents that leave the code out
+const SECTIONS = {
+  medications: { code: "10160-0", templateId: "2.16.840.1.113883.10.20.22.2.1" },
+  problems: { code: "11450-4", templateId: "2.16.840.1.113883.10.20.22.2.5" },
+  allergies: { code: "48765-2", templateId: "2.16.840.1.113883.10.20.22.2.6" },
+  procedures: { code: "47519-4", templateId: "2.16.840.1.113883.10.20.22.2.7" },
+};
+
+// LOINC code of the problem/allergy status observation
+const STATUS_OBSERVATION_CODE = "33999-4";
+
+const REACTION_TEMPLATE_ID = "2.16.840.1.113883.10.20.22.4.9";
+const SEVERITY_TEMPLATE_ID = "2.16.840.1.113883.10.20.22.4.8";
+
+// SNOMED allergy types used as the allergy observation value
+const ALLERGY_TYPE_CATEGORIES: Record<string, Allergy["category"]> = {
+  "416098002": "drug",
+  "419511003": "drug",
+  "59037007": "drug",
+  "414285001": "food",
+  "235719002": "food",
+  "418471000": "food",
+  "426232007": "environment",
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  isArray: (name) =>
+    [
+      "component",
+      "entry",
+      "entryRelationship",
+      "templateId",
+      "effectiveTime",
+      "participant",
+      "translation",
+    ].includes(name),
+});
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value == null ? [] : Array.isArray(value) ? value : [value];
+
+const textOf = (node: any): string => {
+  if (node == null) return "";
+  if (typeof node === "string" || typeof node === "number") {
+    return String(node).trim();
+  }
+  return typeof node["#text"] === "string" ? node["#text"].trim() : "";
+};
+
+const codeName = (code: any): string =>
+  code?.["@_displayName"] ||
+  textOf(code?.originalText) ||
+  asArray(code?.translation).find((t: any) => t?.["@_displayName"])?.[
+    "@_displayName"
+  ] ||
+  "";
+
+const personName = (name: any): string => {
+  if (!name) return "";
+  if (typeof name === "string") return name.trim();
+  return [name.prefix, name.given, name.family]
+    .flatMap(asArray)
+    .map(textOf)
+    .filter(Boolean)
+    .join(" ");
+};
+
+const authorName = (node: any): string =>
+  personName(asArray(node?.author)[0]?.assignedAuthor?.assignedPerson?.name);
+
+/**
+ * Converts an HL7 timestamp (YYYYMMDD[HHMMSS][+ZZZZ]) to an ISO date
+ */
+const fromHl7Date = (value?: string): string | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01"] = match;
+  return `${year}-${month}-${day}`;
+};
+
+// Start and end of an effectiveTime, which is either a point or an interval
+const timeRange = (
+  effectiveTimes: any[]
+): { start?: string; end?: string } => {
+  const interval =
+    effectiveTimes.find((time) => time?.low || time?.high) ||
+    effectiveTimes.find((time) => time?.["@_value"]);
+  return {
+    start: fromHl7Date(interval?.low?.["@_value"] || interval?.["@_value"]),
+    end: fromHl7Date(interval?.high?.["@_value"]),
+  };
+};
+
+const PERIOD_UNITS: Record<string, string> = {
+  h: "hour",
+  d: "day",
+  wk: "week",
+  mo: "month",
+};
+
+const describePeriod = (effectiveTimes: any[]): string => {
+  const period = effectiveTimes.find(
+    (time) => time?.["@_type"] === "PIVL_TS"
+  )?.period;
+  const value = Number(period?.["@_value"]);
+  const unit = PERIOD_UNITS[period?.["@_unit"]] || period?.["@_unit"];
+  if (!value || !unit) return "";
+  return value === 1 ? `Every ${unit}` : `Every ${value} ${unit}s`;
+};
+
+// Status reported by a nested problem/allergy status observation
+const statusOf = (observation: any): string =>
+  codeName(
+    asArray(observation?.entryRelationship)
+      .map((rel: any) => rel?.observation)
+      .find((obs: any) => obs?.code?.["@_code"] === STATUS_OBSERVATION_CODE)
+      ?.value
+  ).toLowerCase();
+
+const isInactive = (observation: any): boolean =>
+  /resolved|inactive/.test(statusOf(observation)) ||
+  !!asArray(observation?.effectiveTime)[0]?.high?.["@_value"];
+
+const findSection = (
+  body: any,
+  { code, templateId }: { code: string; templateId: string }
+): any =>
+  asArray(body?.component)
+    .map((component: any) => component?.section)
+    .find(
+      (section: any) =>
+        section?.code?.["@_code"] === code ||
+        // Sections with required entries use the same id with a ".1" suffix
+        asArray(section?.templateId).some(
+          (id: any) =>
+            id?.["@_root"] === templateId ||
+            id?.["@_root"] === `${templateId}.1`
+        )
+    );
+
+const hasTemplate = (node: any, templateId: string): boolean =>
+  asArray(node?.templateId).some((id: any) => id?.["@_root"] === templateId);
+
+// Observations directly nested in another observation with a given template
+const nestedObservations = (observation: any, templateId: string): any[] =>
+  asArray(observation?.entryRelationship)
+    .map((rel: any) => rel?.observation)
+    .filter((obs: any) => hasTemplate(obs, templateId));
+
+// Observations nested inside the concern acts of a problem/allergy section
+const concernObservations = (section: any): any[] =>
+  asArray(section?.entry).flatMap((entry: any) =>
+    asArray(entry?.act?.entryRelationship)
+      .map((rel: any) => rel?.observation)
+      .filter((obs: any) => obs && obs["@_negationInd"] !== "true")
+  );
+
+const SURGICAL_NAME_REGEX = /surg|ectomy|otomy|ostomy|plasty|repair|transplant/i;
+
+/**
+ * Reads medications, problems, procedures and allergies from a C-CDA
+ * document such as a patient portal download
+ */
+export const parseCcdaDocument = (xml: string): ImportedRecord => {
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    console.error("Error parsing C-CDA XML:", error);
+    throw new Error("The file is not valid XML");
+  }
+
+  const body = asArray(document?.ClinicalDocument?.component)[0]
+    ?.structuredBody;
+  if (!body) {
+    throw new Error("The file is not a C-CDA document");
+  }
+
+  const record: ImportedRecord = {
+    source: "ccda",
+    medications: [],
+    diagnoses: [],
+    medicalHistory: [],
+    allergies: [],
+  };
+
+  const medicationSection = findSection(body, SECTIONS.medications);
+  for (const entry of asArray<any>(medicationSection?.entry)) {
+    const administration = entry?.substanceAdministration;
+    if (!administration) continue;
+    if (administration.statusCode?.["@_code"] === "nullified") continue;
+
+    const material =
+      administration.consumable?.manufacturedProduct?.manufacturedMaterial;
+    const effectiveTimes = asArray(administration.effectiveTime);
+    const { start, end } = timeRange(effectiveTimes);
+    const dose = administration.doseQuantity;
+    // A unit of "1" means a count of doses, e.g. tablets
+    const doseUnit = dose?.["@_unit"] !== "1" ? dose?.["@_unit"] : "";
+
+    const dosage = [dose?.["@_value"], doseUnit].filter(Boolean).join(" ");
+    const frequency =
+      describePeriod(effectiveTimes) || textOf(administration.text);
+    const route = codeName(administration.routeCode);
+
+    record.medications.push({
+      name: codeName(material?.code) || textOf(material?.name),
+      dosage,
+      frequency,
+      ...parseMedicationText(`${dosage} ${route}`, frequency),
+      startDate: start || "",
+      endDate: end,
+      prescribedBy: authorName(administration) || undefined,
+    });
+  }
+
+  const problemSection = findSection(body, SECTIONS.problems);
+  for (const observation of concernObservations(problemSection)) {
+    const name = codeName(observation.value);
+    const { start } = timeRange(asArray(observation.effectiveTime));
+
+    if (isInactive(observation)) {
+      record.medicalHistory.push({ type: "illness", name, date: start || "" });
+    } else {
+      record.diagnoses.push({
+        name,
+        diagnosedDate: start || "",
+        diagnosedBy: authorName(observation),
+      });
+    }
+  }
+
+  const procedureSection = findSection(body, SECTIONS.procedures);
+  for (const entry of asArray<any>(procedureSection?.entry)) {
+    const procedure = entry?.procedure || entry?.act || entry?.observation;
+    if (!procedure) continue;
+    if (["nullified", "cancelled"].includes(procedure.statusCode?.["@_code"])) {
+      continue;
+    }
+
+    const name = codeName(procedure.code);
+    const type: MedicalHistory["type"] = SURGICAL_NAME_REGEX.test(name)
+      ? "surgery"
+      : "other";
+    record.medicalHistory.push({
+      type,
+      name,
+      date: timeRange(asArray(procedure.effectiveTime)).start || "",
+    });
+  }
+
+  const allergySection = findSection(body, SECTIONS.allergies);
+  for (const observation of concernObservations(allergySection)) {
+    if (isInactive(observation)) continue;
+    const entity = asArray(observation.participant)[0]?.participantRole
+      ?.playingEntity;
+    const allergen = codeName(entity?.code) || textOf(entity?.name);
+    if (!allergen) continue;
+
+    const reactions = nestedObservations(observation, REACTION_TEMPLATE_ID);
+    // Severity may be recorded on the allergy or on each reaction
+    const severityText = [observation, ...reactions]
+      .flatMap((obs) => nestedObservations(obs, SEVERITY_TEMPLATE_ID))
+      .map((obs) => codeName(obs.value).toLowerCase())
+      .join(" ");
+    const severity =
+      (["severe", "moderate", "mild"] as const).find((level) =>
+        severityText.includes(level)
+      ) || "unknown";
+
+    record.allergies.push({
+      allergen,
+      category:
+        ALLERGY_TYPE_CATEGORIES[observation.value?.["@_code"]] ||
+        inferAllergyCategory(allergen),
+      reaction:
+        reactions
+          .map((reaction) => codeName(reaction.value))
+          .filter(Boolean)
+          .join(", ") || undefined,
+      severity,
+      onsetDate: timeRange(asArray(observation.effectiveTime)).start,
+      verificationStatus: "unconfirmed",
+    });
+  }
+
+  return record;
+};
@@ -0,0 +1,252 @@
+import {
+  ChangeEntityType,
+  ChangeLogEntry,
+  ChangeLogState,
+  Patient,
+} from "../types";
+import {
+  getData,
+  getEncryptedData,
+  removeData,
+  removeEncryptedData,
+  storeData,
+  storeEncryptedData,
+} from "./StorageService";
+
+// The change log holds before/after medical values, so it is encrypted like
+// the patient record itself. Entries are only ever appended, into pages of
+// PAGE_SIZE entries so an append rewrites only the newest page; no entry is
+// ever removed, so the log stays complete for audits.
+const CHANGE_LOG_PAGE_COUNT_KEY = "changeLogPageCount";
+const PAGE_SIZE = 200;
+
+const pageKey = (page: number) => `changeLog.page.${page}`;
+
+// How many of a profile's most recent changes can be undone
+export const UNDO_WINDOW = 10;
+
+// Patient collections that hold entities with their own ids
+export const ENTITY_COLLECTIONS = {
+  medication: "medications",
+  symptom: "symptoms",
+  diagnosis: "diagnoses",
+  medicalHistory: "medicalHistory",
+  allergy: "allergies",
+} as const;
+
+// A record from one of those collections
+type EntityRecord =
+  Patient[(typeof ENTITY_COLLECTIONS)[keyof typeof ENTITY_COLLECTIONS]][number];
+
+const ENTITY_LABELS: Record<ChangeEntityType, string> = {
+  profile: "profile",
+  medication: "medication",
+  symptom: "symptom",
+  diagnosis: "diagnosis",
+  medicalHistory: "medical history item",
+  allergy: "allergy",
+};
+
+const getPage = async (page: number): Promise<ChangeLogEntry[]> => {
+  const stored = await getEncryptedData(pageKey(page));
+  return stored ? JSON.parse(stored) : [];
+};
+
+export const getChangeLog = async (): Promise<ChangeLogEntry[]> => {
+  const pageCount: number = (await getData(CHANGE_LOG_PAGE_COUNT_KEY)) || 0;
+  const pages: ChangeLogEntry[][] = [];
+  for (let page = 0; page < pageCount; page++) {
+    pages.push(await getPage(page));
+  }
+  return pages.flat();
+};
+
+/**
+ * Appends entries to the stored change log, rewriting only its newest page.
+ * Pages are written before the page count, so an interrupted append leaves
+ * the previous log readable.
+ */
+export const appendChangeLogEntries = async (
+  entries: ChangeLogEntry[]
+): Promise<void> => {
+  const pageCount: number = (await getData(CHANGE_LOG_PAGE_COUNT_KEY)) || 0;
+  let page = Math.max(0, pageCount - 1);
+  let pending = [...(await getPage(page)), ...entries];
+  while (pending.length > 0) {
+    await storeEncryptedData(
+      pageKey(page),
+      JSON.stringify(pending.slice(0, PAGE_SIZE))
+    );
+    pending = pending.slice(PAGE_SIZE);
+    page++;
+  }
+  await storeData(CHANGE_LOG_PAGE_COUNT_KEY, Math.max(pageCount, page));
+};
+
+/**
+ * Deletes the whole change log. Only for a log that can no longer be read,
+ * which would otherwise make every later append fail.
+ */
+export const clearChangeLog = async (): Promise<void> => {
+  const pageCount: number = (await getData(CHANGE_LOG_PAGE_COUNT_KEY)) || 0;
+  for (let page = 0; page < pageCount; page++) {
+    await removeEncryptedData(pageKey(page));
+  }
+  await removeData(CHANGE_LOG_PAGE_COUNT_KEY);
+};
+
+/**
+ * Returns a short human readable description of a change
+ */
+export const describeChange = (entry: ChangeLogEntry): string => {
+  const state = entry.after ?? entry.before;
+  const name =
+    typeof state === "string"
+      ? state
+      : state && ("allergen" in state ? state.allergen : state.name);
+  const label = ENTITY_LABELS[entry.entityType];
+  const target = name ? `${label} "${name}"` : label;
+
+  switch (entry.action) {
+    case "create":
+      return `Added ${target}`;
+    case "update":
+      return `Updated ${target}`;
+    case "delete":
+      return `Deleted ${target}`;
+    case "undo":
+      return `Undid a change to ${target}`;
+  }
+};
+
+/**
+ * Lists the fields that differ between the before and after values of a change
+ */
+export const getChangedFields = (
+  entry: ChangeLogEntry
+): { field: string; before: string; after: string }[] => {
+  if (
+    typeof entry.before !== "object" ||
+    typeof entry.after !== "object" ||
+    !entry.before ||
+    !entry.after
+  ) {
+    return [];
+  }
+  const before: Record<string, unknown> = { ...entry.before };
+  const after: Record<string, unknown> = { ...entry.after };
+
+  const format = (value: unknown) =>
+    value === undefined || value === null
+      ? "—"
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields)
+    .filter((field) => field !== "id")
+    .filter((field) => format(before[field]) !== format(after[field]))
+    .map((field) => ({
+      field,
+      before: format(before[field]),
+      after: format(after[field]),
+    }));
+};
+
+/**
+ * Returns the entries that touched a single entity, newest first
+ */
+export const getEntityHistory = (
+  log: ChangeLogEntry[],
+  profileId: string,
+  entityType: ChangeEntityType,
+  entityId: string
+): ChangeLogEntry[] =>
+  log
+    .filter(
+      (entry) =>
+        entry.profileId === profileId &&
+        entry.entityType === entityType &&
+        entry.entityId === entityId
+    )
+    .reverse();
+
+/**
+ * A change can be undone when it is one of the profile's most recent changes,
+ * has not been undone already, and no later change touched the same entity.
+ */
+export const isUndoable = (
+  log: ChangeLogEntry[],
+  entry: ChangeLogEntry
+): boolean => {
+  if (entry.action === "undo") return false;
+  // Allergies were plain strings before they had ids; those entries can't be
+  // matched to the migrated records
+  if (
+    entry.entityType === "allergy" &&
+    typeof (entry.after ?? entry.before) === "string"
+  ) {
+    return false;
+  }
+  if (log.some((e) => e.undoneEntryId === entry.id)) return false;
+
+  const undoneIds = new Set(
+    log.filter((e) => e.undoneEntryId).map((e) => e.undoneEntryId)
+  );
+  const recentChanges = log
+    .filter(
+      (e) =>
+        e.profileId === entry.profileId &&
+        e.action !== "undo" &&
+        !undoneIds.has(e.id)
+    )
+    .slice(-UNDO_WINDOW);
+  if (!recentChanges.some((e) => e.id === entry.id)) return false;
+
+  const index = log.findIndex((e) => e.id === entry.id);
+  return !log
+    .slice(index + 1)
+    .some(
+      (e) =>
+        e.action !== "undo" &&
+        !undoneIds.has(e.id) &&
+        e.entityType === entry.entityType &&
+        e.entityId === entry.entityId &&
+        e.profileId === entry.profileId
+    );
+};
+
+/**
+ * Applies the inverse of a logged change to a patient record
+ */
+export const revertChange = (
+  patient: Patient,
+  entry: ChangeLogEntry
+): Patient => {
+  if (entry.entityType === "profile") {
+    // Profile creation/deletion is handled by the caller
+    return { ...patient, ...(entry.before as Partial<Patient>) };
+  }
+
+  const collection = ENTITY_COLLECTIONS[entry.entityType];
+  const items: EntityRecord[] = patient[collection];
+  // Only changes to entities with ids can be undone (see isUndoable)
+  const before = entry.before as EntityRecord;
+  let updatedItems: EntityRecord[];
+
+  switch (entry.action) {
+    case "create":
+      updatedItems = items.filter((item) => item.id !== entry.entityId);
+      break;
+    case "update":
+      updatedItems = items.map((item) =>
+        item.id === entry.entityId ? before : item
+      );
+      break;
+    default:
+      updatedItems = [...items, before];
+  }
+
+  return { ...patient, [collection]: updatedItems };
+};
@@ -0,0 +1,128 @@
+import { Diagnosis, DrugDiseaseConflict, Medication } from "../types";
+import { DrugLabel } from "../types/openfda";
+import { getDrugInfoProvider } from "./DrugInfoService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+} from "./DrugNormalizationService";
+import { safeFdaApiCall } from "./FdaService";
+import { conditionTerms, findConditionMention } from "../utils/conditions";
+import { findLabelEvidence, formatSectionName } from "../utils/labelEvidence";
+
+// Label sections that warn about conditions, most authoritative first
+const CONDITION_SECTIONS = [
+  "contraindications",
+  "boxed_warning",
+  "warnings_and_cautions",
+  "warnings",
+  "precautions",
+];
+
+// Wording that rules a drug out entirely
+const ABSOLUTE_WORDING =
+  /\b(contraindicated|do not (use|take|administer|give)|should not be (used|taken|administered|given)|must not be (used|taken|administered|given))\b/i;
+// Wording that softens a contraindication to a caution
+const RELATIVE_WORDING =
+  /\b(relative contraindication|relatively contraindicated|with caution|cautiously|carefully|monitor\w*|may be used)\b/i;
+
+const classifyConflict = (
+  section: string,
+  sentence: string
+): DrugDiseaseConflict["classification"] => {
+  if (RELATIVE_WORDING.test(sentence)) return "relative";
+  return section === "contraindications" || ABSOLUTE_WORDING.test(sentence)
+    ? "absolute"
+    : "relative";
+};
+
+/**
+ * Scans a label's contraindications, boxed warning, warnings and precautions
+ * for each condition, under any of its names. Reports at most one conflict
+ * per condition: an absolute contraindication before a relative one, then
+ * the passage from the most authoritative section.
+ */
+export const findLabelConditionConflicts = (
+  label: DrugLabel,
+  medicationName: string,
+  diagnoses: Pick<Diagnosis, "id" | "name">[]
+): DrugDiseaseConflict[] => {
+  const conflicts: DrugDiseaseConflict[] = [];
+
+  for (const diagnosis of diagnoses) {
+    const terms = conditionTerms(diagnosis.name);
+    if (terms.length === 0) continue;
+
+    let best: DrugDiseaseConflict | null = null;
+    for (const section of CONDITION_SECTIONS) {
+      for (const evidence of findLabelEvidence(label, section, terms)) {
+        const sentence = evidence.passage.slice(
+          evidence.matchStart,
+          evidence.matchEnd
+        );
+        const matchedTerm = findConditionMention(diagnosis.name, sentence);
+        if (!matchedTerm) continue;
+
+        const classification = classifyConflict(section, sentence);
+        if (
+          best &&
+          (best.classification === "absolute" || classification === "relative")
+        ) {
+          continue;
+        }
+
+        best = {
+          medicationName,
+          diagnosisId: diagnosis.id,
+          diagnosisName: diagnosis.name,
+          matchedTerm,
+          classification,
+          evidence,
+          message:
+            classification === "absolute"
+              ? `The ${medicationName} label lists ${matchedTerm} as a reason not to use it (${formatSectionName(
+                  section
+                )}). You have ${diagnosis.name} recorded.`
+              : `The ${medicationName} label says to use it with caution in ${matchedTerm} (${formatSectionName(
+                  section
+                )}). You have ${diagnosis.name} recorded.`,
+        };
+      }
+    }
+    if (best) conflicts.push(best);
+  }
+
+  return conflicts;
+};
+
+/**
+ * Checks each medication's label against the patient's conditions. A
+ * medication whose label can't be fetched is skipped rather than failing
+ * the whole check.
+ */
+export const checkDrugDiseaseConflicts = async (
+  medications: Pick<Medication, "name" | "identity">[],
+  diagnoses: Pick<Diagnosis, "id" | "name">[]
+): Promise<DrugDiseaseConflict[]> => {
+  if (medications.length === 0 || diagnoses.length === 0) return [];
+
+  try {
+    const provider = await getDrugInfoProvider();
+    const results = await Promise.all(
+      medications
+        .filter((medication) => medication.name.trim())
+        .map(async (medication) => {
+          const identity = await getMedicationIdentity(medication);
+          const label: DrugLabel | null = await safeFdaApiCall(
+            async () => (await provider.getLabel(getLookupName(identity))).data
+          );
+          return label
+            ? findLabelConditionConflicts(label, medication.name, diagnoses)
+            : [];
+        })
+    );
+    return results.flat();
+  } catch (error) {
+    console.error("Error checking drug-disease conflicts:", error);
+    throw new Error("Failed to check medications against conditions");
+  }
+};
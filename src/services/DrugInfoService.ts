@@ -0,0 +1,748 @@
+import axios from "axios";
+import { FDA_API_KEY } from "../config/apiKeys";
+import {
+  AdverseEventReport,
+  DrugLabel,
+  EnforcementReport,
+  NdcProduct,
+  OpenFdaCount,
+  OpenFdaResponse,
+} from "../types/openfda";
+import {
+  CacheOptions,
+  CachedResponse,
+  cachedRequest,
+  markServed,
+} from "./CacheService";
+import { getData, storeData } from "./StorageService";
+import { backoffDelay, createLimiter, sleep } from "../utils/concurrency";
+import labelFixtures from "../fixtures/openfda/label.json";
+import eventFixtures from "../fixtures/openfda/event.json";
+import enforcementFixtures from "../fixtures/openfda/enforcement.json";
+import ndcFixtures from "../fixtures/openfda/ndc.json";
+
+const OPENFDA_BASE_URL = "https://api.fda.gov";
+// An openFDA-compatible server to use instead of api.fda.gov, e.g. a local
+// mirror of the bulk downloads. FDA_BACKUP_URL is the older name.
+const FDA_MIRROR_URL =
+  process.env.FDA_MIRROR_URL || process.env.FDA_BACKUP_URL || "";
+const RXNORM_URL = process.env.RXNORM_URL || "";
+const DEFAULT_MIRROR_URL = "http://localhost:8000";
+const SETTINGS_KEY = "drugInfoSettings";
+
+// Default timeout for API calls (8 seconds)
+const DEFAULT_TIMEOUT = 8000;
+
+// openFDA allows 240 requests a minute per key, so requests are limited to a
+// few at a time and rate-limited (429) requests back off and retry
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_RATE_LIMIT_RETRIES = 4;
+const RATE_LIMIT_BASE_DELAY = 1000;
+const RATE_LIMIT_MAX_DELAY = 30000;
+
+// Create an axios instance with default configuration
+const fdaClient = axios.create({
+  timeout: DEFAULT_TIMEOUT,
+  headers: {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  },
+});
+
+// Add a request interceptor to handle errors more gracefully
+fdaClient.interceptors.request.use(
+  (config) => {
+    // Log the request for debugging (in development only)
+    if (__DEV__) {
+      console.log(
+        `FDA API Request: ${config.method?.toUpperCase()} ${config.url}`
+      );
+    }
+    return config;
+  },
+  (error) => {
+    console.error("FDA API Request Error:", error);
+    return Promise.reject(error);
+  }
+);
+
+// Add a response interceptor to parse responses and handle errors
+fdaClient.interceptors.response.use(
+  (response) => {
+    return response;
+  },
+  (error) => {
+    // Handle network errors
+    if (error.message === "Network Error") {
+      console.error("FDA API Network Error: Check internet connection");
+      return Promise.reject(
+        new Error(
+          "Network connection issue. Please check your internet connection."
+        )
+      );
+    }
+
+    // Handle timeout errors
+    if (error.code === "ECONNABORTED") {
+      console.error("FDA API Timeout Error: Request took too long");
+      return Promise.reject(
+        new Error(
+          "Request timed out. FDA API may be experiencing high traffic."
+        )
+      );
+    }
+
+    // Handle API errors with proper message
+    if (error.response) {
+      const status = error.response.status;
+      const errorMsg =
+        error.response.data?.error?.message || "Unknown API error";
+
+      console.error(`FDA API Error (${status}): ${errorMsg}`);
+
+      // 429s are passed through as-is so requests can be retried
+      if (status === 403) {
+        return Promise.reject(
+          new Error("Access denied. API key may be invalid or expired.")
+        );
+      } else if (status >= 500) {
+        return Promise.reject(
+          new Error("FDA server error. Please try again later.")
+        );
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
+
+const requestLimiter = createLimiter(MAX_CONCURRENT_REQUESTS);
+// After a 429, no request starts until this time
+let rateLimitedUntil = 0;
+
+const retryAfterMs = (error: any): number | null => {
+  const seconds = Number(error.response?.headers?.["retry-after"]);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+};
+
+/**
+ * GETs a URL through the shared request limiter. A 429 pauses every queued
+ * request and retries with exponential backoff, using the server's
+ * Retry-After when it sends one.
+ */
+const getWithBackoff = async (url: string) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestLimiter(async () => {
+        const wait = rateLimitedUntil - Date.now();
+        if (wait > 0) await sleep(wait);
+        return (await fdaClient.get(url)).data;
+      });
+    } catch (error: any) {
+      if (error.response?.status !== 429) throw error;
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new Error("Too many requests. Please try again later.");
+      }
+
+      const delay =
+        retryAfterMs(error) ??
+        backoffDelay(attempt, RATE_LIMIT_BASE_DELAY, RATE_LIMIT_MAX_DELAY);
+      rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
+      console.log(`FDA API rate limited, retrying in ${delay}ms`);
+    }
+  }
+};
+
+export type DrugInfoEndpoint = "label" | "event" | "enforcement" | "ndc";
+
+export type DrugInfoProviderId = "openfda" | "mirror" | "fixtures";
+
+export interface DrugInfoSettings {
+  providerId: DrugInfoProviderId;
+  // Base URL of the local mirror, without the /drug path
+  mirrorUrl: string;
+  // Base URL of an RxNav-compatible RxNorm server, without the /REST path.
+  // Name lookups only use the offline table and FDA labels when empty.
+  rxnormUrl: string;
+}
+
+export const DRUG_INFO_PROVIDERS: {
+  id: DrugInfoProviderId;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: "openfda",
+    name: "openFDA",
+    description: "Live data from api.fda.gov",
+  },
+  {
+    id: "mirror",
+    name: "Local mirror",
+    description: "An openFDA-compatible server on your network",
+  },
+  {
+    id: "fixtures",
+    name: "Sample data",
+    description: "A small built-in data set that works without a connection",
+  },
+];
+
+// Labels from one of the interaction searches, and which search found them
+export interface InteractionLabelMatch {
+  labels: DrugLabel[];
+  source: string;
+}
+
+/**
+ * A source of openFDA-style drug data. Search strings use openFDA query
+ * syntax with unencoded values, e.g. `openfda.brand_name:"Advil"`. Terms
+ * separated by spaces are alternatives and terms joined with AND must all
+ * match. AND binds only the terms next to it, so alternatives combined with
+ * another condition go in parentheses: `status:"Ongoing" AND (a b)`.
+ */
+export interface DrugInfoProvider {
+  id: DrugInfoProviderId;
+  name: string;
+  query: <T>(
+    endpoint: DrugInfoEndpoint,
+    search: string,
+    limit: number,
+    options?: CacheOptions<OpenFdaResponse<T>>,
+    // Field to count matches by, as openFDA's `count` parameter; results
+    // are then OpenFdaCount buckets instead of records
+    countField?: string
+  ) => Promise<CachedResponse<OpenFdaResponse<T>>>;
+  searchLabels: (
+    search: string,
+    limit?: number,
+    options?: CacheOptions<DrugLabel[]>
+  ) => Promise<CachedResponse<DrugLabel[]>>;
+  // Label for a medication by brand or generic name
+  getLabel: (
+    name: string,
+    options?: CacheOptions<DrugLabel | null>
+  ) => Promise<CachedResponse<DrugLabel | null>>;
+  // Label of the product with an NDC such as "0069-0150"
+  getLabelByNdc: (
+    productNdc: string,
+    options?: CacheOptions<DrugLabel | null>
+  ) => Promise<CachedResponse<DrugLabel | null>>;
+  // NDC directory entry of any of the product NDCs, or null
+  getNdcProduct: (
+    productNdcs: string[],
+    options?: CacheOptions<NdcProduct | null>
+  ) => Promise<CachedResponse<NdcProduct | null>>;
+  searchAdverseEvents: (
+    search: string,
+    limit?: number,
+    options?: CacheOptions<AdverseEventReport[]>
+  ) => Promise<CachedResponse<AdverseEventReport[]>>;
+  // Reports matching a search, counted by the values of one field
+  countAdverseEvents: (
+    search: string,
+    countField: string,
+    limit?: number,
+    options?: CacheOptions<OpenFdaCount[]>
+  ) => Promise<CachedResponse<OpenFdaCount[]>>;
+  searchRecalls: (
+    search: string,
+    limit?: number,
+    options?: CacheOptions<EnforcementReport[]>
+  ) => Promise<CachedResponse<EnforcementReport[]>>;
+  // Labels whose interaction section mentions both drugs, or null
+  findInteractions: (
+    drug1: string,
+    drug2: string
+  ) => Promise<InteractionLabelMatch | null>;
+}
+
+type QueryBackend = DrugInfoProvider["query"];
+
+/**
+ * Builds a quoted search term, dropping quotes from the value so user input
+ * can't change the shape of the query
+ */
+export const searchTerm = (field: string, value: string): string =>
+  `${field}:"${value.replace(/"/g, "").trim()}"`;
+
+// Applies a transform to a response and to its background refresh
+const mapResponse = async <T, R>(
+  request: (options: CacheOptions<T>) => Promise<CachedResponse<T>>,
+  transform: (data: T) => R,
+  options: CacheOptions<R> = {}
+): Promise<CachedResponse<R>> => {
+  const response = await request({
+    forceRefresh: options.forceRefresh,
+    onRevalidated: options.onRevalidated
+      ? (fresh) =>
+          options.onRevalidated!({ ...fresh, data: transform(fresh.data) })
+      : undefined,
+  });
+  return { ...response, data: transform(response.data) };
+};
+
+/**
+ * Active ingredients named on a label. Combination products list each
+ * ingredient in substance_name, while generic_name joins them, e.g.
+ * "AMOXICILLIN AND CLAVULANATE POTASSIUM".
+ */
+export const getLabelIngredients = (label: DrugLabel): string[] =>
+  (
+    label.openfda.substance_name ||
+    (label.openfda.generic_name || []).flatMap((name) =>
+      name.split(/,|\band\b/i)
+    )
+  )
+    .map((ingredient) => ingredient.trim())
+    .filter(Boolean);
+
+const hasInteractions = (labels: DrugLabel[]): boolean =>
+  !!labels[0]?.drug_interactions;
+
+/**
+ * Tries several label searches in turn, from the most specific to the
+ * broadest, until one finds a label whose interaction section mentions the
+ * other drug
+ */
+const findInteractionLabels = async (
+  searchLabels: DrugInfoProvider["searchLabels"],
+  drug1: string,
+  drug2: string
+): Promise<InteractionLabelMatch | null> => {
+  const strategies: { search: string; source: string }[] = [
+    // Search for drug2 in drug1's interactions using brand name
+    {
+      search: `${searchTerm("drug_interactions", drug2)} AND ${searchTerm(
+        "openfda.brand_name",
+        drug1
+      )}`,
+      source: `${drug1} label mentions ${drug2}`,
+    },
+    // Search for drug1 in drug2's interactions using brand name
+    {
+      search: `${searchTerm("drug_interactions", drug1)} AND ${searchTerm(
+        "openfda.brand_name",
+        drug2
+      )}`,
+      source: `${drug2} label mentions ${drug1}`,
+    },
+    // Search using generic names
+    {
+      search: `${searchTerm("drug_interactions", drug2)} AND ${searchTerm(
+        "openfda.generic_name",
+        drug1
+      )}`,
+      source: `${drug1} generic label mentions ${drug2}`,
+    },
+    // Try the reverse with generic names
+    {
+      search: `${searchTerm("drug_interactions", drug1)} AND ${searchTerm(
+        "openfda.generic_name",
+        drug2
+      )}`,
+      source: `${drug2} generic label mentions ${drug1}`,
+    },
+  ];
+
+  for (const [index, strategy] of strategies.entries()) {
+    try {
+      const response = await searchLabels(strategy.search, 1);
+      if (hasInteractions(response.data)) {
+        return { labels: response.data, source: strategy.source };
+      }
+    } catch (err) {
+      console.log(`Strategy ${index + 1} failed for ${drug1} and ${drug2}`);
+    }
+  }
+
+  // Broader search in drug interactions field
+  try {
+    const response = await searchLabels(
+      searchTerm("drug_interactions", drug1.toLowerCase()),
+      5
+    );
+
+    // Check if drug2 is mentioned in any of the interactions
+    const mentionsDrug2 = response.data.some((label) =>
+      label.drug_interactions
+        ?.join(" ")
+        .toLowerCase()
+        .includes(drug2.toLowerCase())
+    );
+    if (mentionsDrug2 && hasInteractions(response.data)) {
+      return { labels: response.data, source: "Broad search" };
+    }
+  } catch (err) {
+    console.log(`Strategy 5 failed for ${drug1} and ${drug2}`);
+  }
+
+  return null;
+};
+
+const createProvider = (
+  id: DrugInfoProviderId,
+  name: string,
+  query: QueryBackend
+): DrugInfoProvider => {
+  const searchLabels: DrugInfoProvider["searchLabels"] = (
+    search,
+    limit = 10,
+    options
+  ) =>
+    mapResponse(
+      (cacheOptions: CacheOptions<OpenFdaResponse<DrugLabel>>) =>
+        query<DrugLabel>("label", search, limit, cacheOptions),
+      (data) => data.results || [],
+      options
+    );
+
+  return {
+    id,
+    name,
+    query,
+    searchLabels,
+    getLabel: (drugName, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<DrugLabel[]>) =>
+          searchLabels(
+            `${searchTerm("openfda.brand_name", drugName)} ${searchTerm(
+              "openfda.generic_name",
+              drugName
+            )}`,
+            1,
+            cacheOptions
+          ),
+        (labels) => labels[0] || null,
+        options
+      ),
+    getLabelByNdc: (productNdc, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<DrugLabel[]>) =>
+          searchLabels(
+            searchTerm("openfda.product_ndc", productNdc),
+            1,
+            cacheOptions
+          ),
+        (labels) => labels[0] || null,
+        options
+      ),
+    getNdcProduct: (productNdcs, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<OpenFdaResponse<NdcProduct>>) =>
+          query<NdcProduct>(
+            "ndc",
+            productNdcs
+              .map((productNdc) => searchTerm("product_ndc", productNdc))
+              .join(" "),
+            1,
+            cacheOptions
+          ),
+        (data) => data.results?.[0] || null,
+        options
+      ),
+    searchAdverseEvents: (search, limit = 10, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<OpenFdaResponse<AdverseEventReport>>) =>
+          query<AdverseEventReport>("event", search, limit, cacheOptions),
+        (data) => data.results || [],
+        options
+      ),
+    // openFDA returns at most 1000 buckets per count
+    countAdverseEvents: (search, countField, limit = 1000, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<OpenFdaResponse<OpenFdaCount>>) =>
+          query<OpenFdaCount>(
+            "event",
+            search,
+            limit,
+            cacheOptions,
+            countField
+          ),
+        (data) => data.results || [],
+        options
+      ),
+    searchRecalls: (search, limit = 10, options) =>
+      mapResponse(
+        (cacheOptions: CacheOptions<OpenFdaResponse<EnforcementReport>>) =>
+          query<EnforcementReport>("enforcement", search, limit, cacheOptions),
+        (data) => data.results || [],
+        options
+      ),
+    findInteractions: (drug1, drug2) =>
+      findInteractionLabels(searchLabels, drug1, drug2),
+  };
+};
+
+/**
+ * Queries an openFDA-compatible server through the persistent cache. A 404
+ * is how openFDA reports a search with no matches, so it is treated as an
+ * empty result.
+ */
+const createHttpBackend =
+  (baseUrl: string, apiKey?: string): QueryBackend =>
+  (endpoint, search, limit, options, countField) => {
+    const url = `${baseUrl}/drug/${endpoint}.json?search=${encodeURIComponent(
+      search
+    )}${countField ? `&count=${countField}` : ""}&limit=${limit}${
+      apiKey ? `&api_key=${apiKey}` : ""
+    }`;
+
+    return cachedRequest(
+      url,
+      async () => {
+        try {
+          return await getWithBackoff(url);
+        } catch (error: any) {
+          if (error.response?.status === 404) return { results: [] };
+          throw error;
+        }
+      },
+      options
+    );
+  };
+
+export const createOpenFdaProvider = (): DrugInfoProvider =>
+  createProvider(
+    "openfda",
+    "openFDA",
+    createHttpBackend(OPENFDA_BASE_URL, FDA_API_KEY)
+  );
+
+export const createMirrorProvider = (baseUrl: string): DrugInfoProvider =>
+  createProvider(
+    "mirror",
+    "Local mirror",
+    createHttpBackend(baseUrl.trim().replace(/\/+$/, ""))
+  );
+
+const FIXTURES: Record<DrugInfoEndpoint, OpenFdaResponse<unknown>> = {
+  label: labelFixtures,
+  event: eventFixtures,
+  enforcement: enforcementFixtures,
+  ndc: ndcFixtures,
+};
+
+// Text of every field under a dotted path, looking through nested lists
+const valuesAt = (value: unknown, path: string[]): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => valuesAt(item, path));
+  }
+  if (typeof value === "string") {
+    return path.length === 0 ? [value] : [];
+  }
+  if (!value || typeof value !== "object") return [];
+  if (path.length === 0) {
+    return Object.values(value).flatMap((item) => valuesAt(item, path));
+  }
+  return valuesAt((value as Record<string, unknown>)[path[0]], path.slice(1));
+};
+
+const normalizeText = (text: string): string =>
+  ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+
+// Parentheses, AND, and `field:"phrase"`, `field:term` or bare-term clauses
+const TOKEN_REGEX = /\(|\)|\bAND\b|(?:([\w.]+):)?(?:"([^"]*)"|([^\s()"]+))/g;
+
+const matchesClause = (
+  record: unknown,
+  field: string | undefined,
+  term: string
+): boolean => {
+  const wanted = normalizeText(term);
+  if (!field) {
+    // A bare field name matches records that have the field
+    if (/^[\w.]+$/.test(term) && valuesAt(record, term.split(".")).length) {
+      return true;
+    }
+    return valuesAt(record, []).some((text) =>
+      normalizeText(text).includes(wanted)
+    );
+  }
+  return valuesAt(record, field.split(".")).some((text) =>
+    normalizeText(text).includes(wanted)
+  );
+};
+
+interface SearchClause {
+  required: boolean;
+  matches: (record: unknown) => boolean;
+}
+
+/**
+ * Parses clauses up to the closing parenthesis of a group, or the end.
+ * Follows Lucene's precedence, which openFDA uses: AND makes the clauses on
+ * both sides of it required. When a group has required clauses the others
+ * are optional and don't affect the match; otherwise any clause matches.
+ */
+const parseGroup = (
+  tokens: RegExpMatchArray[],
+  position: { index: number }
+): ((record: unknown) => boolean) => {
+  const clauses: SearchClause[] = [];
+  let requireNext = false;
+
+  while (position.index < tokens.length) {
+    const token = tokens[position.index++];
+    if (token[0] === ")") break;
+    if (token[0] === "AND") {
+      if (clauses.length > 0) clauses[clauses.length - 1].required = true;
+      requireNext = true;
+      continue;
+    }
+
+    const [, field, phrase, term] = token;
+    clauses.push({
+      required: requireNext,
+      matches:
+        token[0] === "("
+          ? parseGroup(tokens, position)
+          : (record) => matchesClause(record, field, phrase ?? term),
+    });
+    requireNext = false;
+  }
+
+  const required = clauses.filter((clause) => clause.required);
+  return (record) =>
+    clauses.length === 0 ||
+    (required.length > 0
+      ? required.every((clause) => clause.matches(record))
+      : clauses.some((clause) => clause.matches(record)));
+};
+
+/**
+ * Evaluates the subset of openFDA search syntax the app uses against a
+ * record: `field:"phrase"`, `field:term` and bare terms, spaces between
+ * alternatives, AND, and parentheses for grouping
+ */
+const matchesSearch = (record: unknown, search: string): boolean =>
+  parseGroup(Array.from(search.replace(/\+/g, " ").matchAll(TOKEN_REGEX)), {
+    index: 0,
+  })(record);
+
+/**
+ * Counts records by the values of a field the way openFDA does: once per
+ * record for each distinct value, most common first, or oldest first for
+ * dates. `.exact` fields are stored whole in the fixtures already.
+ */
+const countRecords = (
+  records: unknown[],
+  countField: string
+): OpenFdaCount[] => {
+  const field = countField.replace(/\.exact$/, "");
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const value of new Set(valuesAt(record, field.split(".")))) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+
+  if (/date$/.test(field)) {
+    return Array.from(counts)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([time, count]) => ({ time, count }));
+  }
+  return Array.from(counts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([term, count]) => ({ term, count }));
+};
+
+/**
+ * Answers queries from the bundled sample data. Responses are dated to the
+ * fixture snapshot and never go through the cache.
+ */
+const fixtureBackend: QueryBackend = async <T>(
+  endpoint: DrugInfoEndpoint,
+  search: string,
+  limit: number,
+  _options?: CacheOptions<OpenFdaResponse<T>>,
+  countField?: string
+) => {
+  const fixture = FIXTURES[endpoint];
+  const lastUpdated = fixture.meta?.last_updated;
+  const matches = fixture.results.filter((record) =>
+    matchesSearch(record, search)
+  );
+  return markServed({
+    data: {
+      meta: {
+        ...fixture.meta,
+        results: { skip: 0, limit, total: matches.length },
+      },
+      results: (countField
+        ? countRecords(matches, countField)
+        : matches
+      ).slice(0, limit) as T[],
+    },
+    fetchedAt: lastUpdated
+      ? new Date(`${lastUpdated}T00:00:00`).toISOString()
+      : new Date().toISOString(),
+    stale: false,
+  });
+};
+
+export const createFixtureProvider = (): DrugInfoProvider =>
+  createProvider("fixtures", "Sample data", fixtureBackend);
+
+const defaultSettings = (): DrugInfoSettings => ({
+  providerId: FDA_MIRROR_URL ? "mirror" : "openfda",
+  mirrorUrl: FDA_MIRROR_URL || DEFAULT_MIRROR_URL,
+  rxnormUrl: RXNORM_URL,
+});
+
+let settingsPromise: Promise<DrugInfoSettings> | null = null;
+let providerPromise: Promise<DrugInfoProvider> | null = null;
+
+export const getDrugInfoSettings = (): Promise<DrugInfoSettings> => {
+  if (!settingsPromise) {
+    settingsPromise = getData(SETTINGS_KEY)
+      .then((stored) => ({ ...defaultSettings(), ...stored }))
+      .catch(() => defaultSettings());
+  }
+  return settingsPromise;
+};
+
+export const setDrugInfoSettings = async (
+  settings: DrugInfoSettings
+): Promise<void> => {
+  if (
+    settings.providerId === "mirror" &&
+    !/^https?:\/\/\S+$/i.test(settings.mirrorUrl.trim())
+  ) {
+    throw new Error("Mirror URL must start with http:// or https://");
+  }
+  if (
+    settings.rxnormUrl.trim() &&
+    !/^https?:\/\/\S+$/i.test(settings.rxnormUrl.trim())
+  ) {
+    throw new Error("RxNorm URL must start with http:// or https://");
+  }
+
+  try {
+    await storeData(SETTINGS_KEY, settings);
+    settingsPromise = Promise.resolve(settings);
+    providerPromise = null;
+  } catch (error) {
+    console.error("Error saving drug information settings:", error);
+    throw new Error("Failed to save drug information settings");
+  }
+};
+
+/**
+ * The drug information provider chosen in settings
+ */
+export const getDrugInfoProvider = (): Promise<DrugInfoProvider> => {
+  if (!providerPromise) {
+    providerPromise = getDrugInfoSettings().then((settings) => {
+      switch (settings.providerId) {
+        case "mirror":
+          return createMirrorProvider(settings.mirrorUrl);
+        case "fixtures":
+          return createFixtureProvider();
+        default:
+          return createOpenFdaProvider();
+      }
+    });
+  }
+  return providerPromise;
+};
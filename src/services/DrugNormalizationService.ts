@@ -0,0 +1,228 @@
+import axios from "axios";
+import { Medication, MedicationIdentity } from "../types";
+import { NdcProduct } from "../types/openfda";
+import { cachedRequest } from "./CacheService";
+import {
+  getDrugInfoProvider,
+  getDrugInfoSettings,
+  getLabelIngredients,
+} from "./DrugInfoService";
+import {
+  DrugNameEntry,
+  cleanMedicationName,
+  lookupDrugName,
+  lookupMisspelledDrugName,
+} from "../utils/drugNames";
+
+// Default timeout for RxNorm calls (8 seconds)
+const RXNORM_TIMEOUT = 8000;
+
+// Lowest approximate-match score (0-100) accepted as the same drug. Below
+// this, RxNorm's closest concept is usually an unrelated drug that shares a
+// few letters with the name.
+const MIN_RXNORM_SCORE = 50;
+
+interface RxNormApproximateResponse {
+  approximateGroup?: {
+    candidate?: { rxcui: string; score?: string }[];
+  };
+}
+
+interface RxNormRelatedResponse {
+  relatedGroup?: {
+    conceptGroup?: {
+      tty: string;
+      conceptProperties?: { rxcui: string; name: string }[];
+    }[];
+  };
+}
+
+const rxnormGet = async <T>(url: string): Promise<T> =>
+  (
+    await cachedRequest(url, async () => {
+      const response = await axios.get<T>(url, { timeout: RXNORM_TIMEOUT });
+      return response.data;
+    })
+  ).data;
+
+const fromTableEntry = (
+  entry: DrugNameEntry,
+  name: string
+): MedicationIdentity => ({
+  ingredients: entry.ingredients,
+  brandNames: entry.brands,
+  rxcui: entry.rxcui,
+  source: "table",
+  resolvedFrom: name,
+});
+
+/**
+ * Resolves a name through an RxNav-compatible server: the closest concept by
+ * approximate match, then its ingredients (IN) and brand names (BN)
+ */
+const lookupRxNorm = async (
+  baseUrl: string,
+  name: string
+): Promise<MedicationIdentity | null> => {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  const approximate = await rxnormGet<RxNormApproximateResponse>(
+    `${base}/REST/approximateTerm.json?term=${encodeURIComponent(
+      name
+    )}&maxEntries=1`
+  );
+  const candidate = approximate.approximateGroup?.candidate?.[0];
+  if (!candidate?.rxcui || !(Number(candidate.score) >= MIN_RXNORM_SCORE)) {
+    return null;
+  }
+  const rxcui = candidate.rxcui;
+
+  const related = await rxnormGet<RxNormRelatedResponse>(
+    `${base}/REST/rxcui/${rxcui}/related.json?tty=IN+BN`
+  );
+  const groups = related.relatedGroup?.conceptGroup || [];
+  const namesFor = (tty: string) =>
+    groups
+      .filter((group) => group.tty === tty)
+      .flatMap((group) => group.conceptProperties || [])
+      .map((concept) => concept.name);
+
+  const ingredients = namesFor("IN").map((ingredient) =>
+    ingredient.toLowerCase()
+  );
+  if (ingredients.length === 0) return null;
+
+  return {
+    ingredients,
+    brandNames: namesFor("BN"),
+    rxcui,
+    source: "rxnorm",
+    resolvedFrom: name,
+  };
+};
+
+const lookupLabel = async (
+  name: string,
+  cleaned: string
+): Promise<MedicationIdentity | null> => {
+  const provider = await getDrugInfoProvider();
+  const label = (await provider.getLabel(cleaned)).data;
+  if (!label) return null;
+
+  const ingredients = getLabelIngredients(label).map(cleanMedicationName);
+  if (ingredients.length === 0) return null;
+
+  return {
+    ingredients,
+    brandNames: label.openfda.brand_name || [],
+    rxcui: label.openfda.rxcui?.[0],
+    source: "label",
+    resolvedFrom: name,
+  };
+};
+
+/**
+ * Resolves a typed medication name to its active ingredients and brand
+ * names. Tries the offline table, then RxNorm when a server is configured,
+ * then a spelling-tolerant table match, then the FDA label. Never throws:
+ * names that can't be resolved keep their cleaned-up spelling as the
+ * ingredient.
+ */
+export const resolveMedicationIdentity = async (
+  name: string
+): Promise<MedicationIdentity> => {
+  const cleaned = cleanMedicationName(name) || name.trim().toLowerCase();
+
+  const tableMatch = lookupDrugName(name);
+  if (tableMatch) return fromTableEntry(tableMatch.entry, name);
+
+  try {
+    const { rxnormUrl } = await getDrugInfoSettings();
+    if (rxnormUrl.trim()) {
+      const identity = await lookupRxNorm(rxnormUrl, cleaned);
+      if (identity) return { ...identity, resolvedFrom: name };
+    }
+  } catch (error) {
+    console.error("Error looking up medication in RxNorm:", error);
+  }
+
+  const misspelledMatch = lookupMisspelledDrugName(name);
+  if (misspelledMatch) return fromTableEntry(misspelledMatch.entry, name);
+
+  try {
+    const identity = await lookupLabel(name, cleaned);
+    if (identity) return identity;
+  } catch (error) {
+    console.error("Error looking up medication label:", error);
+  }
+
+  return {
+    ingredients: [cleaned],
+    brandNames: [],
+    source: "unresolved",
+    resolvedFrom: name,
+  };
+};
+
+/**
+ * Identity of the exact product an NDC was looked up to. Its ingredients
+ * come from the NDC directory, so no name matching is needed.
+ */
+export const identityFromNdcProduct = (
+  product: NdcProduct,
+  name: string
+): MedicationIdentity => ({
+  ingredients: Array.from(
+    new Set(
+      (product.active_ingredients || [])
+        .map((ingredient) => cleanMedicationName(ingredient.name))
+        .filter(Boolean)
+    )
+  ),
+  brandNames: Array.from(
+    new Set(
+      [product.brand_name, ...(product.openfda?.brand_name || [])].filter(
+        (brand): brand is string => !!brand
+      )
+    )
+  ),
+  rxcui: product.openfda?.rxcui?.[0],
+  source: "ndc",
+  resolvedFrom: name,
+});
+
+/**
+ * The stored identity of a medication, or a freshly resolved one when it has
+ * none, was renamed since it was resolved, or couldn't be resolved last time
+ * (for example because the device was offline)
+ */
+export const getMedicationIdentity = async (
+  medication: Pick<Medication, "name" | "identity">
+): Promise<MedicationIdentity> =>
+  medication.identity &&
+  medication.identity.resolvedFrom === medication.name &&
+  medication.identity.source !== "unresolved"
+    ? medication.identity
+    : resolveMedicationIdentity(medication.name);
+
+/**
+ * Name to search labels with. Single-ingredient products are looked up by
+ * ingredient, since every generic carries it; combination products by
+ * brand, since their labels list the ingredients separately.
+ */
+export const getLookupName = (identity: MedicationIdentity): string => {
+  if (identity.source === "unresolved") return identity.resolvedFrom;
+  if (identity.ingredients.length === 1) return identity.ingredients[0];
+  return identity.brandNames[0] || identity.resolvedFrom;
+};
+
+/**
+ * Short description of what a medication was recognised as, e.g.
+ * "acetaminophen (Tylenol)", or null when it wasn't recognised
+ */
+export const describeIdentity = (
+  identity: MedicationIdentity
+): string | null => {
+  if (identity.source === "unresolved") return null;
+  const brands = identity.brandNames.slice(0, 2).join(", ");
+  return `${identity.ingredients.join(" + ")}${brands ? ` (${brands})` : ""}`;
+};
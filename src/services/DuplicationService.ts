@@ -0,0 +1,147 @@
+import { Medication, TherapeuticDuplication } from "../types";
+import { getActiveIngredients, safeFdaApiCall } from "./FdaService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+} from "./DrugNormalizationService";
+import { cleanMedicationName } from "../utils/drugNames";
+
+type CheckedMedication = Pick<Medication, "name" | "identity">;
+
+interface ResolvedMedication {
+  name: string;
+  ingredients: string[];
+  // FDA established pharmacologic classes, e.g. "Serotonin Reuptake
+  // Inhibitor [EPC]"
+  pharmClasses: string[];
+}
+
+/**
+ * Active ingredients of a medication, from its resolved identity or, for
+ * names that couldn't be resolved, its label; and its pharmacologic classes
+ * from the label
+ */
+const resolveMedication = async (
+  medication: CheckedMedication
+): Promise<ResolvedMedication> => {
+  const identity = await getMedicationIdentity(medication);
+  const details: { ingredients: string[]; pharmClasses: string[] } | null =
+    await safeFdaApiCall(() => getActiveIngredients(getLookupName(identity)));
+
+  const labelIngredients = (details?.ingredients || []).map(
+    cleanMedicationName
+  );
+  return {
+    name: medication.name,
+    ingredients:
+      identity.source === "unresolved" && labelIngredients.length > 0
+        ? labelIngredients
+        : identity.ingredients,
+    pharmClasses: details?.pharmClasses || [],
+  };
+};
+
+const formatClassName = (pharmClass: string): string =>
+  pharmClass.replace(/\s*\[EPC\]\s*$/i, "").trim();
+
+// "A and B" or "A, B and C"
+const joinNames = (names: string[]): string =>
+  names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names[0] || "";
+
+// Indexes of the medications that share each key, for keys shared by more
+// than one medication
+const groupBy = (
+  medications: ResolvedMedication[],
+  keysOf: (medication: ResolvedMedication) => string[]
+): Map<string, number[]> => {
+  const groups = new Map<string, number[]>();
+  medications.forEach((medication, index) => {
+    for (const key of new Set(keysOf(medication))) {
+      groups.set(key, [...(groups.get(key) || []), index]);
+    }
+  });
+  return new Map(
+    Array.from(groups).filter(([, indexes]) => indexes.length > 1)
+  );
+};
+
+/**
+ * Finds medications taken twice under different names, such as Advil and a
+ * generic ibuprofen, and medications from the same pharmacologic class, such
+ * as two SSRIs. Medications already reported as sharing an ingredient aren't
+ * reported again for sharing that ingredient's class.
+ */
+export const findTherapeuticDuplications = async (
+  medications: CheckedMedication[]
+): Promise<TherapeuticDuplication[]> => {
+  const named = medications.filter((medication) => medication.name.trim());
+  if (named.length < 2) return [];
+
+  try {
+    const resolved = await Promise.all(named.map(resolveMedication));
+    const duplications: TherapeuticDuplication[] = [];
+    const reportedSets: number[][] = [];
+
+    for (const [ingredient, indexes] of groupBy(
+      resolved,
+      (medication) => medication.ingredients
+    )) {
+      const names = indexes.map((index) => resolved[index].name);
+      reportedSets.push(indexes);
+      duplications.push({
+        matchType: "ingredient",
+        shared: ingredient,
+        medicationNames: names,
+        severity: "high",
+        message: `${joinNames(names)} ${
+          names.length > 2 ? "all" : "both"
+        } contain ${ingredient}. Taking them together can add up to more ${ingredient} than intended.`,
+      });
+    }
+
+    for (const [pharmClass, indexes] of groupBy(resolved, (medication) =>
+      medication.pharmClasses.map(formatClassName)
+    )) {
+      const alreadyReported = reportedSets.some((reported) =>
+        indexes.every((index) => reported.includes(index))
+      );
+      if (alreadyReported) continue;
+
+      const names = indexes.map((index) => resolved[index].name);
+      duplications.push({
+        matchType: "class",
+        shared: pharmClass,
+        medicationNames: names,
+        severity: "medium",
+        message: `${joinNames(names)} are ${
+          names.length > 2 ? "all" : "both"
+        } ${pharmClass} medications. Check with your prescriber that you are meant to take more than one.`,
+      });
+    }
+
+    return duplications;
+  } catch (error) {
+    console.error("Error checking therapeutic duplication:", error);
+    throw new Error("Failed to check medications for duplication");
+  }
+};
+
+/**
+ * Duplications between a medication about to be saved and the others on the
+ * list
+ */
+export const checkDuplicationsWith = async (
+  medication: CheckedMedication,
+  others: CheckedMedication[]
+): Promise<TherapeuticDuplication[]> => {
+  const duplications = await findTherapeuticDuplications([
+    medication,
+    ...others,
+  ]);
+  // The new medication is first, so its name is the first in each group
+  return duplications.filter(
+    (duplication) => duplication.medicationNames[0] === medication.name
+  );
+};
@@ -1,91 +1,21 @@
-import axios from "axios";
-import { MedicationInteraction } from "../types";
-import { FDA_API_KEY } from "../config/apiKeys";
-import { Platform } from "react-native";
-
-const BASE_URL = "https://api.fda.gov/drug";
-
-// Default timeout for API calls (8 seconds)
-const DEFAULT_TIMEOUT = 8000;
-
-// Create an axios instance with default configuration
-const fdaClient = axios.create({
-  timeout: DEFAULT_TIMEOUT,
-  headers: {
-    "Content-Type": "application/json",
-    Accept: "application/json",
-  },
-});
-
-// Add a request interceptor to handle errors more gracefully
-fdaClient.interceptors.request.use(
-  (config) => {
-    // Log the request for debugging (in development only)
-    if (__DEV__) {
-      console.log(
-        `FDA API Request: ${config.method?.toUpperCase()} ${config.url}`
-      );
-    }
-    return config;
-  },
-  (error) => {
-    console.error("FDA API Request Error:", error);
-    return Promise.reject(error);
-  }
-);
-
-// Add a response interceptor to parse responses and handle errors
-fdaClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  (error) => {
-    // Handle network errors
-    if (error.message === "Network Error") {
-      console.error("FDA API Network Error: Check internet connection");
-      return Promise.reject(
-        new Error(
-          "Network connection issue. Please check your internet connection."
-        )
-      );
-    }
-
-    // Handle timeout errors
-    if (error.code === "ECONNABORTED") {
-      console.error("FDA API Timeout Error: Request took too long");
-      return Promise.reject(
-        new Error(
-          "Request timed out. FDA API may be experiencing high traffic."
-        )
-      );
-    }
-
-    // Handle API errors with proper message
-    if (error.response) {
-      const status = error.response.status;
-      const errorMsg =
-        error.response.data?.error?.message || "Unknown API error";
-
-      console.error(`FDA API Error (${status}): ${errorMsg}`);
-
-      if (status === 403) {
-        return Promise.reject(
-          new Error("Access denied. API key may be invalid or expired.")
-        );
-      } else if (status === 429) {
-        return Promise.reject(
-          new Error("Too many requests. Please try again later.")
-        );
-      } else if (status >= 500) {
-        return Promise.reject(
-          new Error("FDA server error. Please try again later.")
-        );
-      }
-    }
-
-    return Promise.reject(error);
-  }
-);
+import { LabelEvidence, Medication, MedicationInteraction } from "../types";
+import { DrugLabel, NdcProduct } from "../types/openfda";
+import { CacheOptions, CachedResponse } from "./CacheService";
+import {
+  DrugInfoProvider,
+  InteractionLabelMatch,
+  getDrugInfoProvider,
+  getLabelIngredients,
+} from "./DrugInfoService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+} from "./DrugNormalizationService";
+import { createLimiter } from "../utils/concurrency";
+import { cleanMedicationName, lookupDrugName } from "../utils/drugNames";
+import { productNdcCandidates, toProductNdc } from "../utils/ndc";
+import { findLabelEvidence } from "../utils/labelEvidence";
+import { classifyInteractionSeverity } from "../utils/interactionSeverity";
 
 // Safe wrapper for FDA API calls
 export const safeFdaApiCall = async (
@@ -100,263 +30,405 @@ export const safeFdaApiCall = async (
   }
 };
 
-interface DrugLabelResponse {
-  results: Array<{
-    openfda: {
-      brand_name?: string[];
-      generic_name?: string[];
-      substance_name?: string[];
-      manufacturer_name?: string[];
-      rxcui?: string[];
-      product_ndc?: string[];
-    };
-    warnings?: string[];
-    warnings_and_cautions?: string[];
-    drug_interactions?: string[];
-    contraindications?: string[];
-    adverse_reactions?: string[];
-    dosage_and_administration?: string[];
-  }>;
-}
-
-interface DrugInteractionResponse {
-  results: Array<{
-    drug_interactions: string[];
-  }>;
-}
-
 export const searchMedication = async (query: string) => {
   try {
-    const response = await fdaClient.get<DrugLabelResponse>(
-      `${BASE_URL}/label.json?search=${encodeURIComponent(
-        query
-      )}&limit=5&api_key=${FDA_API_KEY}`
-    );
-    return response.data.results;
+    const provider = await getDrugInfoProvider();
+    const response = await provider.searchLabels(query, 5);
+    return response.data;
   } catch (error) {
     console.error("Error searching medication:", error);
     throw new Error("Failed to search medication");
   }
 };
 
-export const getMedicationDetails = async (brandName: string) => {
+/**
+ * Label for a medication by brand or generic name, along with when it was
+ * fetched. The result may come from the offline cache.
+ */
+export const getMedicationDetails = async (
+  medicationName: string,
+  options?: CacheOptions<DrugLabel | null>
+): Promise<CachedResponse<DrugLabel | null>> => {
   try {
-    const response = await fdaClient.get<DrugLabelResponse>(
-      `${BASE_URL}/label.json?search=openfda.brand_name:"${encodeURIComponent(
-        brandName
-      )}"&limit=1&api_key=${FDA_API_KEY}`
-    );
-    return response.data.results[0];
+    const provider = await getDrugInfoProvider();
+    return await provider.getLabel(medicationName, options);
   } catch (error) {
     console.error("Error getting medication details:", error);
     throw new Error("Failed to get medication details");
   }
 };
 
-export const checkMedicationInteractions = async (
-  medications: string[]
-): Promise<MedicationInteraction[]> => {
-  const interactions: MedicationInteraction[] = [];
+/**
+ * Label for a saved medication: the exact product's label when it has an
+ * NDC and one is found, otherwise the label for its resolved name
+ */
+export const getMedicationLabel = async (
+  medication: Pick<Medication, "name" | "identity" | "ndc">,
+  options?: CacheOptions<DrugLabel | null>
+): Promise<CachedResponse<DrugLabel | null>> => {
+  try {
+    const provider = await getDrugInfoProvider();
+    if (medication.ndc) {
+      const response = await provider.getLabelByNdc(
+        toProductNdc(medication.ndc),
+        options
+      );
+      if (response.data) return response;
+    }
+    // Look the label up by ingredient rather than the typed name
+    const identity = await getMedicationIdentity(medication);
+    return await provider.getLabel(getLookupName(identity), options);
+  } catch (error) {
+    console.error("Error getting medication label:", error);
+    throw new Error("Failed to get medication details");
+  }
+};
+
+/**
+ * NDC directory entry for a code as printed on a package, or null when it
+ * isn't a valid NDC or isn't listed
+ */
+export const lookupNdc = async (input: string): Promise<NdcProduct | null> => {
+  const candidates = productNdcCandidates(input);
+  if (candidates.length === 0) return null;
 
   try {
-    // For each pair of medications, check for interactions
-    for (let i = 0; i < medications.length; i++) {
-      for (let j = i + 1; j < medications.length; j++) {
-        const drug1 = medications[i];
-        const drug2 = medications[j];
-
-        // Skip empty medication names
-        if (!drug1 || !drug2 || drug1.trim() === "" || drug2.trim() === "") {
-          continue;
-        }
+    const provider = await getDrugInfoProvider();
+    return (await provider.getNdcProduct(candidates)).data;
+  } catch (error) {
+    console.error("Error looking up NDC:", error);
+    throw new Error("Failed to look up NDC");
+  }
+};
 
-        try {
-          // Try multiple search strategies to find interactions
-          let response = null;
-          let hasResults = false;
-          let interactionSource = "";
+/**
+ * Active ingredients and FDA established pharmacologic classes from the label
+ * of a medication, matched by brand or generic name
+ */
+export const getActiveIngredients = async (
+  medicationName: string
+): Promise<{ ingredients: string[]; pharmClasses: string[] } | null> => {
+  try {
+    const provider = await getDrugInfoProvider();
+    const response = await provider.getLabel(medicationName.trim());
+    const label = response.data;
+    if (!label?.openfda) return null;
+
+    return {
+      ingredients: getLabelIngredients(label),
+      pharmClasses: label.openfda.pharm_class_epc || [],
+    };
+  } catch (error) {
+    console.error("Error getting active ingredients:", error);
+    throw new Error("Failed to get active ingredients");
+  }
+};
 
-          // Strategy 1: Search for drug2 in drug1's interactions using brand name
-          try {
-            response = await fdaClient.get<DrugInteractionResponse>(
-              `${BASE_URL}/label.json?search=drug_interactions:"${encodeURIComponent(
-                drug2
-              )}"AND+openfda.brand_name:"${encodeURIComponent(
-                drug1
-              )}"&limit=1&api_key=${FDA_API_KEY}`
-            );
-            hasResults = !!(
-              response.data.results &&
-              response.data.results.length > 0 &&
-              response.data.results[0].drug_interactions
-            );
-            if (hasResults)
-              interactionSource = `${drug1} label mentions ${drug2}`;
-          } catch (err) {
-            console.log(`Strategy 1 failed for ${drug1} and ${drug2}`);
-          }
+export interface InteractionCheckOptions {
+  // Called as soon as each interaction is found
+  onInteraction?: (interaction: MedicationInteraction) => void;
+  // Called after each pair of medications has been checked
+  onProgress?: (checked: number, total: number) => void;
+}
 
-          // Strategy 2: Search for drug1 in drug2's interactions using brand name
-          if (!hasResults) {
-            try {
-              response = await fdaClient.get<DrugInteractionResponse>(
-                `${BASE_URL}/label.json?search=drug_interactions:"${encodeURIComponent(
-                  drug1
-                )}"AND+openfda.brand_name:"${encodeURIComponent(
-                  drug2
-                )}"&limit=1&api_key=${FDA_API_KEY}`
-              );
-              hasResults = !!(
-                response.data.results &&
-                response.data.results.length > 0 &&
-                response.data.results[0].drug_interactions
-              );
-              if (hasResults)
-                interactionSource = `${drug2} label mentions ${drug1}`;
-            } catch (err) {
-              console.log(`Strategy 2 failed for ${drug1} and ${drug2}`);
-            }
-          }
+// How many medication pairs are checked at once. Requests are also limited
+// across the app by the drug information provider.
+const MAX_CONCURRENT_PAIRS = 4;
 
-          // Strategy 3: Search using generic names
-          if (!hasResults) {
-            try {
-              response = await fdaClient.get<DrugInteractionResponse>(
-                `${BASE_URL}/label.json?search=drug_interactions:"${encodeURIComponent(
-                  drug2
-                )}"AND+openfda.generic_name:"${encodeURIComponent(
-                  drug1
-                )}"&limit=1&api_key=${FDA_API_KEY}`
-              );
-              hasResults = !!(
-                response.data.results &&
-                response.data.results.length > 0 &&
-                response.data.results[0].drug_interactions
-              );
-              if (hasResults)
-                interactionSource = `${drug1} generic label mentions ${drug2}`;
-            } catch (err) {
-              console.log(`Strategy 3 failed for ${drug1} and ${drug2}`);
-            }
-          }
+// An active ingredient of a medication, with the label it is checked against
+interface CheckedIngredient {
+  name: string;
+  // Lowercase names the ingredient may appear under in label text
+  terms: string[];
+  label: DrugLabel | null;
+}
 
-          // Strategy 4: Try the reverse with generic names
-          if (!hasResults) {
-            try {
-              response = await fdaClient.get<DrugInteractionResponse>(
-                `${BASE_URL}/label.json?search=drug_interactions:"${encodeURIComponent(
-                  drug1
-                )}"AND+openfda.generic_name:"${encodeURIComponent(
-                  drug2
-                )}"&limit=1&api_key=${FDA_API_KEY}`
-              );
-              hasResults = !!(
-                response.data.results &&
-                response.data.results.length > 0 &&
-                response.data.results[0].drug_interactions
-              );
-              if (hasResults)
-                interactionSource = `${drug2} generic label mentions ${drug1}`;
-            } catch (err) {
-              console.log(`Strategy 4 failed for ${drug1} and ${drug2}`);
-            }
-          }
+interface CheckedMedication {
+  name: string;
+  ingredients: CheckedIngredient[];
+}
 
-          // Strategy 5: Broader search in drug interactions field
-          if (!hasResults) {
-            try {
-              response = await fdaClient.get<DrugInteractionResponse>(
-                `${BASE_URL}/label.json?search=drug_interactions:"${encodeURIComponent(
-                  drug1.toLowerCase()
-                )}"&limit=5&api_key=${FDA_API_KEY}`
-              );
-
-              // Check if drug2 is mentioned in any of the interactions
-              if (response.data.results && response.data.results.length > 0) {
-                for (const result of response.data.results) {
-                  if (result.drug_interactions) {
-                    const interactionText = result.drug_interactions
-                      .join(" ")
-                      .toLowerCase();
-                    if (interactionText.includes(drug2.toLowerCase())) {
-                      hasResults = true;
-                      interactionSource = "Broad search";
-                      break;
-                    }
-                  }
-                }
-              }
-            } catch (err) {
-              console.log(`Strategy 5 failed for ${drug1} and ${drug2}`);
-            }
-          }
+const normalizeTerm = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// The ingredient and, for single-ingredient entries, its brand names
+const ingredientTerms = (ingredient: string): string[] => {
+  const entry = lookupDrugName(ingredient)?.entry;
+  const brands =
+    entry?.ingredients.length === 1 && entry.ingredients[0] === ingredient
+      ? entry.brands
+      : [];
+  return Array.from(
+    new Set([ingredient, ...brands].map(normalizeTerm))
+  ).filter((term) => term.length > 2);
+};
 
-          // If we found results in any strategy
-          if (
-            hasResults &&
-            response &&
-            response.data.results &&
-            response.data.results.length > 0 &&
-            response.data.results[0].drug_interactions
-          ) {
-            // Extract the full interaction text from FDA data
-            const relevantTexts = [];
-
-            for (const result of response.data.results) {
-              if (result.drug_interactions) {
-                for (const interactionText of result.drug_interactions) {
-                  const lower = interactionText.toLowerCase();
-
-                  // Only include text that mentions both medications or is clearly relevant
-                  if (
-                    (lower.includes(drug1.toLowerCase()) &&
-                      lower.includes(drug2.toLowerCase())) ||
-                    (lower.includes(drug1.toLowerCase()) &&
-                      drug1.toLowerCase() !== drug2.toLowerCase()) ||
-                    (lower.includes(drug2.toLowerCase()) &&
-                      drug1.toLowerCase() !== drug2.toLowerCase())
-                  ) {
-                    relevantTexts.push(interactionText);
-                  }
-                }
-              }
-            }
+// Whether a label's interaction section names the other ingredient
+const labelMentions = (
+  label: DrugLabel,
+  other: CheckedIngredient
+): boolean =>
+  !!label.drug_interactions?.some((text) => {
+    const normalized = ` ${normalizeTerm(text)} `;
+    return other.terms.some((term) => normalized.includes(` ${term} `));
+  });
 
-            // Get the most relevant interaction text
-            const description =
-              relevantTexts.length > 0
-                ? relevantTexts.join(" ")
-                : response.data.results[0].drug_interactions.join(" ");
-
-            // Determine severity based on text analysis
-            const severity = determineSeverity(description);
-
-            // Extract relevant sentences directly from FDA text
-            const { simplifiedExplanation, possibleEffects, recommendations } =
-              extractDirectFromFdaText(drug1, drug2, severity, description);
-
-            interactions.push({
-              drug1,
-              drug2,
-              severity,
-              description,
-              simplifiedExplanation,
-              possibleEffects,
-              recommendations,
-              source: `Data from FDA API: ${interactionSource}`,
-            });
-          }
-        } catch (innerError) {
-          console.error(
-            `Error checking interaction between ${drug1} and ${drug2}:`,
-            innerError
-          );
-          // Continue checking other combinations rather than failing completely
+/**
+ * Finds the interaction between two ingredients in their own labels, which
+ * are fetched once per ingredient. Only pairs where a label has no
+ * interaction section fall back to searching other labels.
+ */
+const findIngredientInteraction = async (
+  provider: DrugInfoProvider,
+  first: CheckedIngredient,
+  second: CheckedIngredient
+): Promise<InteractionLabelMatch | null> => {
+  if (first.label && labelMentions(first.label, second)) {
+    return {
+      labels: [first.label],
+      source: `${first.name} label mentions ${second.name}`,
+    };
+  }
+  if (second.label && labelMentions(second.label, first)) {
+    return {
+      labels: [second.label],
+      source: `${second.name} label mentions ${first.name}`,
+    };
+  }
+
+  if (first.label?.drug_interactions && second.label?.drug_interactions) {
+    return null;
+  }
+  return provider.findInteractions(first.name, second.name);
+};
+
+// "oxycodone (in Percocet)", or just the name when the medication was
+// entered by its ingredient
+const describeIngredient = (
+  medication: CheckedMedication,
+  ingredient: CheckedIngredient
+): string =>
+  normalizeTerm(medication.name) === normalizeTerm(ingredient.name)
+    ? medication.name
+    : `${ingredient.name} (in ${medication.name})`;
+
+// Sentences citing the interaction in each matched label. A label for one
+// of the ingredients is cited where it names the other; labels found by
+// searching are cited where they name either.
+const findInteractionEvidence = (
+  first: CheckedIngredient,
+  second: CheckedIngredient,
+  labels: DrugLabel[]
+): LabelEvidence[] =>
+  labels.flatMap((label) => {
+    const own = getLabelIngredients(label).map(cleanMedicationName);
+    const terms = own.includes(first.name)
+      ? second.terms
+      : own.includes(second.name)
+      ? first.terms
+      : [...first.terms, ...second.terms];
+    return findLabelEvidence(label, "drug_interactions", terms);
+  });
+
+const buildInteraction = (
+  first: CheckedMedication,
+  firstIngredient: CheckedIngredient,
+  second: CheckedMedication,
+  secondIngredient: CheckedIngredient,
+  match: InteractionLabelMatch,
+  providerName: string
+): MedicationInteraction | null => {
+  const drug1 = firstIngredient.name;
+  const drug2 = secondIngredient.name;
+
+  // Extract the full interaction text from FDA data
+  const relevantTexts = [];
+
+  for (const label of match.labels) {
+    if (label.drug_interactions) {
+      for (const interactionText of label.drug_interactions) {
+        const lower = interactionText.toLowerCase();
+
+        // Only include text that mentions both medications or is clearly relevant
+        if (
+          (lower.includes(drug1.toLowerCase()) &&
+            lower.includes(drug2.toLowerCase())) ||
+          (lower.includes(drug1.toLowerCase()) &&
+            drug1.toLowerCase() !== drug2.toLowerCase()) ||
+          (lower.includes(drug2.toLowerCase()) &&
+            drug1.toLowerCase() !== drug2.toLowerCase())
+        ) {
+          relevantTexts.push(interactionText);
         }
       }
     }
+  }
+
+  // Get the most relevant interaction text
+  const description =
+    relevantTexts.length > 0
+      ? relevantTexts.join(" ")
+      : match.labels[0].drug_interactions!.join(" ");
+
+  // Determine severity from the sentences about this pair
+  const classification = classifyInteractionSeverity(
+    description,
+    firstIngredient.terms,
+    secondIngredient.terms
+  );
+  // The label says these don't meaningfully interact
+  if (classification.severity === "none") return null;
+  const severity = classification.severity;
+
+  // Extract relevant sentences directly from FDA text
+  const { simplifiedExplanation, possibleEffects, recommendations } =
+    extractDirectFromFdaText(
+      describeIngredient(first, firstIngredient),
+      describeIngredient(second, secondIngredient),
+      severity,
+      description
+    );
+
+  return {
+    drug1: first.name,
+    drug2: second.name,
+    ingredient1: drug1,
+    ingredient2: drug2,
+    severity,
+    severityConfidence: classification.confidence,
+    description,
+    simplifiedExplanation,
+    possibleEffects,
+    recommendations,
+    source: `Data from ${providerName}: ${match.source}`,
+    evidence: findInteractionEvidence(
+      firstIngredient,
+      secondIngredient,
+      match.labels
+    ),
+  };
+};
 
-    return interactions;
+/**
+ * Checks each pair of medications for interactions in FDA label text.
+ * Every medication is expanded into its active ingredients, so combination
+ * products like Percocet are checked ingredient by ingredient, and brand
+ * names, strengths and misspellings in the typed name don't hide an
+ * interaction. Pairs are checked a few at a time and each interaction is
+ * reported through `onInteraction` as soon as it is found.
+ */
+export const checkMedicationInteractions = async (
+  medications: Pick<Medication, "name" | "identity">[],
+  options: InteractionCheckOptions = {}
+): Promise<MedicationInteraction[]> => {
+  try {
+    const provider = await getDrugInfoProvider();
+    const named = medications.filter((medication) => medication.name.trim());
+
+    // Labels are fetched once per ingredient and shared by every product and
+    // pair that contains it
+    const labels = new Map<string, Promise<DrugLabel | null>>();
+    const getLabel = (name: string): Promise<DrugLabel | null> => {
+      if (!labels.has(name)) {
+        labels.set(
+          name,
+          safeFdaApiCall(async () => (await provider.getLabel(name)).data, null)
+        );
+      }
+      return labels.get(name)!;
+    };
+
+    const checked: CheckedMedication[] = await Promise.all(
+      named.map(async (medication) => {
+        const identity = await getMedicationIdentity(medication);
+        let ingredients = identity.ingredients;
+
+        // A name that couldn't be resolved may still have a label listing
+        // its ingredients
+        if (identity.source === "unresolved") {
+          const label = await getLabel(getLookupName(identity));
+          const fromLabel = label
+            ? getLabelIngredients(label).map(cleanMedicationName)
+            : [];
+          if (fromLabel.length > 0) ingredients = fromLabel;
+        }
+
+        return {
+          name: medication.name,
+          ingredients: await Promise.all(
+            Array.from(new Set(ingredients)).map(async (ingredient) => ({
+              name: ingredient,
+              terms: ingredientTerms(ingredient),
+              label: await getLabel(ingredient),
+            }))
+          ),
+        };
+      })
+    );
+
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < checked.length; i++) {
+      for (let j = i + 1; j < checked.length; j++) {
+        pairs.push([i, j]);
+      }
+    }
+
+    const limit = createLimiter(MAX_CONCURRENT_PAIRS);
+    const found: { index: number; interaction: MedicationInteraction }[] = [];
+    let checkedPairs = 0;
+    options.onProgress?.(0, pairs.length);
+
+    await Promise.all(
+      pairs.map(([i, j], index) =>
+        limit(async () => {
+          const first = checked[i];
+          const second = checked[j];
+          try {
+            for (const firstIngredient of first.ingredients) {
+              for (const secondIngredient of second.ingredients) {
+                // The same ingredient in two products is a duplication, not
+                // an interaction
+                if (firstIngredient.name === secondIngredient.name) continue;
+
+                const match = await findIngredientInteraction(
+                  provider,
+                  firstIngredient,
+                  secondIngredient
+                );
+                if (!match) continue;
+
+                const interaction = buildInteraction(
+                  first,
+                  firstIngredient,
+                  second,
+                  secondIngredient,
+                  match,
+                  provider.name
+                );
+                if (!interaction) continue;
+
+                found.push({ index, interaction });
+                options.onInteraction?.(interaction);
+              }
+            }
+          } catch (pairError) {
+            console.error(
+              `Error checking interaction between ${first.name} and ${second.name}:`,
+              pairError
+            );
+            // Continue checking other combinations rather than failing completely
+          } finally {
+            checkedPairs++;
+            options.onProgress?.(checkedPairs, pairs.length);
+          }
+        })
+      )
+    );
+
+    // Stable sort keeps ingredient order within each pair
+    return found
+      .sort((a, b) => a.index - b.index)
+      .map(({ interaction }) => interaction);
   } catch (error) {
     console.error("Error checking medication interactions:", error);
     throw new Error(
@@ -365,40 +437,6 @@ export const checkMedicationInteractions = async (
   }
 };
 
-// Helper function to determine severity based on the interaction description
-const determineSeverity = (
-  description: string
-): "minor" | "moderate" | "major" => {
-  const lowercaseDesc = description.toLowerCase();
-
-  if (
-    lowercaseDesc.includes("contraindicated") ||
-    lowercaseDesc.includes("avoid") ||
-    lowercaseDesc.includes("not recommended") ||
-    lowercaseDesc.includes("severe") ||
-    lowercaseDesc.includes("serious") ||
-    lowercaseDesc.includes("life-threatening") ||
-    lowercaseDesc.includes("fatal") ||
-    lowercaseDesc.includes("death") ||
-    lowercaseDesc.includes("warning")
-  ) {
-    return "major";
-  } else if (
-    lowercaseDesc.includes("caution") ||
-    lowercaseDesc.includes("monitor") ||
-    lowercaseDesc.includes("adjust") ||
-    lowercaseDesc.includes("modify") ||
-    lowercaseDesc.includes("increase") ||
-    lowercaseDesc.includes("decrease") ||
-    lowercaseDesc.includes("may affect") ||
-    lowercaseDesc.includes("potential")
-  ) {
-    return "moderate";
-  } else {
-    return "minor";
-  }
-};
-
 // Extract information directly from FDA text without keyword matching
 const extractDirectFromFdaText = (
   drug1: string,
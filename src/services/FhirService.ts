@@ -0,0 +1,509 @@
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  Allergy,
+  Patient,
+  Medication,
+  Symptom,
+  Diagnosis,
+  MedicalHistory,
+} from "../types";
+import {
+  FhirAllergyIntolerance,
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirCondition,
+  FhirDosage,
+  FhirMedicationStatement,
+  FhirObservation,
+  FhirPatient,
+  FhirProcedure,
+  FhirReference,
+  FhirResource,
+} from "../types/fhir";
+import { parseStoredDate, toIsoDate, todayIsoDate } from "../utils/dates";
+
+const FHIR_MIME_TYPE = "application/fhir+json";
+
+const CONDITION_CLINICAL_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const CONDITION_VERIFICATION_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-ver-status";
+const ALLERGY_CLINICAL_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical";
+const ALLERGY_VERIFICATION_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification";
+const OBSERVATION_CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+const INTERPRETATION_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation";
+const SNOMED_SYSTEM = "http://snomed.info/sct";
+export const SURGICAL_PROCEDURE_CODE = "387713003";
+
+// FHIR date and dateTime formats (partial dates are allowed)
+const FHIR_DATE_REGEX = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const FHIR_DATETIME_REGEX =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+// The UUID in a urn:uuid fullUrl
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Converts a stored date to a FHIR date (YYYY-MM-DD)
+ */
+export const toFhirDate = (value?: string): string | undefined => {
+  const date = parseStoredDate(value?.trim());
+  return date ? toIsoDate(date) : undefined;
+};
+
+/**
+ * Converts a FHIR date or dateTime to the ISO date stored in the app.
+ * Partial dates fall back to the first day of the month or year.
+ */
+export const fromFhirDate = (value?: string): string | undefined => {
+  const match = value?.trim().match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01"] = match;
+  return `${year}-${month}-${day}`;
+};
+
+const concept = (
+  text: string,
+  system?: string,
+  code?: string
+): FhirCodeableConcept =>
+  system && code ? { coding: [{ system, code }], text } : { text };
+
+const notes = (text?: string) => (text ? [{ text }] : undefined);
+
+const toFhirGender = (gender: string): FhirPatient["gender"] => {
+  const normalized = gender.trim().toLowerCase();
+  if (normalized === "male" || normalized === "m") return "male";
+  if (normalized === "female" || normalized === "f") return "female";
+  if (!normalized) return "unknown";
+  return "other";
+};
+
+const buildPatient = (patient: Patient): FhirPatient => {
+  const parts = patient.name.trim().split(/\s+/);
+  const family = parts.length > 1 ? parts.pop() : undefined;
+
+  return {
+    resourceType: "Patient",
+    id: patient.id,
+    name: [{ text: patient.name, given: parts, family }],
+    gender: toFhirGender(patient.gender),
+    birthDate: toFhirDate(patient.dateOfBirth),
+  };
+};
+
+const FHIR_DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+const buildDosage = (medication: Medication): FhirDosage | undefined => {
+  const text = [medication.dosage, medication.frequency]
+    .filter(Boolean)
+    .join(" ");
+  if (!text) return undefined;
+
+  const { dose, schedule } = medication;
+  const repeat = schedule.intervalHours
+    ? { frequency: 1, period: schedule.intervalHours, periodUnit: "h" as const }
+    : schedule.timesPerDay
+    ? { frequency: schedule.timesPerDay, period: 1, periodUnit: "d" as const }
+    : undefined;
+  const dayOfWeek = schedule.daysOfWeek?.map((day) => FHIR_DAYS[day]);
+
+  return {
+    text,
+    timing:
+      repeat || dayOfWeek ? { repeat: { ...repeat, dayOfWeek } } : undefined,
+    asNeededBoolean: schedule.asNeeded || undefined,
+    route: dose.route ? { text: dose.route } : undefined,
+    doseAndRate:
+      dose.amount !== null
+        ? [{ doseQuantity: { value: dose.amount, unit: dose.unit } }]
+        : undefined,
+  };
+};
+
+const buildMedicationStatement = (
+  medication: Medication,
+  subject: FhirReference
+): FhirMedicationStatement => {
+  const start = toFhirDate(medication.startDate);
+  const end = toFhirDate(medication.endDate);
+  const hasEnded = !!end && end <= todayIsoDate();
+  const dosage = buildDosage(medication);
+
+  return {
+    resourceType: "MedicationStatement",
+    id: medication.id,
+    status: hasEnded ? "completed" : "active",
+    medicationCodeableConcept: concept(medication.name),
+    subject,
+    effectivePeriod: start || end ? { start, end } : undefined,
+    informationSource: medication.prescribedBy
+      ? { display: medication.prescribedBy }
+      : undefined,
+    dosage: dosage ? [dosage] : undefined,
+    note: notes(medication.notes),
+  };
+};
+
+const SEVERITY_INTERPRETATION: Record<Symptom["severity"], [string, string]> = {
+  low: ["L", "Low"],
+  medium: ["N", "Normal"],
+  high: ["H", "High"],
+};
+
+const buildObservation = (
+  symptom: Symptom,
+  subject: FhirReference
+): FhirObservation => {
+  const [code, display] = SEVERITY_INTERPRETATION[symptom.severity];
+
+  return {
+    resourceType: "Observation",
+    id: symptom.id,
+    status: "final",
+    category: [concept("Survey", OBSERVATION_CATEGORY_SYSTEM, "survey")],
+    code: concept(symptom.name || symptom.description),
+    subject,
+    effectiveDateTime: toFhirDate(symptom.dateRecorded),
+    valueString: symptom.description,
+    interpretation: [
+      {
+        coding: [{ system: INTERPRETATION_SYSTEM, code, display }],
+        text: `Severity: ${symptom.severity}`,
+      },
+    ],
+    note: notes(
+      [symptom.duration && `Duration: ${symptom.duration}`, symptom.notes]
+        .filter(Boolean)
+        .join("\n")
+    ),
+  };
+};
+
+const buildCondition = (
+  diagnosis: Diagnosis,
+  subject: FhirReference
+): FhirCondition => ({
+  resourceType: "Condition",
+  id: diagnosis.id,
+  clinicalStatus: concept("Active", CONDITION_CLINICAL_SYSTEM, "active"),
+  verificationStatus: concept(
+    "Confirmed",
+    CONDITION_VERIFICATION_SYSTEM,
+    "confirmed"
+  ),
+  code: concept(diagnosis.name),
+  subject,
+  onsetDateTime: toFhirDate(diagnosis.diagnosedDate),
+  asserter: diagnosis.diagnosedBy
+    ? { display: diagnosis.diagnosedBy }
+    : undefined,
+  note: notes(diagnosis.notes),
+});
+
+const buildHistoryResource = (
+  item: MedicalHistory,
+  subject: FhirReference
+): FhirProcedure | FhirCondition => {
+  // Surgeries and other interventions are procedures; past illnesses and
+  // injuries are resolved conditions
+  if (item.type === "surgery" || item.type === "other") {
+    return {
+      resourceType: "Procedure",
+      id: item.id,
+      status: "completed",
+      category:
+        item.type === "surgery"
+          ? concept(
+              "Surgical procedure",
+              SNOMED_SYSTEM,
+              SURGICAL_PROCEDURE_CODE
+            )
+          : undefined,
+      code: concept(item.name),
+      subject,
+      performedDateTime: toFhirDate(item.date),
+      note: notes(item.notes),
+    };
+  }
+
+  return {
+    resourceType: "Condition",
+    id: item.id,
+    clinicalStatus: concept("Resolved", CONDITION_CLINICAL_SYSTEM, "resolved"),
+    category: [concept(item.type === "injury" ? "Injury" : "Illness")],
+    code: concept(item.name),
+    subject,
+    onsetDateTime: toFhirDate(item.date),
+    note: notes(item.notes),
+  };
+};
+
+const ALLERGY_CATEGORIES: Record<
+  Allergy["category"],
+  "food" | "medication" | "environment"
+> = {
+  drug: "medication",
+  // Excipients are inactive ingredients of medications
+  excipient: "medication",
+  food: "food",
+  environment: "environment",
+};
+
+const ALLERGY_CRITICALITY: Record<
+  Allergy["severity"],
+  FhirAllergyIntolerance["criticality"]
+> = {
+  mild: "low",
+  moderate: "low",
+  severe: "high",
+  unknown: "unable-to-assess",
+};
+
+const buildAllergyIntolerance = (
+  allergy: Allergy,
+  patientRef: FhirReference
+): FhirAllergyIntolerance => {
+  const status = allergy.verificationStatus;
+  const severity = allergy.severity === "unknown" ? undefined : allergy.severity;
+
+  return {
+    resourceType: "AllergyIntolerance",
+    id: allergy.id,
+    // A refuted allergy has no clinical status
+    clinicalStatus:
+      status === "refuted"
+        ? undefined
+        : concept("Active", ALLERGY_CLINICAL_SYSTEM, "active"),
+    verificationStatus: concept(
+      status.charAt(0).toUpperCase() + status.slice(1),
+      ALLERGY_VERIFICATION_SYSTEM,
+      status
+    ),
+    category: [ALLERGY_CATEGORIES[allergy.category]],
+    criticality: ALLERGY_CRITICALITY[allergy.severity],
+    code: concept(allergy.allergen),
+    patient: patientRef,
+    onsetDateTime: toFhirDate(allergy.onsetDate),
+    reaction: allergy.reaction
+      ? [{ manifestation: [concept(allergy.reaction)], severity }]
+      : undefined,
+    note: notes(allergy.notes),
+  };
+};
+
+// A fresh fullUrl for a bundle entry; urn:uuid requires an RFC 4122 UUID,
+// which the app's record ids are not
+const newFullUrl = (): string => `urn:uuid:${Crypto.randomUUID()}`;
+
+/**
+ * Maps a patient record to a FHIR R4 collection Bundle
+ */
+export const buildFhirBundle = (patient: Patient): FhirBundle => {
+  const patientUrl = newFullUrl();
+  const subject: FhirReference = {
+    reference: patientUrl,
+    display: patient.name,
+  };
+
+  const resources: FhirResource[] = [
+    ...patient.medications.map((m) => buildMedicationStatement(m, subject)),
+    ...patient.symptoms.map((s) => buildObservation(s, subject)),
+    ...patient.diagnoses.map((d) => buildCondition(d, subject)),
+    ...patient.medicalHistory.map((h) => buildHistoryResource(h, subject)),
+    ...patient.allergies.map((a) => buildAllergyIntolerance(a, subject)),
+  ];
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: patientUrl, resource: buildPatient(patient) },
+      ...resources.map((resource) => ({ fullUrl: newFullUrl(), resource })),
+    ],
+  };
+};
+
+const hasText = (value?: FhirCodeableConcept): boolean =>
+  !!value && (!!value.text?.trim() || !!value.coding?.some((c) => c.code));
+
+const checkDate = (
+  errors: string[],
+  label: string,
+  value: string | undefined,
+  regex: RegExp
+) => {
+  if (value !== undefined && !regex.test(value)) {
+    errors.push(`${label} has an invalid date "${value}"`);
+  }
+};
+
+const checkSubject = (
+  errors: string[],
+  label: string,
+  reference: FhirReference | undefined,
+  field: string
+) => {
+  if (!reference?.reference) {
+    errors.push(`${label} is missing ${field}.reference`);
+  }
+};
+
+/**
+ * Checks a bundle against the required elements and value sets of the
+ * resource types we export. Returns a list of problems, empty when valid.
+ */
+export const validateFhirBundle = (bundle: FhirBundle): string[] => {
+  const errors: string[] = [];
+
+  if (bundle.resourceType !== "Bundle") {
+    errors.push('Bundle resourceType must be "Bundle"');
+  }
+  if (!bundle.type) {
+    errors.push("Bundle is missing type");
+  }
+
+  const fullUrls = new Set<string>();
+
+  (bundle.entry || []).forEach((entry, index) => {
+    const resource = entry.resource;
+    const label = `${resource?.resourceType || "Entry"}[${index}]`;
+
+    if (entry.fullUrl) {
+      if (
+        entry.fullUrl.startsWith("urn:uuid:") &&
+        !UUID_REGEX.test(entry.fullUrl.slice("urn:uuid:".length))
+      ) {
+        errors.push(`${label} has a fullUrl that isn't a UUID`);
+      }
+      if (fullUrls.has(entry.fullUrl)) {
+        errors.push(`${label} has a duplicate fullUrl ${entry.fullUrl}`);
+      }
+      fullUrls.add(entry.fullUrl);
+    }
+
+    switch (resource?.resourceType) {
+      case "Patient":
+        if (!resource.name?.length) {
+          errors.push(`${label} is missing name`);
+        }
+        checkDate(errors, label, resource.birthDate, FHIR_DATE_REGEX);
+        break;
+
+      case "MedicationStatement":
+        if (!resource.status) errors.push(`${label} is missing status`);
+        if (
+          !hasText(resource.medicationCodeableConcept) &&
+          !resource.medicationReference
+        ) {
+          errors.push(`${label} is missing medication[x]`);
+        }
+        checkSubject(errors, label, resource.subject, "subject");
+        checkDate(
+          errors,
+          label,
+          resource.effectivePeriod?.start,
+          FHIR_DATETIME_REGEX
+        );
+        checkDate(
+          errors,
+          label,
+          resource.effectivePeriod?.end,
+          FHIR_DATETIME_REGEX
+        );
+        break;
+
+      case "Observation":
+        if (!resource.status) errors.push(`${label} is missing status`);
+        if (!hasText(resource.code)) errors.push(`${label} is missing code`);
+        checkDate(
+          errors,
+          label,
+          resource.effectiveDateTime,
+          FHIR_DATETIME_REGEX
+        );
+        break;
+
+      case "Condition":
+        if (!hasText(resource.code)) errors.push(`${label} is missing code`);
+        checkSubject(errors, label, resource.subject, "subject");
+        checkDate(errors, label, resource.onsetDateTime, FHIR_DATETIME_REGEX);
+        break;
+
+      case "Procedure":
+        if (!resource.status) errors.push(`${label} is missing status`);
+        checkSubject(errors, label, resource.subject, "subject");
+        checkDate(
+          errors,
+          label,
+          resource.performedDateTime,
+          FHIR_DATETIME_REGEX
+        );
+        break;
+
+      case "AllergyIntolerance":
+        if (!hasText(resource.code)) errors.push(`${label} is missing code`);
+        checkSubject(errors, label, resource.patient, "patient");
+        checkDate(errors, label, resource.onsetDateTime, FHIR_DATETIME_REGEX);
+        if (
+          resource.category?.some(
+            (category) =>
+              !["food", "medication", "environment", "biologic"].includes(
+                category
+              )
+          )
+        ) {
+          errors.push(`${label} has an invalid category`);
+        }
+        if (resource.reaction?.some((r) => !r.manifestation?.length)) {
+          errors.push(`${label} has a reaction without a manifestation`);
+        }
+        break;
+
+      default:
+        errors.push(`${label} has an unsupported resourceType`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Writes the patient's FHIR bundle to a JSON file and opens the share sheet
+ */
+export const shareFhirBundle = async (bundle: FhirBundle): Promise<void> => {
+  try {
+    const patient = bundle.entry?.find(
+      (entry) => entry.resource.resourceType === "Patient"
+    )?.resource as FhirPatient | undefined;
+    const safeName = (patient?.name?.[0]?.text || "patient")
+      .replace(/[^a-z0-9]+/gi, "-")
+      .toLowerCase();
+    const fileUri = `${FileSystem.cacheDirectory}${safeName}-fhir.json`;
+
+    await FileSystem.writeAsStringAsync(
+      fileUri,
+      JSON.stringify(bundle, null, 2)
+    );
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing is not available on this device");
+    }
+
+    await Sharing.shareAsync(fileUri, {
+      mimeType: FHIR_MIME_TYPE,
+      dialogTitle: "Share Health Record",
+      UTI: "public.json",
+    });
+  } catch (error) {
+    console.error("Error sharing FHIR bundle:", error);
+    throw new Error("Failed to share health record");
+  }
+};
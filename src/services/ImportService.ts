@@ -0,0 +1,580 @@
+import {
+  Allergy,
+  ChangeLogEntry,
+  ChangeLogState,
+  Diagnosis,
+  MedicalHistory,
+  Medication,
+  Patient,
+} from "../types";
+import { generateId } from "../utils/helpers";
+import { parseMedicationText } from "../utils/dosage";
+import { inferAllergyCategory } from "../utils/allergies";
+import { fromFhirDate, SURGICAL_PROCEDURE_CODE } from "./FhirService";
+import { parseCcdaDocument } from "./CcdaService";
+
+/**
+ * Entries read from an imported health record, before they are compared
+ * against the patient's existing data
+ */
+export interface ImportedRecord {
+  source: "fhir" | "ccda";
+  medications: Omit<Medication, "id">[];
+  diagnoses: Omit<Diagnosis, "id">[];
+  medicalHistory: Omit<MedicalHistory, "id">[];
+  allergies: Omit<Allergy, "id">[];
+}
+
+type ImportItemBase = {
+  key: string;
+  action: "add" | "merge" | "skip";
+  label: string;
+  reason?: string; // Why the item is merged or skipped
+  existingId?: string; // Entry an item is merged into
+  mergedFields?: string[]; // Empty fields on the existing entry to fill in
+};
+
+export type ImportItem = ImportItemBase &
+  (
+    | { category: "medication"; data: Omit<Medication, "id"> }
+    | { category: "diagnosis"; data: Omit<Diagnosis, "id"> }
+    | { category: "medicalHistory"; data: Omit<MedicalHistory, "id"> }
+    | { category: "allergy"; data: Omit<Allergy, "id"> }
+  );
+
+export type ImportChange = Pick<
+  ChangeLogEntry,
+  "entityType" | "entityId" | "action" | "before" | "after"
+>;
+
+const normalizeName = (name: string): string =>
+  name.trim().toLowerCase().replace(/\s+/g, " ");
+
+const joinNotes = (notes: any[] | undefined): string | undefined => {
+  const text = (notes || [])
+    .map((note) => note?.text)
+    .filter(Boolean)
+    .join("\n");
+  return text || undefined;
+};
+
+const conceptText = (concept: any): string =>
+  concept?.text ||
+  concept?.coding?.find((coding: any) => coding?.display)?.display ||
+  "";
+
+const hasCode = (concept: any, codes: string[]): boolean =>
+  !!concept?.coding?.some((coding: any) => codes.includes(coding?.code));
+
+// Describes a FHIR timing in words that parseSchedule understands
+const describeTiming = (timing: any): string => {
+  if (timing?.code) return conceptText(timing.code);
+  const repeat = timing?.repeat;
+  const days = (repeat?.dayOfWeek || []).join(", ");
+  if (!repeat?.frequency || !repeat?.periodUnit) return days;
+
+  const { frequency, periodUnit } = repeat;
+  const period = repeat.period || 1;
+  let text: string;
+
+  if (periodUnit === "h" && frequency === 1) {
+    text = `every ${period} hours`;
+  } else if (periodUnit === "d" && period === 1) {
+    text = frequency === 1 ? "once daily" : `${frequency} times per day`;
+  } else if (periodUnit === "d" && frequency === 1) {
+    text = `every ${period * 24} hours`;
+  } else if (periodUnit === "wk" && period === 1 && frequency === 1) {
+    text = "once weekly";
+  } else {
+    const units: Record<string, string> = {
+      h: "hour",
+      d: "day",
+      wk: "week",
+      mo: "month",
+    };
+    const unit = units[periodUnit] || periodUnit;
+    text = `${frequency} times per ${period === 1 ? unit : `${period} ${unit}s`}`;
+  }
+
+  return days ? `${text} on ${days}` : text;
+};
+
+const describeDose = (dosage: any): string => {
+  const quantity =
+    dosage?.doseAndRate?.[0]?.doseQuantity || dosage?.doseQuantity;
+  if (!quantity?.value) return "";
+  return [quantity.value, quantity.unit || quantity.code]
+    .filter(Boolean)
+    .join(" ");
+};
+
+const FHIR_ALLERGY_CATEGORIES: Record<string, Allergy["category"]> = {
+  medication: "drug",
+  biologic: "drug",
+  food: "food",
+  environment: "environment",
+};
+
+/**
+ * Reads medications, conditions, procedures and allergies from a FHIR R4
+ * Bundle (or a single resource)
+ */
+export const parseFhirRecord = (json: any): ImportedRecord => {
+  const resources: any[] =
+    json?.resourceType === "Bundle"
+      ? (json.entry || []).map((entry: any) => entry?.resource).filter(Boolean)
+      : [json];
+
+  // Medication resources referenced by MedicationStatement/MedicationRequest
+  const medicationsByRef = new Map<string, any>();
+  for (const resource of resources) {
+    if (resource.resourceType === "Medication" && resource.id) {
+      medicationsByRef.set(`Medication/${resource.id}`, resource);
+    }
+  }
+  (json?.entry || []).forEach((entry: any) => {
+    if (entry?.fullUrl && entry.resource?.resourceType === "Medication") {
+      medicationsByRef.set(entry.fullUrl, entry.resource);
+    }
+  });
+
+  const record: ImportedRecord = {
+    source: "fhir",
+    medications: [],
+    diagnoses: [],
+    medicalHistory: [],
+    allergies: [],
+  };
+
+  for (const resource of resources) {
+    switch (resource.resourceType) {
+      case "MedicationStatement":
+      case "MedicationRequest": {
+        if (
+          ["entered-in-error", "not-taken", "cancelled"].includes(resource.status)
+        ) {
+          break;
+        }
+        const referenced = medicationsByRef.get(
+          resource.medicationReference?.reference
+        );
+        const name =
+          conceptText(resource.medicationCodeableConcept) ||
+          conceptText(referenced?.code) ||
+          resource.medicationReference?.display ||
+          "";
+        const dosage = (resource.dosage || resource.dosageInstruction)?.[0];
+        const dose = describeDose(dosage);
+        const frequency = describeTiming(dosage?.timing);
+        const start =
+          resource.effectivePeriod?.start ||
+          resource.effectiveDateTime ||
+          resource.authoredOn;
+        // Free-text instructions are kept whole when no structured dose exists
+        const dosageText = dose || dosage?.text || "";
+        const frequencyText = [
+          dose ? frequency || dosage?.text : frequency,
+          dosage?.asNeededBoolean ? "as needed" : "",
+        ]
+          .filter(Boolean)
+          .join(" ");
+        const route = conceptText(dosage?.route);
+
+        record.medications.push({
+          name,
+          dosage: dosageText,
+          frequency: frequencyText,
+          ...parseMedicationText(`${dosageText} ${route}`, frequencyText),
+          startDate: fromFhirDate(start) || "",
+          endDate: fromFhirDate(resource.effectivePeriod?.end),
+          prescribedBy:
+            resource.informationSource?.display ||
+            resource.requester?.display ||
+            undefined,
+          notes: joinNotes(resource.note),
+        });
+        break;
+      }
+
+      case "Condition": {
+        if (
+          hasCode(resource.verificationStatus, ["refuted", "entered-in-error"])
+        ) {
+          break;
+        }
+        const name = conceptText(resource.code);
+        const date =
+          fromFhirDate(
+            resource.onsetDateTime ||
+              resource.onsetPeriod?.start ||
+              resource.recordedDate
+          ) || "";
+        const resolved =
+          hasCode(resource.clinicalStatus, [
+            "resolved",
+            "inactive",
+            "remission",
+          ]) || !!resource.abatementDateTime;
+
+        if (resolved) {
+          const isInjury = (resource.category || []).some((category: any) =>
+            /injur/i.test(conceptText(category))
+          );
+          record.medicalHistory.push({
+            type: isInjury ? "injury" : "illness",
+            name,
+            date,
+            notes: joinNotes(resource.note),
+          });
+        } else {
+          record.diagnoses.push({
+            name,
+            diagnosedDate: date,
+            diagnosedBy:
+              resource.asserter?.display || resource.recorder?.display || "",
+            notes: joinNotes(resource.note),
+          });
+        }
+        break;
+      }
+
+      case "Procedure": {
+        if (["entered-in-error", "not-done"].includes(resource.status)) break;
+        const isSurgery =
+          hasCode(resource.category, [SURGICAL_PROCEDURE_CODE]) ||
+          /surg/i.test(conceptText(resource.category));
+        record.medicalHistory.push({
+          type: isSurgery ? "surgery" : "other",
+          name: conceptText(resource.code),
+          date:
+            fromFhirDate(
+              resource.performedDateTime || resource.performedPeriod?.start
+            ) || "",
+          notes: joinNotes(resource.note),
+        });
+        break;
+      }
+
+      case "AllergyIntolerance": {
+        if (
+          hasCode(resource.clinicalStatus, ["inactive", "resolved"]) ||
+          hasCode(resource.verificationStatus, ["refuted", "entered-in-error"])
+        ) {
+          break;
+        }
+        const allergen = conceptText(resource.code);
+        const reactions: any[] = resource.reaction || [];
+        const manifestations = reactions
+          .flatMap((reaction) => reaction?.manifestation || [])
+          .map(conceptText)
+          .filter(Boolean);
+        // Use the worst severity reported across reactions
+        const severity =
+          (["severe", "moderate", "mild"] as const).find((level) =>
+            reactions.some((reaction) => reaction?.severity === level)
+          ) || (resource.criticality === "high" ? "severe" : "unknown");
+        const verificationStatus =
+          (["confirmed", "unconfirmed"] as const).find((status) =>
+            hasCode(resource.verificationStatus, [status])
+          ) || "unconfirmed";
+
+        record.allergies.push({
+          allergen,
+          category:
+            FHIR_ALLERGY_CATEGORIES[resource.category?.[0]] ||
+            inferAllergyCategory(allergen),
+          reaction: manifestations.join(", ") || undefined,
+          severity,
+          onsetDate: fromFhirDate(resource.onsetDateTime),
+          verificationStatus,
+          notes: joinNotes(resource.note),
+        });
+        break;
+      }
+    }
+  }
+
+  return record;
+};
+
+/**
+ * Parses the contents of an imported file, detecting FHIR JSON or C-CDA XML
+ */
+export const parseHealthRecord = (content: string): ImportedRecord => {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith("{")) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (error) {
+      console.error("Error parsing FHIR JSON:", error);
+      throw new Error("The file is not valid JSON");
+    }
+    if (!json?.resourceType) {
+      throw new Error("The file is not a FHIR resource or Bundle");
+    }
+    return parseFhirRecord(json);
+  }
+
+  if (trimmed.startsWith("<")) {
+    return parseCcdaDocument(trimmed);
+  }
+
+  throw new Error("Unsupported file. Choose a FHIR JSON or C-CDA XML file.");
+};
+
+// Fields that get filled in on an existing entry when they are empty there
+const MERGEABLE_FIELDS = {
+  medication: [
+    "dosage",
+    "frequency",
+    "startDate",
+    "endDate",
+    "prescribedBy",
+    "notes",
+  ],
+  diagnosis: ["diagnosedDate", "diagnosedBy", "notes"],
+  medicalHistory: ["date", "notes"],
+  allergy: ["reaction", "onsetDate", "notes"],
+} as const;
+
+// Structured medication fields derived from a mergeable text field
+const LINKED_FIELDS: Record<string, string> = {
+  dosage: "dose",
+  frequency: "schedule",
+};
+
+/**
+ * Decides what happens to one imported entry: skipped when it has a problem,
+ * added when it is new, merged when it fills gaps in an existing entry
+ */
+const planEntry = (
+  item: Pick<ImportItem, "key" | "category" | "label" | "data">,
+  problem: string | undefined,
+  existing: Record<string, any> | undefined,
+  fields: readonly string[],
+  duplicateReason: string
+): ImportItem => {
+  if (problem) {
+    return { ...item, action: "skip", reason: problem } as ImportItem;
+  }
+  if (!existing) {
+    return { ...item, action: "add" } as ImportItem;
+  }
+
+  const incoming = item.data as Record<string, any>;
+  const mergedFields = fields.filter(
+    (field) => !existing[field] && incoming[field]
+  );
+  return (
+    mergedFields.length > 0
+      ? {
+          ...item,
+          action: "merge",
+          reason: duplicateReason,
+          existingId: existing.id,
+          mergedFields,
+        }
+      : { ...item, action: "skip", reason: duplicateReason }
+  ) as ImportItem;
+};
+
+/**
+ * Compares an imported record with the patient's data and decides, for each
+ * entry, whether it will be added, merged into an existing entry or skipped
+ */
+export const buildImportPlan = (
+  patient: Patient,
+  record: ImportedRecord
+): ImportItem[] => {
+  const seen = new Set<string>();
+
+  // Checks for missing names and entries repeated within the file itself
+  const precheck = (category: string, name: string): string | undefined => {
+    if (!name.trim()) return "Missing a name";
+    const seenKey = `${category}:${normalizeName(name)}`;
+    if (seen.has(seenKey)) return "Listed more than once in the file";
+    seen.add(seenKey);
+    return undefined;
+  };
+
+  const medications = record.medications.map((data, index) =>
+    planEntry(
+      {
+        key: `medication-${index}`,
+        category: "medication",
+        label: data.name || "Unnamed medication",
+        data,
+      },
+      precheck("medication", data.name),
+      patient.medications.find(
+        (med) => normalizeName(med.name) === normalizeName(data.name)
+      ),
+      MERGEABLE_FIELDS.medication,
+      "Already in your medications"
+    )
+  );
+
+  const diagnoses = record.diagnoses.map((data, index) =>
+    planEntry(
+      {
+        key: `diagnosis-${index}`,
+        category: "diagnosis",
+        label: data.name || "Unnamed condition",
+        data,
+      },
+      precheck("diagnosis", data.name),
+      patient.diagnoses.find(
+        (diag) => normalizeName(diag.name) === normalizeName(data.name)
+      ),
+      MERGEABLE_FIELDS.diagnosis,
+      "Already in your diagnoses"
+    )
+  );
+
+  // The same procedure or illness can recur, so history also matches on date
+  const medicalHistory = record.medicalHistory.map((data, index) =>
+    planEntry(
+      {
+        key: `medicalHistory-${index}`,
+        category: "medicalHistory",
+        label: data.name || "Unnamed history item",
+        data,
+      },
+      precheck(`medicalHistory:${data.date}`, data.name),
+      patient.medicalHistory.find(
+        (hist) =>
+          normalizeName(hist.name) === normalizeName(data.name) &&
+          (!hist.date || !data.date || hist.date === data.date)
+      ),
+      MERGEABLE_FIELDS.medicalHistory,
+      "Already in your medical history"
+    )
+  );
+
+  const allergies = record.allergies.map((data, index) =>
+    planEntry(
+      {
+        key: `allergy-${index}`,
+        category: "allergy",
+        label: data.allergen || "Unnamed allergy",
+        data,
+      },
+      precheck("allergy", data.allergen),
+      patient.allergies.find(
+        (allergy) =>
+          normalizeName(allergy.allergen) === normalizeName(data.allergen)
+      ),
+      MERGEABLE_FIELDS.allergy,
+      "Already in your allergies"
+    )
+  );
+
+  return [...medications, ...diagnoses, ...medicalHistory, ...allergies];
+};
+
+/**
+ * Applies the selected import items to a patient record and returns the
+ * updated record together with one change per entry for the change log
+ */
+export const applyImportItems = (
+  patient: Patient,
+  items: ImportItem[]
+): { patient: Patient; changes: ImportChange[] } => {
+  const updated: Patient = { ...patient };
+  const changes: ImportChange[] = [];
+
+  const mergeInto = <T extends { id: string }>(
+    list: T[],
+    item: ImportItem,
+    entityType: ImportChange["entityType"]
+  ): T[] =>
+    list.map((entry) => {
+      if (entry.id !== item.existingId) return entry;
+      const incoming = item.data as Record<string, any>;
+      const merged = { ...entry };
+      for (const field of item.mergedFields || []) {
+        (merged as Record<string, any>)[field] = incoming[field];
+        // Structured values follow the text they were parsed from
+        const linked = LINKED_FIELDS[field];
+        if (linked) (merged as Record<string, any>)[linked] = incoming[linked];
+      }
+      changes.push({
+        entityType,
+        entityId: entry.id,
+        action: "update",
+        before: entry,
+        after: merged,
+      });
+      return merged;
+    });
+
+  const created = (
+    entityType: ImportChange["entityType"],
+    entityId: string,
+    after: ChangeLogState
+  ): ImportChange => ({
+    entityType,
+    entityId,
+    action: "create",
+    before: null,
+    after,
+  });
+
+  for (const item of items) {
+    if (item.action === "skip") continue;
+
+    switch (item.category) {
+      case "medication":
+        if (item.action === "merge") {
+          updated.medications = mergeInto(
+            updated.medications,
+            item,
+            "medication"
+          );
+        } else {
+          const medication: Medication = { ...item.data, id: generateId() };
+          updated.medications = [...updated.medications, medication];
+          changes.push(created("medication", medication.id, medication));
+        }
+        break;
+
+      case "diagnosis":
+        if (item.action === "merge") {
+          updated.diagnoses = mergeInto(updated.diagnoses, item, "diagnosis");
+        } else {
+          const diagnosis: Diagnosis = { ...item.data, id: generateId() };
+          updated.diagnoses = [...updated.diagnoses, diagnosis];
+          changes.push(created("diagnosis", diagnosis.id, diagnosis));
+        }
+        break;
+
+      case "medicalHistory":
+        if (item.action === "merge") {
+          updated.medicalHistory = mergeInto(
+            updated.medicalHistory,
+            item,
+            "medicalHistory"
+          );
+        } else {
+          const history: MedicalHistory = { ...item.data, id: generateId() };
+          updated.medicalHistory = [...updated.medicalHistory, history];
+          changes.push(created("medicalHistory", history.id, history));
+        }
+        break;
+
+      case "allergy":
+        if (item.action === "merge") {
+          updated.allergies = mergeInto(updated.allergies, item, "allergy");
+        } else {
+          const allergy: Allergy = { ...item.data, id: generateId() };
+          updated.allergies = [...updated.allergies, allergy];
+          changes.push(created("allergy", allergy.id, allergy));
+        }
+        break;
+    }
+  }
+
+  return { patient: updated, changes };
+};
@@ -1,12 +1,34 @@
 import axios from "axios";
-import { Symptom, Diagnosis } from "../types";
+import {
+  Symptom,
+  Diagnosis,
+  MedicationIdentity,
+  TherapeuticDuplication,
+  DrugDiseaseConflict,
+  BeersCriteriaFinding,
+  PregnancyLactationFinding,
+  ReproductiveStatus,
+} from "../types";
+import {
+  AdverseEventReport,
+  DrugLabel,
+  OpenFdaResponse,
+} from "../types/openfda";
+import { getDrugInfoProvider, searchTerm } from "./DrugInfoService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+} from "./DrugNormalizationService";
+import { findTherapeuticDuplications } from "./DuplicationService";
+import { checkDrugDiseaseConflicts } from "./DrugDiseaseService";
+import { checkPregnancyLactationSafety } from "./PregnancyLactationService";
+import { checkBeersCriteria } from "./BeersCriteriaService";
+import { findConditionMention } from "../utils/conditions";
 
 // API keys from .env file
-const FDA_API_KEY = process.env.API_KEY || "";
 const HEALTH_DATA_API_KEY = process.env.HEALTH_DATA_API_KEY || "";
 
 // Backup URLs from .env
-const FDA_BACKUP_URL = process.env.FDA_BACKUP_URL || "";
 const CDC_BACKUP_URL = process.env.CDC_BACKUP_URL || "";
 
 // Define interfaces for symptom safety data
@@ -30,32 +52,12 @@ interface DiagnosisSafetyData {
 }
 
 // Base URLs for health data APIs
-const FDA_BASE_URL = "https://api.fda.gov";
 const AHRQ_BASE_URL = "https://data.ahrq.gov/api";
 const CDC_BASE_URL = "https://data.cdc.gov/api";
 const HEALTH_DATA_BASE_URL = "https://healthdata.gov/api";
 const NIH_CLINICAL_TRIALS = "https://clinicaltrials.gov/api";
 const CDC_WONDER_DATABASE = "https://wonder.cdc.gov/controller";
 
-// Utility function to toggle between main and backup URLs
-const getFdaBaseUrl = () => {
-  // If using a mock service or backup URL, return that
-  if (FDA_BACKUP_URL) {
-    console.log("Using FDA backup URL");
-    return FDA_BACKUP_URL;
-  }
-  return FDA_BASE_URL;
-};
-
-// Use direct openFDA URL functions that don't require API keys for low usage
-const getFdaEventUrl = (query: string) => {
-  return `${getFdaBaseUrl()}/drug/event.json?search=${query}&limit=10`;
-};
-
-const getFdaLabelUrl = (query: string) => {
-  return `${getFdaBaseUrl()}/drug/label.json?search=${query}&limit=10`;
-};
-
 const getCdcBaseUrl = () => {
   if (CDC_BACKUP_URL) {
     console.log("Using CDC backup URL");
@@ -317,7 +319,7 @@ const getMockDiagnosisSafetyData = (
 /**
  * Provides sample FDA data responses for when the API fails
  */
-const getSampleFdaEventData = () => {
+const getSampleFdaEventData = (): OpenFdaResponse<AdverseEventReport> => {
   return {
     meta: {
       disclaimer:
@@ -382,7 +384,7 @@ const getSampleFdaEventData = () => {
 /**
  * Provides sample FDA label data when the API fails
  */
-const getSampleFdaLabelData = () => {
+const getSampleFdaLabelData = (): OpenFdaResponse<DrugLabel> => {
   return {
     meta: {
       disclaimer:
@@ -442,12 +444,12 @@ export const fetchSymptomSafetyData = async (
     let fdaData = null;
 
     // Try to fetch from FDA adverse events database for symptom-related events
-    const encodedSymptom = encodeURIComponent(symptomName);
-    const fdaUrl = getFdaEventUrl(
-      `patient.reaction.reactionmeddrapt:"${encodedSymptom}"`
+    const fdaSearch = searchTerm(
+      "patient.reaction.reactionmeddrapt",
+      symptomName
     );
 
-    console.log(`FDA API URL: ${fdaUrl}`);
+    console.log(`FDA search: ${fdaSearch}`);
 
     try {
       // First try symptom-specific endpoint
@@ -466,8 +468,9 @@ export const fetchSymptomSafetyData = async (
       }
 
       // Try FDA API as fallback
-      const fdaResponse = await axios.get(fdaUrl);
-      fdaData = fdaResponse.data;
+      const provider = await getDrugInfoProvider();
+      const fdaResponse = await provider.searchAdverseEvents(fdaSearch);
+      fdaData = { results: fdaResponse.data };
     } catch (fdaError: any) {
       console.error(
         `FDA API error for symptom ${symptomName}:`,
@@ -878,16 +881,14 @@ export const fetchDiagnosisSafetyData = async (
     }
 
     // Try FDA database for diagnosis-related safety information
-    const encodedDiagnosis = encodeURIComponent(diagnosisName);
-    const fdaUrl = getFdaLabelUrl(
-      `indications_and_usage:"${encodedDiagnosis}"`
-    );
+    const fdaSearch = searchTerm("indications_and_usage", diagnosisName);
 
-    console.log(`FDA API URL: ${fdaUrl}`);
+    console.log(`FDA search: ${fdaSearch}`);
 
     try {
-      const fdaResponse = await axios.get(fdaUrl);
-      fdaData = fdaResponse.data;
+      const provider = await getDrugInfoProvider();
+      const fdaResponse = await provider.searchLabels(fdaSearch);
+      fdaData = { results: fdaResponse.data };
     } catch (fdaError: any) {
       console.error(
         `FDA API error for diagnosis ${diagnosisName}:`,
@@ -1346,17 +1347,16 @@ export const evaluateDiagnosticErrorRisk = async (
   try {
     // Try to get data from FDA on diagnostic errors
     console.log("Fetching FDA data on diagnostic errors");
-    const fdaUrl = getFdaEventUrl(
-      "patient.reaction.reactionmeddrapt:misdiagnosis"
-    );
-    console.log(`FDA API URL: ${fdaUrl}`);
+    const fdaSearch = "patient.reaction.reactionmeddrapt:misdiagnosis";
+    console.log(`FDA search: ${fdaSearch}`);
 
     try {
-      const fdaResponse = await axios.get(fdaUrl);
+      const provider = await getDrugInfoProvider();
+      const fdaResponse = await provider.searchAdverseEvents(fdaSearch);
 
-      if (fdaResponse.data && fdaResponse.data.results) {
+      if (fdaResponse.data) {
         // Extract patterns from FDA misdiagnosis data
-        for (const event of fdaResponse.data.results) {
+        for (const event of fdaResponse.data) {
           if (event.patient && event.patient.reaction) {
             for (const reaction of event.patient.reaction) {
               if (
@@ -1430,14 +1430,15 @@ export const evaluateDiagnosticErrorRisk = async (
   // Add FDA-based recommendations
   try {
     console.log("Fetching FDA recommendation data");
-    const fdaRecsUrl = getFdaLabelUrl("patient_medication_information");
-    console.log(`FDA recommendations URL: ${fdaRecsUrl}`);
+    const fdaRecsSearch = "patient_medication_information";
+    console.log(`FDA recommendations search: ${fdaRecsSearch}`);
 
     try {
-      const fdaRecsResponse = await axios.get(fdaRecsUrl);
+      const provider = await getDrugInfoProvider();
+      const fdaRecsResponse = await provider.searchLabels(fdaRecsSearch);
 
-      if (fdaRecsResponse.data && fdaRecsResponse.data.results) {
-        for (const result of fdaRecsResponse.data.results) {
+      if (fdaRecsResponse.data) {
+        for (const result of fdaRecsResponse.data) {
           if (result.patient_medication_information) {
             for (const info of result.patient_medication_information) {
               if (info.toLowerCase().includes("tell your doctor")) {
@@ -1485,7 +1486,12 @@ export const evaluateDiagnosticErrorRisk = async (
  * by checking FDA data for known interactions
  */
 export const analyzeMedicationEffects = async (
-  medications: { id: string; name: string; dosage: string }[],
+  medications: {
+    id: string;
+    name: string;
+    dosage: string;
+    identity?: MedicationIdentity;
+  }[],
   symptoms: { id: string; name: string; severity: number }[],
   diagnoses: { id: string; name: string }[]
 ) => {
@@ -1514,14 +1520,16 @@ export const analyzeMedicationEffects = async (
     try {
       // Fetch FDA data about this medication
       console.log(`Fetching FDA data for medication: ${medication.name}`);
-      const encodedMedName = encodeURIComponent(medication.name);
-      const fdaUrl = getFdaLabelUrl(`openfda.brand_name:"${encodedMedName}"`);
+      const identity = await getMedicationIdentity(medication);
+      const lookupName = getLookupName(identity);
 
-      console.log(`FDA API URL for medication: ${fdaUrl}`);
+      console.log(`FDA label lookup for medication: ${lookupName}`);
 
       let response;
       try {
-        response = await axios.get(fdaUrl);
+        const provider = await getDrugInfoProvider();
+        const label = (await provider.getLabel(lookupName)).data;
+        response = { data: { results: label ? [label] : [] } };
       } catch (error: any) {
         console.log(
           `Error fetching data for ${medication.name}, using sample data:`,
@@ -1578,12 +1586,11 @@ export const analyzeMedicationEffects = async (
 
         // Check for effects on diagnoses
         for (const diagnosis of diagnoses) {
-          // Check if medication is indicated for this diagnosis
+          // Check if medication is indicated for this diagnosis, under any
+          // of the condition's names
           if (drugInfo.indications_and_usage) {
             for (const indication of drugInfo.indications_and_usage) {
-              if (
-                indication.toLowerCase().includes(diagnosis.name.toLowerCase())
-              ) {
+              if (findConditionMention(diagnosis.name, indication)) {
                 medicationDiagnosisEffects.push({
                   medicationName: medication.name,
                   diagnosisName: diagnosis.name,
@@ -1596,46 +1603,6 @@ export const analyzeMedicationEffects = async (
               }
             }
           }
-
-          // Check warnings and contraindications
-          if (drugInfo.contraindications) {
-            for (const contraindication of drugInfo.contraindications) {
-              if (
-                contraindication
-                  .toLowerCase()
-                  .includes(diagnosis.name.toLowerCase())
-              ) {
-                medicationDiagnosisEffects.push({
-                  medicationName: medication.name,
-                  diagnosisName: diagnosis.name,
-                  effect: `${medication.name} may be contraindicated for ${diagnosis.name}`,
-                  recommendation:
-                    "Urgently discuss this medication with your doctor",
-                  severity: "concerning",
-                });
-                break;
-              }
-            }
-          }
-
-          // Check precautions
-          if (drugInfo.precautions) {
-            for (const precaution of drugInfo.precautions) {
-              if (
-                precaution.toLowerCase().includes(diagnosis.name.toLowerCase())
-              ) {
-                medicationDiagnosisEffects.push({
-                  medicationName: medication.name,
-                  diagnosisName: diagnosis.name,
-                  effect: `${medication.name} should be used with caution with ${diagnosis.name}`,
-                  recommendation:
-                    "Discuss potential risks with your healthcare provider",
-                  severity: "neutral",
-                });
-                break;
-              }
-            }
-          }
         }
       } else {
         console.log(`No FDA data found for medication: ${medication.name}`);
@@ -1667,12 +1634,20 @@ export const analyzeMedicationEffects = async (
     );
 
     for (const medication of medications) {
+      // Match on the resolved ingredients as well as the typed name
+      const knownAs = [
+        medication.name,
+        ...(medication.identity?.ingredients || []),
+      ]
+        .join(" ")
+        .toLowerCase();
+
       for (const symptom of symptoms) {
         // Check common medication-symptom relationships
         if (
-          (medication.name.toLowerCase().includes("ibuprofen") ||
-            medication.name.toLowerCase().includes("aspirin") ||
-            medication.name.toLowerCase().includes("naproxen")) &&
+          (knownAs.includes("ibuprofen") ||
+            knownAs.includes("aspirin") ||
+            knownAs.includes("naproxen")) &&
           (symptom.name.toLowerCase().includes("pain") ||
             symptom.name.toLowerCase().includes("headache") ||
             symptom.name.toLowerCase().includes("fever"))
@@ -1688,7 +1663,7 @@ export const analyzeMedicationEffects = async (
 
         // Check for common side effects
         if (
-          medication.name.toLowerCase().includes("antibiotic") &&
+          knownAs.includes("antibiotic") &&
           (symptom.name.toLowerCase().includes("nausea") ||
             symptom.name.toLowerCase().includes("diarrhea"))
         ) {
@@ -1706,7 +1681,7 @@ export const analyzeMedicationEffects = async (
       for (const diagnosis of diagnoses) {
         // Check common medication-diagnosis relationships
         if (
-          medication.name.toLowerCase().includes("statin") &&
+          knownAs.includes("statin") &&
           diagnosis.name.toLowerCase().includes("cholesterol")
         ) {
           medicationDiagnosisEffects.push({
@@ -1720,7 +1695,7 @@ export const analyzeMedicationEffects = async (
         }
 
         if (
-          medication.name.toLowerCase().includes("nsaid") &&
+          knownAs.includes("nsaid") &&
           (diagnosis.name.toLowerCase().includes("ulcer") ||
             diagnosis.name.toLowerCase().includes("bleeding"))
         ) {
@@ -2524,7 +2499,15 @@ export const analyzeHAIRisks = (
 export const getComprehensiveSafetyAnalysis = async (
   symptoms: Symptom[],
   diagnoses: Diagnosis[],
-  medications: { id: string; name: string; dosage: string }[] = []
+  medications: {
+    id: string;
+    name: string;
+    dosage: string;
+    identity?: MedicationIdentity;
+  }[] = [],
+  reproductiveStatus?: ReproductiveStatus,
+  // Patient's age in years; older adults are screened with the Beers Criteria
+  age = NaN
 ) => {
   try {
     console.log("Starting comprehensive safety analysis...");
@@ -2551,12 +2534,22 @@ export const getComprehensiveSafetyAnalysis = async (
       }
     };
 
+    // Symptom checks are skipped when no symptoms are logged; the
+    // medication checks below still run
+    const hasSymptoms = symptoms.length > 0;
+
     // Use Promise.allSettled instead of Promise.all to prevent one failure from causing all to fail
     const [symptomSafetyData, diagnosisSafetyData, diagnosticErrorRisk] =
       await Promise.allSettled([
-        safeApiCall(analyzeSymptomSafety, symptoms),
+        hasSymptoms ? safeApiCall(analyzeSymptomSafety, symptoms) : [],
         safeApiCall(analyzeDiagnosisSafety, diagnoses),
-        safeApiCall(evaluateDiagnosticErrorRisk, [symptoms, diagnoses]),
+        hasSymptoms
+          ? safeApiCall(evaluateDiagnosticErrorRisk, [symptoms, diagnoses])
+          : {
+              riskLevel: "low",
+              potentialConcerns: [],
+              recommendations: [],
+            },
       ]);
 
     // Extract values or provide fallbacks for each result
@@ -2590,6 +2583,10 @@ export const getComprehensiveSafetyAnalysis = async (
       medicationDiagnosisEffects: [],
     };
     let medicationErrorRisks = [];
+    let therapeuticDuplications: TherapeuticDuplication[] = [];
+    let drugDiseaseConflicts: DrugDiseaseConflict[] = [];
+    let pregnancyLactationFindings: PregnancyLactationFinding[] = [];
+    let beersCriteriaFindings: BeersCriteriaFinding[] = [];
     let haiRisks = [];
 
     if (medications.length > 0) {
@@ -2614,6 +2611,46 @@ export const getComprehensiveSafetyAnalysis = async (
         console.error("Error analyzing medication error risks:", error);
         medicationErrorRisks = [];
       }
+
+      try {
+        therapeuticDuplications = await findTherapeuticDuplications(
+          medications
+        );
+      } catch (error) {
+        console.error("Error analyzing therapeutic duplication:", error);
+        therapeuticDuplications = [];
+      }
+
+      try {
+        drugDiseaseConflicts = await checkDrugDiseaseConflicts(
+          medications,
+          diagnoses
+        );
+      } catch (error) {
+        console.error("Error analyzing drug-disease conflicts:", error);
+        drugDiseaseConflicts = [];
+      }
+
+      try {
+        pregnancyLactationFindings = await checkPregnancyLactationSafety(
+          medications,
+          reproductiveStatus
+        );
+      } catch (error) {
+        console.error("Error analyzing pregnancy and lactation safety:", error);
+        pregnancyLactationFindings = [];
+      }
+
+      try {
+        beersCriteriaFindings = await checkBeersCriteria(
+          medications,
+          diagnoses,
+          age
+        );
+      } catch (error) {
+        console.error("Error analyzing Beers Criteria:", error);
+        beersCriteriaFindings = [];
+      }
     }
 
     try {
@@ -2632,6 +2669,10 @@ export const getComprehensiveSafetyAnalysis = async (
       diagnosticErrorRisk: extractedDiagnosticErrorRisk,
       medicationEffects,
       medicationErrorRisks,
+      therapeuticDuplications,
+      drugDiseaseConflicts,
+      pregnancyLactationFindings,
+      beersCriteriaFindings,
       haiRisks,
       status: "success",
     };
@@ -2661,6 +2702,10 @@ export const getComprehensiveSafetyAnalysis = async (
         medicationDiagnosisEffects: [],
       },
       medicationErrorRisks: [],
+      therapeuticDuplications: [],
+      drugDiseaseConflicts: [],
+      pregnancyLactationFindings: [],
+      beersCriteriaFindings: [],
       haiRisks: [],
       status: "partial",
       error: error.message,
@@ -0,0 +1,232 @@
+import { Patient } from "../types";
+import { getEncryptedData, storeEncryptedData } from "./StorageService";
+import { generateId, severityFromScore } from "../utils/helpers";
+import { parseMedicationText } from "../utils/dosage";
+import { inferAllergyCategory } from "../utils/allergies";
+import { normalizeStoredDate } from "../utils/dates";
+
+// Records saved before versioning was introduced are treated as version 1
+const LEGACY_SCHEMA_VERSION = 1;
+
+const QUARANTINE_KEY = "quarantinedPatients";
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: any) => any;
+}
+
+export interface QuarantinedRecord {
+  recordId: string | null;
+  schemaVersion: number | null;
+  quarantinedAt: string;
+  error: string;
+  data: unknown;
+}
+
+/**
+ * Ordered list of migrations. Each one upgrades a record from the previous
+ * version to `version`; append new entries to the end of this list.
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: "Normalize symptom name/description and severity",
+    migrate: (record) => ({
+      ...record,
+      symptoms: (record.symptoms || []).map((symptom: any) => {
+        const label = symptom.name || symptom.description || "";
+        return {
+          ...symptom,
+          name: label,
+          description: symptom.description || label,
+          severity:
+            typeof symptom.severity === "number"
+              ? severityFromScore(symptom.severity)
+              : symptom.severity || "medium",
+        };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: "Parse free-text medication dosage and frequency",
+    migrate: (record) => ({
+      ...record,
+      medications: (record.medications || []).map((medication: any) => ({
+        ...medication,
+        ...parseMedicationText(
+          medication.dosage || "",
+          medication.frequency || ""
+        ),
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: "Convert allergy names to structured allergy records",
+    migrate: (record) => ({
+      ...record,
+      allergies: (record.allergies || []).map((allergy: any) =>
+        typeof allergy === "string"
+          ? {
+              id: generateId(),
+              allergen: allergy,
+              category: inferAllergyCategory(allergy),
+              severity: "unknown",
+              verificationStatus: "unconfirmed",
+            }
+          : allergy
+      ),
+    }),
+  },
+  {
+    version: 5,
+    description: "Store dates as ISO-8601",
+    migrate: (record) => ({
+      ...record,
+      dateOfBirth: normalizeStoredDate(record.dateOfBirth),
+      medications: (record.medications || []).map((medication: any) => ({
+        ...medication,
+        startDate: normalizeStoredDate(medication.startDate),
+        endDate: normalizeStoredDate(medication.endDate),
+      })),
+      symptoms: (record.symptoms || []).map((symptom: any) => ({
+        ...symptom,
+        dateRecorded: normalizeStoredDate(symptom.dateRecorded),
+      })),
+      diagnoses: (record.diagnoses || []).map((diagnosis: any) => ({
+        ...diagnosis,
+        diagnosedDate: normalizeStoredDate(diagnosis.diagnosedDate),
+      })),
+      medicalHistory: (record.medicalHistory || []).map((history: any) => ({
+        ...history,
+        date: normalizeStoredDate(history.date),
+      })),
+      allergies: (record.allergies || []).map((allergy: any) => ({
+        ...allergy,
+        onsetDate: normalizeStoredDate(allergy.onsetDate),
+      })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  migrations[migrations.length - 1]?.version ?? LEGACY_SCHEMA_VERSION;
+
+/**
+ * Checks that a migrated record has the shape the app expects
+ */
+const assertValidPatient = (record: any): void => {
+  if (!record || typeof record !== "object") {
+    throw new Error("Record is not an object");
+  }
+  if (typeof record.id !== "string" || !record.id) {
+    throw new Error("Record is missing an id");
+  }
+  if (typeof record.name !== "string") {
+    throw new Error("Record is missing a name");
+  }
+  for (const field of [
+    "allergies",
+    "medications",
+    "symptoms",
+    "diagnoses",
+    "medicalHistory",
+  ]) {
+    if (!Array.isArray(record[field])) {
+      throw new Error(`Record field "${field}" is not a list`);
+    }
+  }
+};
+
+/**
+ * Runs every pending migration on a single stored record
+ */
+export const migratePatientRecord = (record: any): Patient => {
+  const fromVersion =
+    typeof record?.schemaVersion === "number"
+      ? record.schemaVersion
+      : LEGACY_SCHEMA_VERSION;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Record schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = {
+    // Fill in collections that very old records may not have
+    allergies: [],
+    medications: [],
+    symptoms: [],
+    diagnoses: [],
+    medicalHistory: [],
+    ...record,
+  };
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      migrated = migration.migrate(migrated);
+    } catch (error: any) {
+      throw new Error(
+        `Migration to version ${migration.version} (${migration.description}) failed: ${error.message}`
+      );
+    }
+  }
+
+  assertValidPatient(migrated);
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+/**
+ * Migrates a list of stored records. Records that cannot be migrated are
+ * returned separately so they can be quarantined instead of dropped.
+ */
+export const migratePatientRecords = (
+  records: unknown[]
+): { patients: Patient[]; quarantined: QuarantinedRecord[]; changed: boolean } => {
+  const patients: Patient[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  let changed = false;
+
+  for (const record of records) {
+    const raw = record as any;
+    try {
+      const migrated = migratePatientRecord(raw);
+      if (raw.schemaVersion !== migrated.schemaVersion) changed = true;
+      patients.push(migrated);
+    } catch (error: any) {
+      console.error("Quarantining patient record:", error.message);
+      changed = true;
+      quarantined.push({
+        recordId: typeof raw?.id === "string" ? raw.id : null,
+        schemaVersion:
+          typeof raw?.schemaVersion === "number" ? raw.schemaVersion : null,
+        quarantinedAt: new Date().toISOString(),
+        error: error.message,
+        data: record,
+      });
+    }
+  }
+
+  return { patients, quarantined, changed };
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const stored = await getEncryptedData(QUARANTINE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+/**
+ * Appends records to the quarantine so their data is kept for recovery
+ */
+export const quarantineRecords = async (
+  records: QuarantinedRecord[]
+): Promise<QuarantinedRecord[]> => {
+  const existing = await getQuarantinedRecords();
+  const updated = [...existing, ...records];
+  await storeEncryptedData(QUARANTINE_KEY, JSON.stringify(updated));
+  return updated;
+};
@@ -0,0 +1,227 @@
+import {
+  Medication,
+  PregnancyLactationFinding,
+  ReproductiveStatus,
+} from "../types";
+import { DrugLabel } from "../types/openfda";
+import { getDrugInfoProvider } from "./DrugInfoService";
+import {
+  getLookupName,
+  getMedicationIdentity,
+} from "./DrugNormalizationService";
+import { safeFdaApiCall } from "./FdaService";
+import { findLabelEvidence, formatSectionName } from "../utils/labelEvidence";
+import { gestationalWeek } from "../utils/helpers";
+
+type Concern = PregnancyLactationFinding["concern"];
+type Level = PregnancyLactationFinding["level"];
+
+interface ConcernRules {
+  // Label sections that may discuss the concern, most authoritative first.
+  // Newer labels have "pregnancy" and "lactation"; older ones "nursing
+  // mothers" and, for OTC drugs, "pregnancy or breast feeding".
+  sections: string[];
+  // Words a sentence must contain to be about the concern
+  terms: string[];
+  // Wording that says not to use the drug
+  avoid: RegExp;
+  // Wording that warns of harm
+  harm: RegExp;
+  // e.g. "during pregnancy"
+  context: string;
+}
+
+const SHARED_SECTIONS = [
+  "contraindications",
+  "boxed_warning",
+  "use_in_specific_populations",
+  "warnings_and_cautions",
+  "warnings",
+  "precautions",
+];
+
+const RULES: Record<Concern, ConcernRules> = {
+  pregnancy: {
+    sections: [
+      ...SHARED_SECTIONS.slice(0, 2),
+      "pregnancy",
+      "teratogenic_effects",
+      "pregnancy_or_breast_feeding",
+      ...SHARED_SECTIONS.slice(2),
+    ],
+    terms: [
+      "pregnancy",
+      "pregnant",
+      "fetal",
+      "fetus",
+      "fetotoxic",
+      "teratogenic",
+      "unborn",
+      "embryo fetal",
+      "birth defects",
+      "gestation",
+    ],
+    avoid:
+      /\b(contraindicated|do not use|not to use|should not be (used|taken)|must not be (used|taken)|discontinue|stop (taking|using))\b/i,
+    harm: /\b(fetal harm|fetal toxicity|fetotoxic\w*|teratogen\w*|birth defects|injury and death to the developing fetus|problems in the unborn child|avoid)\b/i,
+    context: "during pregnancy",
+  },
+  lactation: {
+    sections: [
+      ...SHARED_SECTIONS.slice(0, 2),
+      "lactation",
+      "nursing_mothers",
+      "pregnancy_or_breast_feeding",
+      ...SHARED_SECTIONS.slice(2),
+    ],
+    terms: [
+      "breastfeeding",
+      "breast feeding",
+      "breastfed",
+      "breast fed",
+      "nursing mothers",
+      "nursing infant",
+      "lactation",
+      "lactating",
+      "human milk",
+      "breast milk",
+    ],
+    avoid:
+      /\b(contraindicated|do not (use|breast ?feed)|not to (use|breast ?feed)|should not (be used|breast ?feed)|not recommended|discontinue (nursing|breast ?feeding))\b/i,
+    harm: /\b(serious adverse reactions in (the )?(nursing|breast ?fed) infants?|adverse (effects|reactions) in (the )?(nursing|breast ?fed) infants?|caution|avoid)\b/i,
+    context: "while breastfeeding",
+  },
+};
+
+const LEVEL_RANK: Record<Level, number> = {
+  review: 0,
+  warning: 1,
+  contraindicated: 2,
+};
+
+// Week of pregnancy from which a sentence's advice applies, for advice
+// limited to late pregnancy, e.g. "at about 20 weeks gestation or later"
+const appliesFromWeek = (sentence: string): number | null => {
+  if (/\b(last (3|three) months|third trimester)\b/i.test(sentence)) return 28;
+  const weeks = sentence.match(
+    /\b(\d{2}) weeks(?: of)? (?:gestation|pregnancy)\b[^.]*\b(?:or later|and later|onward)/i
+  );
+  return weeks ? Number(weeks[1]) : null;
+};
+
+const describeLevel = (
+  level: Level,
+  medicationName: string,
+  rules: ConcernRules,
+  section: string
+): string => {
+  const source = formatSectionName(section);
+  switch (level) {
+    case "contraindicated":
+      return `The ${medicationName} label says not to use it ${rules.context} (${source}).`;
+    case "warning":
+      return `The ${medicationName} label warns about use ${rules.context} (${source}).`;
+    default:
+      return `The ${medicationName} label has information about use ${rules.context} to go over with your doctor (${source}).`;
+  }
+};
+
+/**
+ * Scans a label for what it says about pregnancy and breastfeeding, for
+ * whichever of the two apply to the patient. Reports at most one finding per
+ * concern: the strongest advice, then the passage from the most
+ * authoritative section. Advice limited to late pregnancy counts only as a
+ * warning before the week it applies from, when the due date is known.
+ */
+export const findLabelPregnancyLactationFindings = (
+  label: DrugLabel,
+  medicationName: string,
+  status: ReproductiveStatus
+): PregnancyLactationFinding[] => {
+  const concerns: Concern[] = [
+    ...(status.pregnant ? ["pregnancy" as const] : []),
+    ...(status.breastfeeding ? ["lactation" as const] : []),
+  ];
+  const week = status.dueDate ? gestationalWeek(status.dueDate) : NaN;
+  const findings: PregnancyLactationFinding[] = [];
+
+  for (const concern of concerns) {
+    const rules = RULES[concern];
+    let best: PregnancyLactationFinding | null = null;
+
+    for (const section of rules.sections) {
+      for (const evidence of findLabelEvidence(label, section, rules.terms)) {
+        const sentence = evidence.passage.slice(
+          evidence.matchStart,
+          evidence.matchEnd
+        );
+        let level: Level =
+          section === "contraindications" || rules.avoid.test(sentence)
+            ? "contraindicated"
+            : section === "boxed_warning" || rules.harm.test(sentence)
+            ? "warning"
+            : "review";
+
+        let message = describeLevel(level, medicationName, rules, section);
+        const fromWeek =
+          concern === "pregnancy" ? appliesFromWeek(sentence) : null;
+        if (fromWeek !== null && level === "contraindicated") {
+          if (week < fromWeek) {
+            level = "warning";
+            message = `The ${medicationName} label says not to use it from week ${fromWeek} of pregnancy; you are in week ${week} (${formatSectionName(
+              section
+            )}).`;
+          } else {
+            message = `The ${medicationName} label says not to use it from week ${fromWeek} of pregnancy (${formatSectionName(
+              section
+            )}).`;
+          }
+        }
+
+        if (best && LEVEL_RANK[best.level] >= LEVEL_RANK[level]) continue;
+        best = { medicationName, concern, level, evidence, message };
+      }
+    }
+    if (best) findings.push(best);
+  }
+
+  return findings;
+};
+
+/**
+ * Checks each medication's label against the patient's pregnancy and
+ * breastfeeding status. A medication whose label can't be fetched is
+ * skipped rather than failing the whole check.
+ */
+export const checkPregnancyLactationSafety = async (
+  medications: Pick<Medication, "name" | "identity">[],
+  status?: ReproductiveStatus
+): Promise<PregnancyLactationFinding[]> => {
+  if (!status || (!status.pregnant && !status.breastfeeding)) return [];
+  if (medications.length === 0) return [];
+
+  try {
+    const provider = await getDrugInfoProvider();
+    const results = await Promise.all(
+      medications
+        .filter((medication) => medication.name.trim())
+        .map(async (medication) => {
+          const identity = await getMedicationIdentity(medication);
+          const label: DrugLabel | null = await safeFdaApiCall(
+            async () => (await provider.getLabel(getLookupName(identity))).data
+          );
+          return label
+            ? findLabelPregnancyLactationFindings(
+                label,
+                medication.name,
+                status
+              )
+            : [];
+        })
+    );
+    return results.flat();
+  } catch (error) {
+    console.error("Error checking pregnancy and lactation safety:", error);
+    throw new Error("Failed to check medications for pregnancy safety");
+  }
+};
@@ -0,0 +1,179 @@
+import { Medication, MedicationIdentity, MedicationRecall } from "../types";
+import { EnforcementReport } from "../types/openfda";
+import { getData, storeData } from "./StorageService";
+import { getDrugInfoProvider, searchTerm } from "./DrugInfoService";
+import { getMedicationIdentity } from "./DrugNormalizationService";
+import { termPattern } from "../utils/labelEvidence";
+import { productNdcCandidates } from "../utils/ndc";
+
+const DISMISSED_RECALLS_KEY = "dismissedRecalls";
+
+// Recalls that are still in effect; completed and terminated ones are left out
+const ACTIVE_RECALL_STATUS = "Ongoing";
+
+type CheckedMedication = Pick<Medication, "id" | "name" | "identity" | "ndc">;
+
+/**
+ * Names a recall of the medication may be listed under. Single-ingredient
+ * products go by ingredient and brand, since generics of the same drug are
+ * recalled under the ingredient; combination products by brand and the
+ * typed name, since their ingredients on their own would match unrelated
+ * products.
+ */
+const recallNames = (
+  medication: CheckedMedication,
+  identity: MedicationIdentity
+): string[] => {
+  const names =
+    identity.source !== "unresolved" && identity.ingredients.length === 1
+      ? [...identity.ingredients, ...identity.brandNames]
+      : [...identity.brandNames, medication.name];
+  return Array.from(
+    new Set(names.map((name) => name.trim().toLowerCase()).filter(Boolean))
+  );
+};
+
+const buildRecallSearch = (names: string[], ndc?: string): string => {
+  const alternatives = names.flatMap((name) => [
+    searchTerm("openfda.generic_name", name),
+    searchTerm("openfda.brand_name", name),
+    searchTerm("product_description", name),
+  ]);
+  if (ndc) {
+    alternatives.push(
+      ...productNdcCandidates(ndc).map((productNdc) =>
+        searchTerm("openfda.product_ndc", productNdc)
+      )
+    );
+  }
+  return `status:"${ACTIVE_RECALL_STATUS}" AND (${alternatives.join(" ")})`;
+};
+
+// How the recall matches the medication, or null when it doesn't
+const matchRecall = (
+  report: EnforcementReport,
+  names: string[],
+  ndc?: string
+): MedicationRecall["matchedBy"] | null => {
+  if (ndc) {
+    // Compared as product NDCs, so a package NDC matches its product's
+    // listing and 11-digit billing codes match the 10-digit form
+    const wanted = new Set(productNdcCandidates(ndc));
+    const listed = [
+      ...(report.openfda?.product_ndc || []),
+      ...(report.product_description.match(/\d{4,5}-\d{3,4}(?:-\d{1,2})?/g) ||
+        []),
+      ...(report.code_info?.match(/\d{4,5}-\d{3,4}(?:-\d{1,2})?/g) || []),
+    ].flatMap(productNdcCandidates);
+    if (listed.some((productNdc) => wanted.has(productNdc))) {
+      return "ndc";
+    }
+  }
+
+  const text = [
+    report.product_description,
+    ...(report.openfda?.generic_name || []),
+    ...(report.openfda?.brand_name || []),
+  ].join(" ");
+  return names.some((name) => termPattern(name).test(text)) ? "name" : null;
+};
+
+// YYYYMMDD to an ISO date
+const recallDate = (value?: string): string | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+const toMedicationRecall = (
+  report: EnforcementReport,
+  medication: CheckedMedication,
+  matchedBy: MedicationRecall["matchedBy"]
+): MedicationRecall => ({
+  recallNumber: report.recall_number,
+  medicationId: medication.id,
+  medicationName: medication.name,
+  classification: report.classification,
+  reason: report.reason_for_recall,
+  productDescription: report.product_description,
+  recallingFirm: report.recalling_firm,
+  codeInfo: report.code_info,
+  status: report.status,
+  initiatedOn: recallDate(report.recall_initiation_date),
+  matchedBy,
+});
+
+/**
+ * Active recalls that may cover a medication, matched by its NDC when it
+ * has one and otherwise by name. NDC matches come first; name matches mean
+ * the patient should check the lot numbers on their package.
+ */
+export const getMedicationRecalls = async (
+  medication: CheckedMedication
+): Promise<MedicationRecall[]> => {
+  if (!medication.name.trim() && !medication.ndc) return [];
+
+  try {
+    const identity = await getMedicationIdentity(medication);
+    const names = recallNames(medication, identity);
+    const provider = await getDrugInfoProvider();
+    const reports = (
+      await provider.searchRecalls(buildRecallSearch(names, medication.ndc), 25)
+    ).data;
+
+    const recalls: MedicationRecall[] = [];
+    for (const report of reports) {
+      if (report.status !== ACTIVE_RECALL_STATUS) continue;
+      const matchedBy = matchRecall(report, names, medication.ndc);
+      if (matchedBy) {
+        recalls.push(toMedicationRecall(report, medication, matchedBy));
+      }
+    }
+    return recalls.sort(
+      (a, b) =>
+        Number(b.matchedBy === "ndc") - Number(a.matchedBy === "ndc") ||
+        (b.initiatedOn || "").localeCompare(a.initiatedOn || "")
+    );
+  } catch (error) {
+    console.error("Error checking medication recalls:", error);
+    throw new Error("Failed to check medication recalls");
+  }
+};
+
+/**
+ * Active recalls for each of the patient's medications. A medication whose
+ * recalls can't be fetched is skipped rather than failing the whole check.
+ */
+export const checkRecalls = async (
+  medications: CheckedMedication[]
+): Promise<MedicationRecall[]> => {
+  const results = await Promise.all(
+    medications.map((medication) =>
+      getMedicationRecalls(medication).catch(() => [] as MedicationRecall[])
+    )
+  );
+  return results.flat();
+};
+
+// Recall numbers each profile has dismissed, by profile ID
+const getAllDismissedRecalls = async (): Promise<Record<string, string[]>> =>
+  (await getData(DISMISSED_RECALLS_KEY)) || {};
+
+export const getDismissedRecalls = async (
+  profileId: string
+): Promise<string[]> => (await getAllDismissedRecalls())[profileId] || [];
+
+/**
+ * Remembers that a profile has seen a recall, so it isn't raised on the
+ * home screen again
+ */
+export const dismissRecall = async (
+  profileId: string,
+  recallNumber: string
+): Promise<string[]> => {
+  const all = await getAllDismissedRecalls();
+  const dismissed = Array.from(
+    new Set([...(all[profileId] || []), recallNumber])
+  );
+  await storeData(DISMISSED_RECALLS_KEY, { ...all, [profileId]: dismissed });
+  return dismissed;
+};
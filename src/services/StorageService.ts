@@ -1,5 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64, encodeUTF8 } from 'tweetnacl-util';
 
 // For non-sensitive data
 export const storeData = async (key: string, value: any): Promise<void> => {
@@ -57,4 +60,142 @@ export const removeSecureData = async (key: string): Promise<void> => {
     console.error('Error removing secure data:', error);
     throw new Error('Failed to remove secure data');
   }
-}; 
\ No newline at end of file
+};
+
+// Encrypted storage for records larger than SecureStore can hold in one value.
+// Data is encrypted with a key kept in SecureStore and the ciphertext is kept
+// in AsyncStorage. Android's AsyncStorage can't read back a value larger than
+// about 2 MB, so the ciphertext is split into chunks of CHUNK_SIZE characters
+// listed by a manifest. A write stores its chunks under a new generation
+// before the manifest points at them, so an interrupted write leaves the
+// previous value readable.
+const ENCRYPTION_KEY_NAME = 'dataEncryptionKey';
+const CHUNK_SIZE = 512 * 1024;
+
+interface EncryptedManifest {
+  generation: string;
+  chunks: number;
+}
+
+const manifestKey = (key: string) => `${key}.encrypted`;
+const chunkKey = (key: string, generation: string, index: number) =>
+  `${key}.encrypted.${generation}.${index}`;
+
+const chunkKeys = (key: string, manifest: EncryptedManifest) =>
+  Array.from({ length: manifest.chunks }, (_, i) =>
+    chunkKey(key, manifest.generation, i)
+  );
+
+// Shared by concurrent callers so the first launch creates a single key
+let encryptionKeyPromise: Promise<Uint8Array> | null = null;
+
+const getEncryptionKey = (): Promise<Uint8Array> => {
+  if (!encryptionKeyPromise) {
+    encryptionKeyPromise = (async () => {
+      const storedKey = await SecureStore.getItemAsync(ENCRYPTION_KEY_NAME);
+      if (storedKey) {
+        return decodeBase64(storedKey);
+      }
+      const newKey = Crypto.getRandomBytes(nacl.secretbox.keyLength);
+      await SecureStore.setItemAsync(ENCRYPTION_KEY_NAME, encodeBase64(newKey));
+      return newKey;
+    })().catch((error) => {
+      // Let the next caller try again rather than caching the failure
+      encryptionKeyPromise = null;
+      throw error;
+    });
+  }
+  return encryptionKeyPromise;
+};
+
+const getManifest = async (key: string): Promise<EncryptedManifest | null> => {
+  const manifest = await AsyncStorage.getItem(manifestKey(key));
+  return manifest ? JSON.parse(manifest) : null;
+};
+
+/**
+ * Encrypts a string with the device data key. The result is a
+ * "nonce:ciphertext" pair, both base64 encoded.
+ */
+export const encryptValue = async (value: string): Promise<string> => {
+  const encryptionKey = await getEncryptionKey();
+  const nonce = Crypto.getRandomBytes(nacl.secretbox.nonceLength);
+  const cipherText = nacl.secretbox(decodeUTF8(value), nonce, encryptionKey);
+  return `${encodeBase64(nonce)}:${encodeBase64(cipherText)}`;
+};
+
+export const decryptValue = async (payload: string): Promise<string> => {
+  const [nonce, cipherText] = payload.split(':');
+  const plainText = nacl.secretbox.open(
+    decodeBase64(cipherText),
+    decodeBase64(nonce),
+    await getEncryptionKey()
+  );
+  if (!plainText) {
+    throw new Error('Encrypted data could not be decrypted');
+  }
+  return encodeUTF8(plainText);
+};
+
+export const storeEncryptedData = async (
+  key: string,
+  value: string
+): Promise<void> => {
+  try {
+    const payload = await encryptValue(value);
+    const previous = await getManifest(key);
+    const manifest: EncryptedManifest = {
+      generation: Crypto.randomUUID(),
+      chunks: Math.ceil(payload.length / CHUNK_SIZE),
+    };
+    await AsyncStorage.multiSet(
+      chunkKeys(key, manifest).map((chunk, i): [string, string] => [
+        chunk,
+        payload.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE),
+      ])
+    );
+    await AsyncStorage.setItem(manifestKey(key), JSON.stringify(manifest));
+    if (previous) {
+      await AsyncStorage.multiRemove(chunkKeys(key, previous));
+    }
+  } catch (error) {
+    console.error('Error storing encrypted data:', error);
+    throw new Error('Failed to store encrypted data');
+  }
+};
+
+export const getEncryptedData = async (key: string): Promise<string | null> => {
+  try {
+    const manifest = await getManifest(key);
+    if (!manifest) return null;
+
+    const chunks = await AsyncStorage.multiGet(chunkKeys(key, manifest));
+    const payload = chunks
+      .map(([, chunk], i) => {
+        if (chunk === null) {
+          throw new Error(`Missing encrypted chunk ${i} of ${manifest.chunks}`);
+        }
+        return chunk;
+      })
+      .join('');
+    return await decryptValue(payload);
+  } catch (error) {
+    console.error('Error retrieving encrypted data:', error);
+    throw new Error('Failed to retrieve encrypted data');
+  }
+};
+
+export const removeEncryptedData = async (key: string): Promise<void> => {
+  try {
+    const manifest = await getManifest(key);
+    if (manifest) {
+      await AsyncStorage.multiRemove([
+        ...chunkKeys(key, manifest),
+        manifestKey(key),
+      ]);
+    }
+  } catch (error) {
+    console.error('Error removing encrypted data:', error);
+    throw new Error('Failed to remove encrypted data');
+  }
+};
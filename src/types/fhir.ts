@@ -0,0 +1,158 @@
+// Subset of the FHIR R4 resource shapes used for import and export.
+// See https://hl7.org/fhir/R4/resourcelist.html for the full definitions.
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+}
+
+export interface FhirDosage {
+  text?: string;
+  timing?: {
+    code?: FhirCodeableConcept;
+    repeat?: {
+      frequency?: number;
+      period?: number;
+      periodUnit?: "h" | "d" | "wk";
+      dayOfWeek?: ("sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat")[];
+    };
+  };
+  asNeededBoolean?: boolean;
+  route?: FhirCodeableConcept;
+  doseAndRate?: { doseQuantity?: FhirQuantity }[];
+}
+
+export interface FhirPatient {
+  resourceType: "Patient";
+  id?: string;
+  name?: { text?: string; given?: string[]; family?: string }[];
+  gender?: "male" | "female" | "other" | "unknown";
+  birthDate?: string;
+}
+
+export interface FhirMedicationStatement {
+  resourceType: "MedicationStatement";
+  id?: string;
+  status:
+    | "active"
+    | "completed"
+    | "entered-in-error"
+    | "intended"
+    | "stopped"
+    | "on-hold"
+    | "unknown"
+    | "not-taken";
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: FhirReference;
+  subject: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  effectiveDateTime?: string;
+  informationSource?: FhirReference;
+  dosage?: FhirDosage[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirObservation {
+  resourceType: "Observation";
+  id?: string;
+  status: "registered" | "preliminary" | "final" | "amended";
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  valueString?: string;
+  interpretation?: FhirCodeableConcept[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirCondition {
+  resourceType: "Condition";
+  id?: string;
+  clinicalStatus?: FhirCodeableConcept;
+  verificationStatus?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  code?: FhirCodeableConcept;
+  subject: FhirReference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  asserter?: FhirReference;
+  note?: FhirAnnotation[];
+}
+
+export interface FhirProcedure {
+  resourceType: "Procedure";
+  id?: string;
+  status:
+    | "preparation"
+    | "in-progress"
+    | "not-done"
+    | "on-hold"
+    | "stopped"
+    | "completed"
+    | "entered-in-error"
+    | "unknown";
+  category?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  subject: FhirReference;
+  performedDateTime?: string;
+  performedPeriod?: FhirPeriod;
+  note?: FhirAnnotation[];
+}
+
+export interface FhirAllergyIntolerance {
+  resourceType: "AllergyIntolerance";
+  id?: string;
+  clinicalStatus?: FhirCodeableConcept;
+  verificationStatus?: FhirCodeableConcept;
+  category?: ("food" | "medication" | "environment" | "biologic")[];
+  criticality?: "low" | "high" | "unable-to-assess";
+  code?: FhirCodeableConcept;
+  patient: FhirReference;
+  onsetDateTime?: string;
+  reaction?: {
+    manifestation: FhirCodeableConcept[];
+    severity?: "mild" | "moderate" | "severe";
+  }[];
+  note?: FhirAnnotation[];
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirMedicationStatement
+  | FhirObservation
+  | FhirCondition
+  | FhirProcedure
+  | FhirAllergyIntolerance;
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id?: string;
+  type: "collection" | "document" | "searchset" | "transaction" | "batch";
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource: FhirResource }[];
+}
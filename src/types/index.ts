@@ -1,17 +1,49 @@
+export interface MedicationDose {
+  amount: number | null; // Null when the free-text dosage could not be parsed
+  unit: string; // e.g. "mg", "mcg", "mL", "tablet"
+  form?: string; // e.g. "tablet", "liquid", "inhaler"
+  route?: string; // e.g. "oral", "topical", "inhaled"
+}
+
+export interface MedicationSchedule {
+  timesPerDay: number | null; // Doses on each dosing day; the maximum for PRN
+  intervalHours: number | null; // Set for "every N hours" schedules
+  asNeeded: boolean;
+  daysOfWeek: number[] | null; // 0 = Sunday; null means every day
+}
+
 export interface Medication {
   id: string;
   name: string;
-  dosage: string;
-  frequency: string;
+  dosage: string; // Display text, kept in sync with `dose`
+  frequency: string; // Display text, kept in sync with `schedule`
+  dose: MedicationDose;
+  schedule: MedicationSchedule;
   startDate: string;
   endDate?: string;
   prescribedBy?: string;
   notes?: string;
+  identity?: MedicationIdentity;
+  // National Drug Code of the product, as on the package
+  ndc?: string;
+}
+
+// What a medication name was resolved to, so checks compare ingredients
+// rather than whatever the user typed
+export interface MedicationIdentity {
+  // Generic active ingredients, lowercase
+  ingredients: string[];
+  brandNames: string[];
+  rxcui?: string;
+  source: "table" | "rxnorm" | "label" | "ndc" | "unresolved";
+  // The medication name this was resolved from. A different name means the
+  // identity is out of date.
+  resolvedFrom: string;
 }
 
 export interface Symptom {
   id: string;
-  name?: string;
+  name: string;
   description: string;
   severity: "low" | "medium" | "high";
   dateRecorded: string;
@@ -35,32 +67,230 @@ export interface MedicalHistory {
   notes?: string;
 }
 
+export interface Allergy {
+  id: string;
+  allergen: string;
+  category: "drug" | "food" | "environment" | "excipient";
+  reaction?: string; // e.g. "Hives", "Anaphylaxis"
+  severity: "mild" | "moderate" | "severe" | "unknown";
+  onsetDate?: string;
+  verificationStatus: "unconfirmed" | "confirmed" | "refuted";
+  notes?: string;
+}
+
 export interface Patient {
   id: string;
+  schemaVersion: number;
   name: string;
   dateOfBirth: string;
   gender: string;
-  allergies: string[];
+  allergies: Allergy[];
   medications: Medication[];
   symptoms: Symptom[];
   diagnoses: Diagnosis[];
   medicalHistory: MedicalHistory[];
+  // Unset until the patient records it on their profile
+  reproductiveStatus?: ReproductiveStatus;
+}
+
+export interface ReproductiveStatus {
+  pregnant: boolean;
+  // ISO date, when pregnant and known
+  dueDate?: string;
+  breastfeeding: boolean;
 }
 
 export interface MedicationInteraction {
   drug1: string;
   drug2: string;
   severity: "minor" | "moderate" | "major";
+  // 0-1: how clearly the label text supports the severity
+  severityConfidence?: number;
   description: string;
   simplifiedExplanation: string; // Simple explanation for laypeople
   possibleEffects: string[]; // Potential effects that may occur
   recommendations: string[]; // Simple recommendations for the patient
   source?: string; // The source of the interaction data
+  // Active ingredients of drug1 and drug2 the interaction was found between
+  ingredient1?: string;
+  ingredient2?: string;
+  // Label passages the interaction was found in
+  evidence?: LabelEvidence[];
+}
+
+// A sentence in an FDA label that a finding is based on
+export interface LabelEvidence {
+  // Medication the label is for
+  drugName: string;
+  labelId?: string;
+  setId?: string;
+  version?: string;
+  // ISO date the label version took effect
+  effectiveDate?: string;
+  // Label field the passage is from, e.g. "drug_interactions"
+  section: string;
+  // The text block containing the match, and the matched sentence's
+  // character range within it
+  passage: string;
+  matchStart: number;
+  matchEnd: number;
+}
+
+export interface AllergyConflict {
+  medicationName: string;
+  allergyId: string;
+  allergen: string;
+  // "ingredient" when the medication contains the allergen itself, "class"
+  // when it belongs to the same drug class
+  matchType: "ingredient" | "class";
+  matchedIngredient?: string;
+  drugClass?: string;
+  severity: "low" | "medium" | "high";
+  message: string;
+}
+
+// A medication whose label warns against it for one of the patient's
+// conditions
+export interface DrugDiseaseConflict {
+  medicationName: string;
+  diagnosisId: string;
+  diagnosisName: string;
+  // Name the condition appears under in the label, e.g. "hypertension" for
+  // a recorded "high blood pressure"
+  matchedTerm: string;
+  // "absolute" when the label says not to use the medication with the
+  // condition, "relative" when it says to use it with caution
+  classification: "absolute" | "relative";
+  evidence: LabelEvidence;
+  message: string;
+}
+
+// A medication whose label advises against or warns about use during
+// pregnancy or breastfeeding
+export interface PregnancyLactationFinding {
+  medicationName: string;
+  concern: "pregnancy" | "lactation";
+  // "contraindicated" when the label says not to use it, "warning" when it
+  // warns of harm, "review" when it has information to go over with a doctor
+  level: "contraindicated" | "warning" | "review";
+  evidence: LabelEvidence;
+  message: string;
+}
+
+// A medication the AGS Beers Criteria advise older adults to avoid or to
+// take with care
+export interface BeersCriteriaFinding {
+  medicationName: string;
+  // The ingredient the criterion names
+  ingredient: string;
+  // e.g. "First-generation antihistamines"
+  drugGroup: string;
+  // "medication" for medications to avoid in most older adults, "condition"
+  // for ones to avoid with a recorded condition, "kidney" for ones whose use
+  // depends on kidney function
+  criterion: "medication" | "condition" | "kidney";
+  // The recorded condition the finding depends on
+  diagnosisName?: string;
+  recommendation: "avoid" | "caution" | "adjust dose";
+  rationale: string;
+  message: string;
 }
 
+// A reaction reported to FAERS for a medication
+export interface ReportedReaction {
+  // MedDRA preferred term, e.g. "Myalgia"
+  reaction: string;
+  count: number;
+  // Share of all the reports that list it, 0-1
+  share: number;
+  // Name of the patient's logged symptom it matches, if any
+  loggedSymptom?: string;
+}
+
+// FAERS adverse event reports for one medication, from openFDA counts
+export interface AdverseEventSummary {
+  medicationName: string;
+  // All reports naming the medication
+  reportCount: number;
+  seriousCount: number;
+  // seriousCount / reportCount, 0-1
+  seriousShare: number;
+  topReactions: ReportedReaction[];
+  // Reports by year received, oldest first
+  byYear: { year: number; count: number; seriousCount: number }[];
+}
+
+// An active FDA recall that may cover one of the patient's medications
+export interface MedicationRecall {
+  recallNumber: string;
+  medicationId: string;
+  medicationName: string;
+  // "Class I" (most serious) to "Class III"
+  classification: string;
+  reason: string;
+  productDescription: string;
+  recallingFirm?: string;
+  // Lot numbers and expiry dates of the recalled product
+  codeInfo?: string;
+  status: string;
+  // ISO date the recall was started
+  initiatedOn?: string;
+  // "ndc" when the recall lists the medication's NDC, "name" when only the
+  // drug name matches and the package needs checking
+  matchedBy: "ndc" | "name";
+}
+
+// Two or more medications that contain the same active ingredient or belong
+// to the same pharmacologic class
+export interface TherapeuticDuplication {
+  matchType: "ingredient" | "class";
+  // The shared ingredient, or the shared class without its "[EPC]" suffix
+  shared: string;
+  medicationNames: string[];
+  severity: "medium" | "high";
+  message: string;
+}
+
+export type ChangeEntityType =
+  | "profile"
+  | "medication"
+  | "symptom"
+  | "diagnosis"
+  | "medicalHistory"
+  | "allergy";
+
+// Logged state of an entity: a whole record, the profile fields a change
+// touched, or an allergy name from before allergies had ids
+export type ChangeLogState =
+  | Partial<Patient>
+  | Medication
+  | Symptom
+  | Diagnosis
+  | MedicalHistory
+  | Allergy
+  | string
+  | null;
+
+export interface ChangeLogEntry {
+  id: string;
+  timestamp: string;
+  profileId: string;
+  changedBy?: string; // Caregiver using the device when the change was made
+  entityType: ChangeEntityType;
+  entityId: string;
+  action: "create" | "update" | "delete" | "undo";
+  before: ChangeLogState; // Entity state before the change, null when created
+  after: ChangeLogState; // Entity state after the change, null when deleted
+  undoneEntryId?: string; // Set on "undo" entries
+}
+
+// Order in which users type dates; dates are always stored as ISO-8601
+export type DateFormat = "MM/DD/YYYY" | "DD/MM/YYYY";
+
 export type RootStackParamList = {
   Home: undefined;
-  Profile: undefined;
+  Profile: { newProfile?: boolean } | undefined;
+  Profiles: undefined;
   Medications: undefined;
   AddMedication: { medicationId?: string } | undefined;
   MedicationDetail: { medicationId: string };
@@ -71,4 +301,11 @@ export type RootStackParamList = {
   MedicalHistory: undefined;
   AddMedicalHistory: undefined;
   Analysis: undefined;
+  ChangeHistory:
+    | { entityType?: ChangeEntityType; entityId?: string; title?: string }
+    | undefined;
+  ImportRecord: undefined;
+  LabelEvidence: { evidence: LabelEvidence[]; title?: string };
+  LabelBrowser: { medicationId: string };
+  Settings: undefined;
 };
@@ -0,0 +1,115 @@
+// Subset of the openFDA drug endpoint response shapes used by the app.
+// See https://open.fda.gov/apis/drug/ for the full field references.
+
+export interface OpenFdaResponse<T> {
+  meta?: {
+    disclaimer?: string;
+    license?: string;
+    last_updated?: string;
+    results?: { skip: number; limit: number; total: number };
+  };
+  results: T[];
+}
+
+// One bucket of a `count=` query: `term` for a field's values, `time` (as
+// "YYYYMMDD") for a date field
+export interface OpenFdaCount {
+  term?: string;
+  time?: string;
+  count: number;
+}
+
+export interface OpenFdaFields {
+  brand_name?: string[];
+  generic_name?: string[];
+  substance_name?: string[];
+  manufacturer_name?: string[];
+  product_type?: string[];
+  route?: string[];
+  rxcui?: string[];
+  product_ndc?: string[];
+  pharm_class_epc?: string[];
+}
+
+// A structured product label from drug/label.json. Each section is a list of
+// text blocks.
+export interface DrugLabel {
+  id?: string;
+  set_id?: string;
+  version?: string;
+  effective_time?: string;
+  openfda: OpenFdaFields;
+  boxed_warning?: string[];
+  indications_and_usage?: string[];
+  dosage_and_administration?: string[];
+  contraindications?: string[];
+  warnings?: string[];
+  warnings_and_cautions?: string[];
+  precautions?: string[];
+  drug_interactions?: string[];
+  adverse_reactions?: string[];
+  pregnancy?: string[];
+  lactation?: string[];
+  // Older labels' equivalent of lactation
+  nursing_mothers?: string[];
+  // OTC labels combine both
+  pregnancy_or_breast_feeding?: string[];
+  patient_medication_information?: string[];
+  [section: string]: unknown;
+}
+
+// An individual safety report from drug/event.json (FAERS)
+export interface AdverseEventReport {
+  safetyreportid?: string;
+  receivedate?: string;
+  serious?: string;
+  patient: {
+    reaction?: {
+      reactionmeddrapt: string;
+      reactionoutcome?: string;
+    }[];
+    drug?: {
+      medicinalproduct?: string;
+      drugindication?: string;
+      openfda?: OpenFdaFields;
+    }[];
+  };
+}
+
+// A product from drug/ndc.json, the National Drug Code directory
+export interface NdcProduct {
+  // "labeler-product", e.g. "0069-0150"
+  product_ndc: string;
+  product_type?: string;
+  brand_name?: string;
+  generic_name?: string;
+  labeler_name?: string;
+  // e.g. "TABLET, FILM COATED"
+  dosage_form?: string;
+  route?: string[];
+  // Strength per unit of the dosage form, e.g. "40 mg/1" or "100 mg/5mL"
+  active_ingredients?: { name: string; strength?: string }[];
+  packaging?: { package_ndc: string; description?: string }[];
+  openfda?: OpenFdaFields;
+}
+
+// A recall from drug/enforcement.json
+export interface EnforcementReport {
+  recall_number: string;
+  // "Ongoing", "Pending", "Completed" or "Terminated"
+  status: string;
+  // "Class I" (most serious) to "Class III"
+  classification: string;
+  product_description: string;
+  reason_for_recall: string;
+  recalling_firm?: string;
+  // Lot numbers and expiry dates of the recalled product
+  code_info?: string;
+  product_quantity?: string;
+  distribution_pattern?: string;
+  voluntary_mandated?: string;
+  // YYYYMMDD
+  recall_initiation_date?: string;
+  report_date?: string;
+  openfda?: OpenFdaFields;
+}
@@ -0,0 +1,43 @@
+import { Allergy } from "../types";
+
+export const ALLERGY_CATEGORIES: Allergy["category"][] = [
+  "drug",
+  "food",
+  "environment",
+  "excipient",
+];
+
+export const ALLERGY_SEVERITIES: Allergy["severity"][] = [
+  "mild",
+  "moderate",
+  "severe",
+  "unknown",
+];
+
+export const ALLERGY_VERIFICATION_STATUSES: Allergy["verificationStatus"][] = [
+  "unconfirmed",
+  "confirmed",
+  "refuted",
+];
+
+const CATEGORY_KEYWORDS: [RegExp, Allergy["category"]][] = [
+  [
+    /\b(peanuts?|tree nuts?|nuts?|almonds?|walnuts?|cashews?|milk|dairy|eggs?|wheat|soy|fish|shellfish|shrimp|crab|lobster|sesame|strawberr(y|ies))\b/i,
+    "food",
+  ],
+  [
+    /\b(pollen|grass|ragweed|dust|mites?|mold|mould|dander|cats?|dogs?|bees?|wasps?|stings?|latex|nickel|hay fever)\b/i,
+    "environment",
+  ],
+  [
+    /\b(lactose|gelatin|dyes?|tartrazine|sulfites?|sulphites?|polyethylene glycol|peg|parabens?|propylene glycol|excipients?)\b/i,
+    "excipient",
+  ],
+];
+
+/**
+ * Best guess at an allergy's category from the allergen name. Anything that
+ * is not a known food, environmental or excipient allergen is treated as a drug.
+ */
+export const inferAllergyCategory = (allergen: string): Allergy["category"] =>
+  CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(allergen))?.[1] || "drug";
@@ -0,0 +1,741 @@
+// Offline rules from the American Geriatrics Society (AGS) Beers Criteria
+// for potentially inappropriate medication use in adults 65 and older.
+// Ingredients are lowercase generic names, as in medication identities.
+
+export const BEERS_MINIMUM_AGE = 65;
+
+// Medications to avoid in most older adults
+export interface BeersMedicationRule {
+  group: string;
+  ingredients: string[];
+  recommendation: "avoid" | "caution";
+  // Limits the advice, e.g. "as a first-line treatment for high blood
+  // pressure"
+  when?: string;
+  rationale: string;
+}
+
+// Medications to avoid in older adults with a condition
+export interface BeersConditionRule {
+  // Names the condition is recorded under, matched with the condition
+  // synonym dictionary
+  conditions: string[];
+  // How the advice refers to the condition, e.g. "a history of falls"
+  conditionLabel: string;
+  group: string;
+  ingredients: string[];
+  rationale: string;
+}
+
+// Medications to avoid or dose differently when kidney function is reduced
+export interface BeersKidneyRule {
+  group: string;
+  ingredients: string[];
+  recommendation: "avoid" | "adjust dose";
+  // Creatinine clearance, in mL/min, below which the advice applies
+  creatinineClearanceBelow: number;
+  rationale: string;
+}
+
+const FIRST_GENERATION_ANTIHISTAMINES = [
+  "brompheniramine",
+  "carbinoxamine",
+  "chlorpheniramine",
+  "clemastine",
+  "cyproheptadine",
+  "dexbrompheniramine",
+  "dexchlorpheniramine",
+  "dimenhydrinate",
+  "diphenhydramine",
+  "doxylamine",
+  "hydroxyzine",
+  "meclizine",
+  "promethazine",
+  "pyrilamine",
+  "triprolidine",
+];
+
+const ANTISPASMODICS = [
+  "atropine",
+  "belladonna alkaloids",
+  "clidinium",
+  "dicyclomine",
+  "hyoscyamine",
+  "methscopolamine",
+  "propantheline",
+  "scopolamine",
+];
+
+// Antimuscarinics for overactive bladder
+const BLADDER_ANTIMUSCARINICS = [
+  "darifenacin",
+  "fesoterodine",
+  "flavoxate",
+  "oxybutynin",
+  "solifenacin",
+  "tolterodine",
+  "trospium",
+];
+
+// Tertiary tricyclic antidepressants and paroxetine
+const ANTICHOLINERGIC_ANTIDEPRESSANTS = [
+  "amitriptyline",
+  "amoxapine",
+  "clomipramine",
+  "desipramine",
+  "doxepin",
+  "imipramine",
+  "nortriptyline",
+  "paroxetine",
+  "protriptyline",
+  "trimipramine",
+];
+
+const ANTIPSYCHOTICS = [
+  "aripiprazole",
+  "asenapine",
+  "brexpiprazole",
+  "cariprazine",
+  "chlorpromazine",
+  "clozapine",
+  "fluphenazine",
+  "haloperidol",
+  "loxapine",
+  "lurasidone",
+  "olanzapine",
+  "paliperidone",
+  "perphenazine",
+  "pimozide",
+  "quetiapine",
+  "risperidone",
+  "thioridazine",
+  "thiothixene",
+  "trifluoperazine",
+  "ziprasidone",
+];
+
+const BENZODIAZEPINES = [
+  "alprazolam",
+  "chlordiazepoxide",
+  "clobazam",
+  "clonazepam",
+  "clorazepate",
+  "diazepam",
+  "estazolam",
+  "flurazepam",
+  "lorazepam",
+  "midazolam",
+  "oxazepam",
+  "quazepam",
+  "temazepam",
+  "triazolam",
+];
+
+// Nonbenzodiazepine sleep medications ("Z-drugs")
+const Z_DRUGS = ["eszopiclone", "zaleplon", "zolpidem"];
+
+const SKELETAL_MUSCLE_RELAXANTS = [
+  "carisoprodol",
+  "chlorzoxazone",
+  "cyclobenzaprine",
+  "metaxalone",
+  "methocarbamol",
+  "orphenadrine",
+];
+
+// Strongly anticholinergic medications
+const ANTICHOLINERGICS = [
+  ...FIRST_GENERATION_ANTIHISTAMINES,
+  ...ANTISPASMODICS,
+  ...BLADDER_ANTIMUSCARINICS,
+  ...ANTICHOLINERGIC_ANTIDEPRESSANTS,
+  "benztropine",
+  "trihexyphenidyl",
+  "chlorpromazine",
+  "clozapine",
+  "olanzapine",
+  "perphenazine",
+  "thioridazine",
+  "cyclobenzaprine",
+  "orphenadrine",
+];
+
+// Nonselective NSAIDs taken by mouth
+const NSAIDS = [
+  "diclofenac",
+  "diflunisal",
+  "etodolac",
+  "fenoprofen",
+  "flurbiprofen",
+  "ibuprofen",
+  "indomethacin",
+  "ketoprofen",
+  "ketorolac",
+  "meclofenamate",
+  "mefenamic acid",
+  "meloxicam",
+  "nabumetone",
+  "naproxen",
+  "oxaprozin",
+  "piroxicam",
+  "sulindac",
+  "tolmetin",
+];
+
+// NSAIDs with the highest risk, advised against separately
+const HIGHEST_RISK_NSAIDS = ["indomethacin", "ketorolac"];
+
+const ANTIEPILEPTICS = [
+  "carbamazepine",
+  "gabapentin",
+  "lacosamide",
+  "lamotrigine",
+  "levetiracetam",
+  "oxcarbazepine",
+  "phenytoin",
+  "pregabalin",
+  "topiramate",
+  "valproate",
+  "valproic acid",
+];
+
+const ANTIDEPRESSANTS = [
+  ...ANTICHOLINERGIC_ANTIDEPRESSANTS,
+  "citalopram",
+  "desvenlafaxine",
+  "duloxetine",
+  "escitalopram",
+  "fluoxetine",
+  "levomilnacipran",
+  "milnacipran",
+  "sertraline",
+  "venlafaxine",
+];
+
+const OPIOIDS = [
+  "buprenorphine",
+  "codeine",
+  "fentanyl",
+  "hydrocodone",
+  "hydromorphone",
+  "meperidine",
+  "methadone",
+  "morphine",
+  "oxycodone",
+  "oxymorphone",
+  "tapentadol",
+  "tramadol",
+];
+
+const ALPHA_1_BLOCKERS = ["doxazosin", "prazosin", "terazosin"];
+
+const CHOLINESTERASE_INHIBITORS = ["donepezil", "galantamine", "rivastigmine"];
+
+export const BEERS_MEDICATION_RULES: BeersMedicationRule[] = [
+  {
+    group: "First-generation antihistamines",
+    ingredients: FIRST_GENERATION_ANTIHISTAMINES,
+    recommendation: "avoid",
+    rationale:
+      "Highly anticholinergic, and cleared more slowly with age, so confusion, dry mouth, constipation and other anticholinergic effects are more likely.",
+  },
+  {
+    group: "Antispasmodics",
+    ingredients: ANTISPASMODICS,
+    recommendation: "avoid",
+    rationale:
+      "Highly anticholinergic, and of uncertain benefit for the conditions they are used for.",
+  },
+  {
+    group: "Aspirin",
+    ingredients: ["aspirin"],
+    recommendation: "caution",
+    when: "to prevent a first heart attack or stroke",
+    rationale:
+      "The risk of major bleeding from aspirin rises with age, and for people without heart disease it outweighs the benefit.",
+  },
+  {
+    group: "Warfarin",
+    ingredients: ["warfarin"],
+    recommendation: "caution",
+    when: "as a first choice for atrial fibrillation or blood clots",
+    rationale:
+      "Warfarin carries a higher risk of major bleeding and bleeding in the brain than newer anticoagulants such as apixaban.",
+  },
+  {
+    group: "Rivaroxaban",
+    ingredients: ["rivaroxaban"],
+    recommendation: "caution",
+    when: "for long-term treatment of atrial fibrillation or blood clots",
+    rationale:
+      "Rivaroxaban has a higher risk of major and stomach bleeding in older adults than other anticoagulants such as apixaban.",
+  },
+  {
+    group: "Dipyridamole",
+    ingredients: ["dipyridamole"],
+    recommendation: "avoid",
+    rationale:
+      "Can cause a drop in blood pressure on standing; more effective alternatives are available.",
+  },
+  {
+    group: "Alpha-1 blockers",
+    ingredients: ALPHA_1_BLOCKERS,
+    recommendation: "avoid",
+    when: "as a treatment for high blood pressure",
+    rationale:
+      "High risk of a drop in blood pressure on standing and of falls; other blood pressure medications work better.",
+  },
+  {
+    group: "Central alpha-agonists",
+    ingredients: ["clonidine", "guanfacine", "methyldopa"],
+    recommendation: "avoid",
+    when: "as a first choice for high blood pressure",
+    rationale:
+      "High risk of drowsiness, confusion, a slow heart rate and a drop in blood pressure on standing.",
+  },
+  {
+    group: "Digoxin",
+    ingredients: ["digoxin"],
+    recommendation: "caution",
+    when:
+      "as a first choice for atrial fibrillation or heart failure, or at more than 0.125 mg a day",
+    rationale:
+      "Reduced kidney function raises digoxin levels and the risk of toxicity; other medications control heart rate and symptoms with less risk.",
+  },
+  {
+    group: "Amiodarone",
+    ingredients: ["amiodarone"],
+    recommendation: "caution",
+    when: "as a first choice for atrial fibrillation",
+    rationale:
+      "Amiodarone has more serious side effects, on the thyroid, lungs and liver, than other heart rhythm medications.",
+  },
+  {
+    group: "Antidepressants with strong anticholinergic effects",
+    ingredients: ANTICHOLINERGIC_ANTIDEPRESSANTS,
+    recommendation: "avoid",
+    rationale:
+      "Highly anticholinergic and sedating, and can cause a drop in blood pressure on standing.",
+  },
+  {
+    group: "Antipsychotics",
+    ingredients: ANTIPSYCHOTICS,
+    recommendation: "avoid",
+    when:
+      "unless for schizophrenia, bipolar disorder or another condition they are approved for",
+    rationale:
+      "Increase the risk of stroke, and of faster cognitive decline and death in people with dementia.",
+  },
+  {
+    group: "Barbiturates",
+    ingredients: ["butalbital", "phenobarbital", "secobarbital"],
+    recommendation: "avoid",
+    rationale:
+      "High rate of physical dependence, tolerance to their effect on sleep, and risk of overdose at low doses.",
+  },
+  {
+    group: "Benzodiazepines",
+    ingredients: BENZODIAZEPINES,
+    recommendation: "avoid",
+    rationale:
+      "Older adults are more sensitive to benzodiazepines and clear them more slowly, raising the risk of confusion, delirium, falls, fractures and car crashes.",
+  },
+  {
+    group: "Sleep medications (Z-drugs)",
+    ingredients: Z_DRUGS,
+    recommendation: "avoid",
+    rationale:
+      "They carry the same risks as benzodiazepines, including delirium, falls, fractures and car crashes, for little improvement in sleep.",
+  },
+  {
+    group: "Androgens",
+    ingredients: ["methyltestosterone", "testosterone"],
+    recommendation: "avoid",
+    when: "unless for confirmed low testosterone with symptoms",
+    rationale:
+      "Can cause heart problems and should not be used with prostate cancer.",
+  },
+  {
+    group: "Estrogens",
+    ingredients: [
+      "conjugated estrogens",
+      "esterified estrogens",
+      "estradiol",
+      "estropipate",
+    ],
+    recommendation: "caution",
+    when: "as tablets or patches; low-dose vaginal estrogen is acceptable",
+    rationale:
+      "Raise the risk of breast and endometrial cancer, with no protective effect on the heart or memory in older women.",
+  },
+  {
+    group: "Sulfonylureas",
+    ingredients: [
+      "chlorpropamide",
+      "glimepiride",
+      "glipizide",
+      "glyburide",
+      "tolazamide",
+      "tolbutamide",
+    ],
+    recommendation: "avoid",
+    when: "as a first or second choice for diabetes",
+    rationale:
+      "Higher risk of heart problems, death and long-lasting low blood sugar than other diabetes medications.",
+  },
+  {
+    group: "Desiccated thyroid",
+    ingredients: ["thyroid"],
+    recommendation: "avoid",
+    rationale: "Concerns about effects on the heart; safer alternatives exist.",
+  },
+  {
+    group: "Megestrol",
+    ingredients: ["megestrol"],
+    recommendation: "avoid",
+    rationale:
+      "Little effect on weight, and raises the risk of blood clots and possibly death.",
+  },
+  {
+    group: "Metoclopramide",
+    ingredients: ["metoclopramide"],
+    recommendation: "avoid",
+    when: "unless for gastroparesis, for no longer than 12 weeks",
+    rationale:
+      "Can cause movement disorders, including tardive dyskinesia; frail older adults are at greater risk.",
+  },
+  {
+    group: "Mineral oil",
+    ingredients: ["mineral oil"],
+    recommendation: "avoid",
+    when: "taken by mouth",
+    rationale: "Can be breathed into the lungs; safer laxatives exist.",
+  },
+  {
+    group: "Proton pump inhibitors",
+    ingredients: [
+      "dexlansoprazole",
+      "esomeprazole",
+      "lansoprazole",
+      "omeprazole",
+      "pantoprazole",
+      "rabeprazole",
+    ],
+    recommendation: "caution",
+    when: "for more than 8 weeks, unless there is a clear reason to continue",
+    rationale:
+      "Long-term use raises the risk of C. difficile infection, pneumonia, bone loss and fractures.",
+  },
+  {
+    group: "Meperidine",
+    ingredients: ["meperidine"],
+    recommendation: "avoid",
+    rationale:
+      "Not effective by mouth at usual doses, and more likely than other opioids to cause confusion and delirium.",
+  },
+  {
+    group: "NSAIDs",
+    ingredients: NSAIDS.filter(
+      (ingredient) => !HIGHEST_RISK_NSAIDS.includes(ingredient)
+    ),
+    recommendation: "avoid",
+    when:
+      "for long periods, unless alternatives don't work and a stomach-protecting medication is also taken",
+    rationale:
+      "Raise the risk of stomach bleeding and ulcers, especially after 75, and can raise blood pressure and harm the kidneys.",
+  },
+  {
+    group: "Indomethacin and ketorolac",
+    ingredients: HIGHEST_RISK_NSAIDS,
+    recommendation: "avoid",
+    rationale:
+      "The highest risk of stomach bleeding, ulcers and kidney injury of all NSAIDs.",
+  },
+  {
+    group: "Skeletal muscle relaxants",
+    ingredients: SKELETAL_MUSCLE_RELAXANTS,
+    recommendation: "avoid",
+    rationale:
+      "Poorly tolerated because of anticholinergic effects, drowsiness and a higher risk of fractures, and of doubtful benefit at doses older adults tolerate.",
+  },
+  {
+    group: "Desmopressin",
+    ingredients: ["desmopressin"],
+    recommendation: "avoid",
+    when: "for waking at night to urinate",
+    rationale: "High risk of low blood sodium; safer treatments exist.",
+  },
+];
+
+export const BEERS_CONDITION_RULES: BeersConditionRule[] = [
+  {
+    conditions: ["heart failure"],
+    conditionLabel: "heart failure",
+    group: "Medications that worsen heart failure",
+    ingredients: [
+      ...NSAIDS,
+      "celecoxib",
+      "cilostazol",
+      "diltiazem",
+      "dronedarone",
+      "pioglitazone",
+      "rosiglitazone",
+      "verapamil",
+    ],
+    rationale:
+      "Can cause fluid retention or weaken the heart's pumping, making heart failure worse.",
+  },
+  {
+    conditions: ["syncope"],
+    conditionLabel: "a history of fainting",
+    group: "Medications that lower blood pressure or slow the heart",
+    ingredients: [
+      ...CHOLINESTERASE_INHIBITORS,
+      ...ALPHA_1_BLOCKERS,
+      "amitriptyline",
+      "chlorpromazine",
+      "clomipramine",
+      "doxepin",
+      "imipramine",
+      "olanzapine",
+      "thioridazine",
+      "trimipramine",
+    ],
+    rationale:
+      "Increase the risk of a drop in blood pressure on standing or a slow heart rate, which can cause fainting.",
+  },
+  {
+    conditions: ["delirium"],
+    conditionLabel: "delirium",
+    group: "Medications that can cause or worsen delirium",
+    ingredients: [
+      ...ANTICHOLINERGICS,
+      ...ANTIPSYCHOTICS,
+      ...BENZODIAZEPINES,
+      ...Z_DRUGS,
+      ...OPIOIDS,
+      "dexamethasone",
+      "hydrocortisone",
+      "methylprednisolone",
+      "prednisolone",
+      "prednisone",
+    ],
+    rationale: "Can bring on delirium or make it worse.",
+  },
+  {
+    conditions: ["dementia", "cognitive impairment"],
+    conditionLabel: "dementia or cognitive impairment",
+    group: "Medications that affect thinking",
+    ingredients: [
+      ...ANTICHOLINERGICS,
+      ...ANTIPSYCHOTICS,
+      ...BENZODIAZEPINES,
+      ...Z_DRUGS,
+    ],
+    rationale:
+      "Adverse effects on the brain; antipsychotics also raise the risk of stroke and death in people with dementia.",
+  },
+  {
+    conditions: ["falls", "fall", "fractures", "fracture"],
+    conditionLabel: "a history of falls or fractures",
+    group: "Medications that raise the risk of falls",
+    ingredients: [
+      ...ANTIEPILEPTICS,
+      ...ANTIPSYCHOTICS,
+      ...BENZODIAZEPINES,
+      ...Z_DRUGS,
+      ...ANTIDEPRESSANTS,
+      ...OPIOIDS,
+    ],
+    rationale:
+      "Can cause unsteadiness, slowed reactions, fainting and further falls.",
+  },
+  {
+    conditions: ["parkinson's disease"],
+    conditionLabel: "Parkinson's disease",
+    group: "Medications that block dopamine",
+    ingredients: [
+      ...ANTIPSYCHOTICS.filter(
+        (ingredient) => !["clozapine", "quetiapine"].includes(ingredient)
+      ),
+      "metoclopramide",
+      "prochlorperazine",
+      "promethazine",
+    ],
+    rationale: "Can make Parkinson's symptoms worse.",
+  },
+  {
+    conditions: ["seizures"],
+    conditionLabel: "seizures or epilepsy",
+    group: "Medications that lower the seizure threshold",
+    ingredients: [
+      "bupropion",
+      "chlorpromazine",
+      "clozapine",
+      "maprotiline",
+      "olanzapine",
+      "thioridazine",
+      "thiothixene",
+      "tramadol",
+    ],
+    rationale: "Make seizures more likely.",
+  },
+  {
+    conditions: ["peptic ulcer"],
+    conditionLabel: "a history of stomach ulcers",
+    group: "Medications that cause stomach bleeding",
+    ingredients: [...NSAIDS, "aspirin"],
+    rationale: "Can make existing ulcers worse or cause new ones and bleeding.",
+  },
+  {
+    conditions: ["benign prostatic hyperplasia"],
+    conditionLabel: "an enlarged prostate or trouble urinating",
+    group: "Strongly anticholinergic medications",
+    ingredients: ANTICHOLINERGICS.filter(
+      (ingredient) => !BLADDER_ANTIMUSCARINICS.includes(ingredient)
+    ),
+    rationale: "Can slow the flow of urine and cause urinary retention.",
+  },
+];
+
+export const BEERS_KIDNEY_RULES: BeersKidneyRule[] = [
+  {
+    group: "NSAIDs",
+    ingredients: [...NSAIDS, "celecoxib"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale: "Can cause kidney injury and further loss of kidney function.",
+  },
+  {
+    group: "Ciprofloxacin",
+    ingredients: ["ciprofloxacin"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of confusion and tendon rupture.",
+  },
+  {
+    group: "Trimethoprim-sulfamethoxazole",
+    ingredients: ["sulfamethoxazole", "trimethoprim"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Raises the risk of high potassium and worsening kidney function.",
+  },
+  {
+    group: "Nitrofurantoin",
+    ingredients: ["nitrofurantoin"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Doesn't reach effective levels in the urine when the kidneys are weak, and can damage the lungs, liver and nerves.",
+  },
+  {
+    group: "Potassium-sparing diuretics",
+    ingredients: ["amiloride", "spironolactone", "triamterene"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale: "Raise potassium levels and can lower sodium levels.",
+  },
+  {
+    group: "Dabigatran",
+    ingredients: ["dabigatran"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of bleeding.",
+  },
+  {
+    group: "Rivaroxaban",
+    ingredients: ["rivaroxaban"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 50,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of bleeding.",
+  },
+  {
+    group: "Enoxaparin",
+    ingredients: ["enoxaparin"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of bleeding.",
+  },
+  {
+    group: "Fondaparinux",
+    ingredients: ["fondaparinux"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of bleeding.",
+  },
+  {
+    group: "Dofetilide",
+    ingredients: ["dofetilide"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 60,
+    rationale:
+      "Builds up when the kidneys are weak, raising the risk of a dangerous heart rhythm.",
+  },
+  {
+    group: "Baclofen",
+    ingredients: ["baclofen"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 60,
+    rationale:
+      "Builds up when the kidneys are weak, causing confusion and drowsiness.",
+  },
+  {
+    group: "Duloxetine",
+    ingredients: ["duloxetine"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale: "More stomach side effects, such as nausea and diarrhea.",
+  },
+  {
+    group: "Gabapentin and pregabalin",
+    ingredients: ["gabapentin", "pregabalin"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 60,
+    rationale:
+      "Build up when the kidneys are weak, causing drowsiness and unsteadiness.",
+  },
+  {
+    group: "Levetiracetam",
+    ingredients: ["levetiracetam"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 80,
+    rationale:
+      "Builds up when the kidneys are weak, causing drowsiness and mood changes.",
+  },
+  {
+    group: "H2 blockers",
+    ingredients: ["cimetidine", "famotidine", "nizatidine"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 50,
+    rationale: "Build up when the kidneys are weak, which can cause confusion.",
+  },
+  {
+    group: "Tramadol",
+    ingredients: ["tramadol"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, causing confusion and seizures.",
+  },
+  {
+    group: "Colchicine",
+    ingredients: ["colchicine"],
+    recommendation: "adjust dose",
+    creatinineClearanceBelow: 30,
+    rationale:
+      "Builds up when the kidneys are weak, causing stomach, nerve and muscle toxicity.",
+  },
+  {
+    group: "Probenecid",
+    ingredients: ["probenecid"],
+    recommendation: "avoid",
+    creatinineClearanceBelow: 30,
+    rationale: "Doesn't work when the kidneys are weak.",
+  },
+];
@@ -0,0 +1,43 @@
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Returns a function that runs tasks with at most `maxConcurrent` in flight.
+ * Tasks over the limit wait in the order they were submitted.
+ */
+export const createLimiter = (maxConcurrent: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= maxConcurrent || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+};
+
+/**
+ * Delay before retry number `attempt` (starting at 0): doubles each time up
+ * to `maxMs`, with up to 25% random jitter so parallel retries spread out
+ */
+export const backoffDelay = (
+  attempt: number,
+  baseMs: number,
+  maxMs: number
+): number => {
+  const delay = Math.min(baseMs * 2 ** attempt, maxMs);
+  return Math.round(delay * (1 + Math.random() * 0.25));
+};
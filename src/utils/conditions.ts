@@ -0,0 +1,267 @@
+export interface ConditionEntry {
+  // Name used in FDA label text
+  name: string;
+  // Other names for the condition, including lay terms and abbreviations,
+  // lowercase
+  synonyms: string[];
+  // Phrases containing a name that mean something else, e.g. "respiratory
+  // depression" for depression
+  excludes?: string[];
+}
+
+// Conditions that commonly appear in label contraindications, warnings and
+// precautions, with the names patients record them under
+export const CONDITION_TABLE: ConditionEntry[] = [
+  {
+    name: "hypertension",
+    synonyms: ["high blood pressure", "hbp", "elevated blood pressure"],
+    excludes: [
+      "pulmonary hypertension",
+      "pulmonary arterial hypertension",
+      "intracranial hypertension",
+      "ocular hypertension",
+    ],
+  },
+  {
+    name: "hypotension",
+    synonyms: ["low blood pressure"],
+  },
+  {
+    name: "heart failure",
+    synonyms: [
+      "congestive heart failure",
+      "chf",
+      "cardiac failure",
+      "hfref",
+      "hfpef",
+    ],
+  },
+  {
+    name: "coronary artery disease",
+    synonyms: ["cad", "ischemic heart disease", "coronary heart disease"],
+  },
+  {
+    name: "myocardial infarction",
+    synonyms: ["heart attack", "mi"],
+  },
+  {
+    name: "arrhythmia",
+    synonyms: ["cardiac arrhythmia", "irregular heartbeat"],
+  },
+  {
+    name: "atrial fibrillation",
+    synonyms: ["afib", "a-fib"],
+  },
+  {
+    name: "heart block",
+    synonyms: ["av block", "atrioventricular block"],
+  },
+  {
+    name: "syncope",
+    synonyms: ["fainting", "blackouts"],
+  },
+  {
+    name: "qt prolongation",
+    synonyms: ["long qt syndrome", "prolonged qt"],
+  },
+  {
+    name: "stroke",
+    synonyms: ["cerebrovascular accident", "cva", "tia", "mini stroke"],
+  },
+  {
+    name: "diabetes mellitus",
+    synonyms: [
+      "diabetes",
+      "type 1 diabetes",
+      "type 2 diabetes",
+      "t1dm",
+      "t2dm",
+      "high blood sugar",
+    ],
+  },
+  {
+    name: "hypoglycemia",
+    synonyms: ["low blood sugar"],
+  },
+  {
+    name: "asthma",
+    synonyms: ["bronchospasm", "reactive airway disease"],
+  },
+  {
+    name: "chronic obstructive pulmonary disease",
+    synonyms: ["copd", "emphysema", "chronic bronchitis"],
+  },
+  {
+    name: "renal impairment",
+    synonyms: [
+      "kidney disease",
+      "chronic kidney disease",
+      "ckd",
+      "renal failure",
+      "kidney failure",
+      "renal insufficiency",
+      "renal disease",
+    ],
+  },
+  {
+    name: "hepatic impairment",
+    synonyms: [
+      "liver disease",
+      "cirrhosis",
+      "hepatitis",
+      "liver failure",
+      "hepatic disease",
+      "fatty liver",
+    ],
+  },
+  {
+    name: "peptic ulcer",
+    synonyms: [
+      "stomach ulcer",
+      "ulcer",
+      "gastrointestinal bleeding",
+      "gi bleeding",
+      "gi bleed",
+      "ulcer disease",
+    ],
+  },
+  {
+    name: "bleeding disorder",
+    synonyms: [
+      "hemophilia",
+      "coagulation disorder",
+      "thrombocytopenia",
+      "low platelets",
+      "von willebrand disease",
+    ],
+  },
+  {
+    name: "glaucoma",
+    synonyms: ["narrow-angle glaucoma", "angle-closure glaucoma"],
+  },
+  {
+    name: "seizures",
+    synonyms: ["epilepsy", "seizure disorder", "convulsions"],
+  },
+  {
+    name: "depression",
+    synonyms: ["major depressive disorder", "mdd", "depressive disorder"],
+    excludes: [
+      "respiratory depression",
+      "cns depression",
+      "central nervous system depression",
+      "bone marrow depression",
+      "myocardial depression",
+    ],
+  },
+  {
+    name: "bipolar disorder",
+    synonyms: ["manic depression", "bipolar"],
+  },
+  {
+    name: "dementia",
+    synonyms: ["alzheimer's disease", "alzheimers", "alzheimer disease"],
+  },
+  {
+    name: "delirium",
+    synonyms: ["acute confusion", "acute confusional state"],
+  },
+  {
+    name: "parkinson's disease",
+    synonyms: ["parkinson disease", "parkinsons", "parkinsonism"],
+  },
+  {
+    name: "myasthenia gravis",
+    synonyms: ["myasthenia"],
+  },
+  {
+    name: "hyperthyroidism",
+    synonyms: ["overactive thyroid", "graves disease", "graves' disease"],
+  },
+  {
+    name: "hypothyroidism",
+    synonyms: ["underactive thyroid", "hashimoto's thyroiditis"],
+  },
+  {
+    name: "benign prostatic hyperplasia",
+    synonyms: ["bph", "enlarged prostate", "urinary retention"],
+  },
+  {
+    name: "hyperkalemia",
+    synonyms: ["high potassium"],
+  },
+  {
+    name: "gout",
+    synonyms: ["hyperuricemia", "gouty arthritis"],
+  },
+  {
+    name: "sleep apnea",
+    synonyms: ["obstructive sleep apnea", "osa"],
+  },
+  {
+    name: "angioedema",
+    synonyms: ["hereditary angioedema"],
+  },
+  {
+    name: "porphyria",
+    synonyms: ["acute porphyria"],
+  },
+];
+
+const normalizeCondition = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Whole-word containment, so "ulcer" matches "peptic ulcer" but "mi"
+// doesn't match "migraine"
+const containsWords = (text: string, words: string): boolean =>
+  !!words && ` ${text} `.includes(` ${words} `);
+
+const matchingEntries = (normalized: string): ConditionEntry[] =>
+  CONDITION_TABLE.filter((entry) =>
+    [entry.name, ...entry.synonyms].some((name) =>
+      containsWords(normalized, name)
+    )
+  );
+
+/**
+ * Every name a recorded condition may appear under in label text: the
+ * recorded name plus the label name and synonyms of each table entry it
+ * matches. "High blood pressure" gives "high blood pressure",
+ * "hypertension", "hbp" and "elevated blood pressure".
+ */
+export const conditionTerms = (condition: string): string[] => {
+  const normalized = normalizeCondition(condition);
+  if (!normalized) return [];
+
+  const terms = new Set([normalized]);
+  for (const entry of matchingEntries(normalized)) {
+    [entry.name, ...entry.synonyms].forEach((name) => terms.add(name));
+  }
+  return Array.from(terms);
+};
+
+/**
+ * The name a recorded condition appears under in a sentence of label text,
+ * or null when it doesn't appear. Phrases that only look like the condition,
+ * such as "respiratory depression" for depression, don't count.
+ */
+export const findConditionMention = (
+  condition: string,
+  sentence: string
+): string | null => {
+  const normalized = normalizeCondition(condition);
+  let text = normalizeCondition(sentence);
+  for (const entry of matchingEntries(normalized)) {
+    for (const phrase of entry.excludes || []) {
+      text = ` ${text} `.split(` ${phrase} `).join(" | ").trim();
+    }
+  }
+  return (
+    conditionTerms(condition).find((term) => containsWords(text, term)) ||
+    null
+  );
+};
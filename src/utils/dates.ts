@@ -0,0 +1,158 @@
+import { DateFormat } from "../types";
+
+export const DATE_FORMATS: DateFormat[] = ["MM/DD/YYYY", "DD/MM/YYYY"];
+
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T/;
+const INPUT_DATE_REGEX = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+// Before dates were stored as ISO, the app only accepted month-first input
+const LEGACY_DATE_REGEX = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(year, month, 0).getDate();
+
+const buildIsoDate = (
+  year: number,
+  month: number,
+  day: number
+): string | null => {
+  if (month < 1 || month > 12) return null;
+  if (day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Converts a Date to an ISO calendar date (YYYY-MM-DD) in local time
+ */
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const todayIsoDate = (): string => toIsoDate(new Date());
+
+/**
+ * Reads a stored date as a local calendar day. Accepts ISO dates, ISO
+ * timestamps and the M/D/YYYY strings written by earlier versions, which can
+ * still come back through undo.
+ */
+export const parseStoredDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+
+  const iso = value.match(ISO_DATE_REGEX);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    return buildIsoDate(year, month, day)
+      ? new Date(year, month - 1, day)
+      : null;
+  }
+
+  if (ISO_DATETIME_REGEX.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const legacy = value.match(LEGACY_DATE_REGEX);
+  if (legacy) {
+    const [month, day, year] = legacy.slice(1).map(Number);
+    return buildIsoDate(year, month, day)
+      ? new Date(year, month - 1, day)
+      : null;
+  }
+
+  return null;
+};
+
+/**
+ * Converts a stored date to ISO. ISO values are returned unchanged and values
+ * that can't be read are kept as they are rather than dropped.
+ */
+export const normalizeStoredDate = <T extends string | undefined>(
+  value: T
+): T => {
+  if (!value || ISO_DATE_REGEX.test(value) || ISO_DATETIME_REGEX.test(value)) {
+    return value;
+  }
+  const date = parseStoredDate(value);
+  return (date ? toIsoDate(date) : value) as T;
+};
+
+/**
+ * Strictly parses a date typed in the user's preferred format. Returns the
+ * ISO date, or null when the input is not a real calendar date.
+ */
+export const parseDateInput = (
+  input: string,
+  format: DateFormat
+): string | null => {
+  const match = input.trim().match(INPUT_DATE_REGEX);
+  if (!match) return null;
+
+  const [first, second, year] = match.slice(1).map(Number);
+  return format === "MM/DD/YYYY"
+    ? buildIsoDate(year, first, second)
+    : buildIsoDate(year, second, first);
+};
+
+/**
+ * Formats a stored date for editing in the user's preferred format
+ */
+export const formatDateInput = (
+  value: string | undefined,
+  format: DateFormat
+): string => {
+  const date = parseStoredDate(value);
+  if (!date) return value || "";
+
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  const year = date.getFullYear();
+  return format === "MM/DD/YYYY"
+    ? `${month}/${day}/${year}`
+    : `${day}/${month}/${year}`;
+};
+
+/**
+ * Formats a stored date for display using the device locale, e.g. "Mar 5,
+ * 2024" or "5 Mar 2024". Values that can't be read are shown as stored.
+ */
+export const formatDisplayDate = (value?: string): string => {
+  const date = parseStoredDate(value);
+  if (!date) return value || "";
+  return date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+/**
+ * Formats an ISO timestamp with its time of day, e.g. "Mar 5, 2024, 2:30 PM"
+ */
+export const formatDisplayDateTime = (value?: string): string => {
+  const date = value ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return value || "";
+  const time = date.toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${formatDisplayDate(value)}, ${time}`;
+};
+
+/**
+ * Date input format matching the device locale's day/month order
+ */
+export const getDefaultDateFormat = (): DateFormat => {
+  try {
+    const parts = new Intl.DateTimeFormat().formatToParts(
+      new Date(2000, 11, 31)
+    );
+    const dayIndex = parts.findIndex((part) => part.type === "day");
+    const monthIndex = parts.findIndex((part) => part.type === "month");
+    return dayIndex !== -1 && dayIndex < monthIndex
+      ? "DD/MM/YYYY"
+      : "MM/DD/YYYY";
+  } catch (error) {
+    return "MM/DD/YYYY";
+  }
+};
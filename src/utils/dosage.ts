@@ -0,0 +1,328 @@
+import { MedicationDose, MedicationSchedule } from "../types";
+
+export const DOSE_UNITS = [
+  "mg",
+  "mcg",
+  "g",
+  "mL",
+  "units",
+  "tablet",
+  "capsule",
+  "puff",
+  "drop",
+  "spray",
+  "patch",
+  "application",
+];
+
+export const DOSE_FORMS = [
+  "tablet",
+  "capsule",
+  "liquid",
+  "injection",
+  "inhaler",
+  "cream",
+  "patch",
+  "drops",
+  "spray",
+  "suppository",
+];
+
+export const DOSE_ROUTES = [
+  "oral",
+  "sublingual",
+  "topical",
+  "transdermal",
+  "inhaled",
+  "nasal",
+  "ophthalmic",
+  "otic",
+  "subcutaneous",
+  "intramuscular",
+  "intravenous",
+  "rectal",
+  "vaginal",
+];
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Spellings found in free text, mapped to the units above
+const UNIT_ALIASES: [RegExp, string][] = [
+  [/^(mcg|µg|ug|micrograms?)$/i, "mcg"],
+  [/^(mg|milligrams?)$/i, "mg"],
+  [/^(g|grams?)$/i, "g"],
+  [/^(ml|milliliters?|millilitres?|cc)$/i, "mL"],
+  [/^(units?|iu)$/i, "units"],
+  [/^(tabs?|tablets?)$/i, "tablet"],
+  [/^(caps?|capsules?)$/i, "capsule"],
+  [/^(puffs?|inhalations?)$/i, "puff"],
+  [/^(drops?|gtts?)$/i, "drop"],
+  [/^(sprays?)$/i, "spray"],
+  [/^(patch|patches)$/i, "patch"],
+  [/^(applications?)$/i, "application"],
+];
+
+const DOSE_REGEX =
+  /(\d+(?:\.\d+)?|\.\d+)\s*(mcg|µg|ug|micrograms?|mg|milligrams?|g|grams?|ml|milliliters?|millilitres?|cc|units?|iu|tabs?|tablets?|caps?|capsules?|puffs?|inhalations?|drops?|gtts?|sprays?|patch(?:es)?|applications?)\b/i;
+
+// Forms implied by a unit, and routes implied by a form
+const FORM_BY_UNIT: Record<string, string> = {
+  tablet: "tablet",
+  capsule: "capsule",
+  puff: "inhaler",
+  drop: "drops",
+  spray: "spray",
+  patch: "patch",
+  mL: "liquid",
+};
+
+const ROUTE_BY_FORM: Record<string, string> = {
+  tablet: "oral",
+  capsule: "oral",
+  liquid: "oral",
+  inhaler: "inhaled",
+  cream: "topical",
+  patch: "transdermal",
+  suppository: "rectal",
+};
+
+const FORM_KEYWORDS: [RegExp, string][] = [
+  [/\b(tab|tabs|tablets?)\b/i, "tablet"],
+  [/\b(cap|caps|capsules?)\b/i, "capsule"],
+  [/\b(solution|suspension|syrup|liquid|elixir)\b/i, "liquid"],
+  [/\b(injection|injectable|syringe|pen)\b/i, "injection"],
+  [/\b(inhaler|mdi|nebuli[sz]er)\b/i, "inhaler"],
+  [/\b(cream|ointment|gel|lotion)\b/i, "cream"],
+  [/\bpatch(es)?\b/i, "patch"],
+  [/\bdrops?\b/i, "drops"],
+  [/\bspray\b/i, "spray"],
+  [/\bsuppositor(y|ies)\b/i, "suppository"],
+];
+
+const ROUTE_KEYWORDS: [RegExp, string][] = [
+  [/\b(by mouth|orally|oral|po)\b/i, "oral"],
+  [/\b(sublingual|under the tongue|sl)\b/i, "sublingual"],
+  [/\b(topical|topically|to skin|on the skin)\b/i, "topical"],
+  [/\b(transdermal)\b/i, "transdermal"],
+  [/\b(inhaled|inhalation|inhale)\b/i, "inhaled"],
+  [/\b(nasal|intranasal|each nostril)\b/i, "nasal"],
+  [/\b(ophthalmic|each eye|in eyes?)\b/i, "ophthalmic"],
+  [/\b(otic|each ear|in ears?)\b/i, "otic"],
+  [/\b(subcutaneous|subcut|subq|sc)\b/i, "subcutaneous"],
+  [/\b(intramuscular|im)\b/i, "intramuscular"],
+  [/\b(intravenous|iv)\b/i, "intravenous"],
+  [/\b(rectal|rectally|pr)\b/i, "rectal"],
+  [/\b(vaginal|vaginally)\b/i, "vaginal"],
+];
+
+// A count only says how often a day when followed by "a day", "per day",
+// "/day" or "daily"; "3 times a week" is not three times a day
+const PER_DAY = String.raw`\s*(?:(?:a|per|each|\/)\s*day|daily)`;
+
+const TIMES_PER_DAY_PATTERNS: [RegExp, number][] = [
+  [
+    new RegExp(
+      String.raw`\b((four times|4 times)${PER_DAY}|qid|q\.i\.d\.?)\b`,
+      "i"
+    ),
+    4,
+  ],
+  [
+    new RegExp(
+      String.raw`\b((three times|3 times)${PER_DAY}|tid|t\.i\.d\.?)\b`,
+      "i"
+    ),
+    3,
+  ],
+  [
+    new RegExp(
+      String.raw`\b((twice|two times|2 times)${PER_DAY}|bid|b\.i\.d\.?|morning and (at |in the )?(evening|night|bedtime)|am and pm)\b`,
+      "i"
+    ),
+    2,
+  ],
+  [
+    new RegExp(
+      String.raw`\b((once|one time|1 time)${PER_DAY}|daily|every day|qd|q\.d\.?|nightly|at bedtime|qhs|in the morning|every morning|every evening)\b`,
+      "i"
+    ),
+    1,
+  ],
+];
+
+// Several doses a week, e.g. "3 times a week" or "twice weekly". Which days
+// isn't known, so these are left unscheduled unless the days are named.
+const PER_WEEK_PATTERN =
+  /\b(twice|(two|three|four|five|six|[2-6])\s*(x|times))\s*((a|per|each|\/)\s*(week|wk)|weekly)\b/i;
+
+const DAY_PATTERNS: [RegExp, number][] = [
+  [/\b(sun|sunday)s?\b/i, 0],
+  [/\b(mon|monday)s?\b/i, 1],
+  [/\b(tue|tues|tuesday)s?\b/i, 2],
+  [/\b(wed|wednesday)s?\b/i, 3],
+  [/\b(thu|thur|thurs|thursday)s?\b/i, 4],
+  [/\b(fri|friday)s?\b/i, 5],
+  [/\b(sat|saturday)s?\b/i, 6],
+];
+
+const normalizeUnit = (unit: string): string =>
+  UNIT_ALIASES.find(([pattern]) => pattern.test(unit))?.[1] || unit;
+
+const findKeyword = (
+  text: string,
+  keywords: [RegExp, string][]
+): string | undefined => keywords.find(([pattern]) => pattern.test(text))?.[1];
+
+/**
+ * Parses a free-text dosage such as "10mg tablet by mouth" into a structured dose
+ */
+export const parseDose = (text: string): MedicationDose => {
+  const match = text.match(DOSE_REGEX);
+  const unit = match ? normalizeUnit(match[2]) : "";
+  const form = findKeyword(text, FORM_KEYWORDS) || FORM_BY_UNIT[unit];
+  const route =
+    findKeyword(text, ROUTE_KEYWORDS) ||
+    (form ? ROUTE_BY_FORM[form] : undefined);
+
+  return {
+    amount: match ? Number(match[1]) : null,
+    unit,
+    form,
+    route,
+  };
+};
+
+/**
+ * Parses a free-text frequency such as "Twice daily" or "every 6 hours as
+ * needed" into a structured schedule
+ */
+export const parseSchedule = (text: string): MedicationSchedule => {
+  const asNeeded =
+    /\b(prn|as needed|when needed|as required|if needed)\b/i.test(text);
+
+  let timesPerDay: number | null = null;
+  let intervalHours: number | null = null;
+
+  // "every 4-6 hours" uses the shorter interval, the most frequent dosing
+  const intervalMatch =
+    text.match(/\bevery\s+(\d+(?:\.\d+)?)\s*(?:-\s*\d+\s*)?(hours?|hrs?|h)\b/i) ||
+    text.match(/\bq\s?(\d+)\s?h\b/i);
+  const countMatch = text.match(
+    /\b(\d+)\s*(?:x|times)\s*(?:a|per|\/|each)?\s*(?:day|daily)\b/i
+  );
+
+  if (intervalMatch) {
+    intervalHours = Number(intervalMatch[1]);
+  } else if (PER_WEEK_PATTERN.test(text)) {
+    // Left unparsed; named days below still give a schedule
+  } else if (/\b(every other day|alternate days|qod)\b/i.test(text)) {
+    intervalHours = 48;
+  } else if (/\b(weekly|once a week|every week)\b/i.test(text)) {
+    intervalHours = 168;
+  } else if (countMatch) {
+    timesPerDay = Number(countMatch[1]);
+  } else {
+    timesPerDay =
+      TIMES_PER_DAY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ??
+      null;
+  }
+
+  // Specific weekdays ("Mon, Wed, Fri") replace an interval-based schedule,
+  // except that "weekly on Sundays" stays weekly, on the day named
+  const days = DAY_PATTERNS.filter(([pattern]) => pattern.test(text)).map(
+    ([, day]) => day
+  );
+  const weeklyOnDay = intervalHours === 168 && days.length === 1;
+  if (days.length > 0 && days.length < 7 && !weeklyOnDay) {
+    if (intervalHours && intervalHours >= 24) intervalHours = null;
+    timesPerDay = timesPerDay ?? 1;
+  }
+
+  return {
+    timesPerDay,
+    intervalHours,
+    asNeeded,
+    daysOfWeek: days.length > 0 && days.length < 7 ? days : null,
+  };
+};
+
+/**
+ * Upgrades a medication's free-text dosage and frequency to the structured model
+ */
+export const parseMedicationText = (
+  dosage: string,
+  frequency: string
+): { dose: MedicationDose; schedule: MedicationSchedule } => {
+  const dose = parseDose(dosage);
+  // Route and form are sometimes written in the frequency ("1 tab by mouth daily")
+  const extra = parseDose(frequency);
+  return {
+    dose: {
+      ...dose,
+      form: dose.form || extra.form,
+      route: dose.route || extra.route,
+    },
+    schedule: parseSchedule(`${frequency} ${dosage}`),
+  };
+};
+
+const pluralize = (count: number, word: string): string =>
+  count === 1 || ["mg", "mcg", "g", "mL", "units"].includes(word)
+    ? word
+    : word === "patch"
+    ? "patches"
+    : `${word}s`;
+
+/**
+ * Formats a structured dose as display text, e.g. "10 mg tablet, oral"
+ */
+export const formatDose = (dose: MedicationDose): string => {
+  if (dose.amount === null) return "";
+  const amount = `${dose.amount} ${pluralize(dose.amount, dose.unit)}`.trim();
+  // Skip the form when the unit already says it ("2 tablets", not "2 tablets tablet")
+  const form =
+    dose.form && dose.form !== FORM_BY_UNIT[dose.unit] ? ` ${dose.form}` : "";
+  return `${amount}${form}${dose.route ? `, ${dose.route}` : ""}`;
+};
+
+/**
+ * Formats a structured schedule as display text, e.g. "Twice daily (Mon, Thu)"
+ * or "Once weekly (Sun)"
+ */
+export const formatSchedule = (schedule: MedicationSchedule): string => {
+  let text = "";
+
+  if (schedule.intervalHours === 168) {
+    text = "Once weekly";
+  } else if (schedule.intervalHours === 48) {
+    text = "Every other day";
+  } else if (schedule.intervalHours) {
+    text = `Every ${schedule.intervalHours} hours`;
+  } else if (schedule.timesPerDay === 1) {
+    text = "Once daily";
+  } else if (schedule.timesPerDay === 2) {
+    text = "Twice daily";
+  } else if (schedule.timesPerDay) {
+    text = `${schedule.timesPerDay} times daily`;
+  }
+
+  if (schedule.asNeeded) {
+    if (!text) {
+      text = "As needed";
+    } else if (schedule.timesPerDay) {
+      text = `Up to ${text.toLowerCase()} as needed`;
+    } else {
+      text = `${text} as needed`;
+    }
+  }
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+    const days = [...schedule.daysOfWeek]
+      .sort()
+      .map((day) => DAY_LABELS[day])
+      .join(", ");
+    text = `${text || "On"} (${days})`;
+  }
+
+  return text;
+};
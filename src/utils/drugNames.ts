@@ -0,0 +1,407 @@
+export interface DrugNameEntry {
+  // Generic active ingredients, lowercase
+  ingredients: string[];
+  brands: string[];
+  // Other names people use, including common abbreviations
+  synonyms?: string[];
+  rxcui?: string;
+}
+
+// Offline ingredient/brand table for commonly used medications. Lookups that
+// miss here fall back to RxNorm (when configured) and then to FDA labels.
+export const DRUG_NAME_TABLE: DrugNameEntry[] = [
+  {
+    ingredients: ["acetaminophen"],
+    brands: ["Tylenol", "Panadol", "Mapap"],
+    synonyms: ["paracetamol", "apap"],
+    rxcui: "161",
+  },
+  {
+    ingredients: ["ibuprofen"],
+    brands: ["Advil", "Motrin"],
+    rxcui: "5640",
+  },
+  {
+    ingredients: ["naproxen"],
+    brands: ["Aleve", "Naprosyn", "Anaprox"],
+    rxcui: "7258",
+  },
+  {
+    ingredients: ["aspirin"],
+    brands: ["Bayer", "Ecotrin", "Bufferin"],
+    synonyms: ["asa", "acetylsalicylic acid"],
+    rxcui: "1191",
+  },
+  {
+    ingredients: ["celecoxib"],
+    brands: ["Celebrex"],
+    rxcui: "140587",
+  },
+  {
+    ingredients: ["warfarin"],
+    brands: ["Coumadin", "Jantoven"],
+    rxcui: "11289",
+  },
+  {
+    ingredients: ["apixaban"],
+    brands: ["Eliquis"],
+    rxcui: "1364430",
+  },
+  {
+    ingredients: ["rivaroxaban"],
+    brands: ["Xarelto"],
+    rxcui: "1114195",
+  },
+  {
+    ingredients: ["clopidogrel"],
+    brands: ["Plavix"],
+    rxcui: "32968",
+  },
+  {
+    ingredients: ["atorvastatin"],
+    brands: ["Lipitor"],
+    rxcui: "83367",
+  },
+  {
+    ingredients: ["simvastatin"],
+    brands: ["Zocor"],
+    rxcui: "36567",
+  },
+  {
+    ingredients: ["rosuvastatin"],
+    brands: ["Crestor"],
+    rxcui: "301542",
+  },
+  {
+    ingredients: ["lisinopril"],
+    brands: ["Zestril", "Prinivil"],
+    rxcui: "29046",
+  },
+  {
+    ingredients: ["losartan"],
+    brands: ["Cozaar"],
+    rxcui: "52175",
+  },
+  {
+    ingredients: ["amlodipine"],
+    brands: ["Norvasc"],
+    rxcui: "17767",
+  },
+  {
+    ingredients: ["metoprolol"],
+    brands: ["Lopressor", "Toprol XL"],
+    rxcui: "6918",
+  },
+  {
+    ingredients: ["hydrochlorothiazide"],
+    brands: ["Microzide"],
+    synonyms: ["hctz"],
+    rxcui: "5487",
+  },
+  {
+    ingredients: ["furosemide"],
+    brands: ["Lasix"],
+    rxcui: "4603",
+  },
+  {
+    ingredients: ["digoxin"],
+    brands: ["Lanoxin"],
+    rxcui: "3407",
+  },
+  {
+    ingredients: ["metformin"],
+    brands: ["Glucophage"],
+    rxcui: "6809",
+  },
+  {
+    ingredients: ["glipizide"],
+    brands: ["Glucotrol"],
+    rxcui: "4821",
+  },
+  {
+    ingredients: ["insulin glargine"],
+    brands: ["Lantus", "Basaglar", "Toujeo"],
+    rxcui: "274783",
+  },
+  {
+    ingredients: ["levothyroxine"],
+    brands: ["Synthroid", "Levoxyl", "Unithroid"],
+    synonyms: ["t4"],
+    rxcui: "10582",
+  },
+  {
+    ingredients: ["omeprazole"],
+    brands: ["Prilosec"],
+    rxcui: "7646",
+  },
+  {
+    ingredients: ["pantoprazole"],
+    brands: ["Protonix"],
+    rxcui: "40790",
+  },
+  {
+    ingredients: ["sertraline"],
+    brands: ["Zoloft"],
+    rxcui: "36437",
+  },
+  {
+    ingredients: ["fluoxetine"],
+    brands: ["Prozac"],
+    rxcui: "4493",
+  },
+  {
+    ingredients: ["escitalopram"],
+    brands: ["Lexapro"],
+    rxcui: "321988",
+  },
+  {
+    ingredients: ["citalopram"],
+    brands: ["Celexa"],
+    rxcui: "2556",
+  },
+  {
+    ingredients: ["bupropion"],
+    brands: ["Wellbutrin", "Zyban"],
+    rxcui: "42347",
+  },
+  {
+    ingredients: ["trazodone"],
+    brands: ["Desyrel"],
+    rxcui: "10737",
+  },
+  {
+    ingredients: ["alprazolam"],
+    brands: ["Xanax"],
+    rxcui: "596",
+  },
+  {
+    ingredients: ["lorazepam"],
+    brands: ["Ativan"],
+    rxcui: "6470",
+  },
+  {
+    ingredients: ["zolpidem"],
+    brands: ["Ambien"],
+    rxcui: "39993",
+  },
+  {
+    ingredients: ["gabapentin"],
+    brands: ["Neurontin"],
+    rxcui: "25480",
+  },
+  {
+    ingredients: ["tramadol"],
+    brands: ["Ultram"],
+    rxcui: "10689",
+  },
+  {
+    ingredients: ["oxycodone"],
+    brands: ["OxyContin", "Roxicodone"],
+    rxcui: "7804",
+  },
+  {
+    ingredients: ["prednisone"],
+    brands: ["Deltasone", "Rayos"],
+    rxcui: "8640",
+  },
+  {
+    ingredients: ["amoxicillin"],
+    brands: ["Amoxil"],
+    rxcui: "723",
+  },
+  {
+    ingredients: ["azithromycin"],
+    brands: ["Zithromax", "Z-Pak"],
+    synonyms: ["zpack"],
+    rxcui: "18631",
+  },
+  {
+    ingredients: ["ciprofloxacin"],
+    brands: ["Cipro"],
+    rxcui: "2551",
+  },
+  {
+    ingredients: ["clarithromycin"],
+    brands: ["Biaxin"],
+    rxcui: "21212",
+  },
+  {
+    ingredients: ["cetirizine"],
+    brands: ["Zyrtec"],
+    rxcui: "20610",
+  },
+  {
+    ingredients: ["loratadine"],
+    brands: ["Claritin"],
+    rxcui: "28889",
+  },
+  {
+    ingredients: ["diphenhydramine"],
+    brands: ["Benadryl"],
+    rxcui: "3498",
+  },
+  {
+    ingredients: ["sildenafil"],
+    brands: ["Viagra", "Revatio"],
+    rxcui: "136411",
+  },
+  // Combination products
+  {
+    ingredients: ["oxycodone", "acetaminophen"],
+    brands: ["Percocet", "Endocet"],
+  },
+  {
+    ingredients: ["hydrocodone", "acetaminophen"],
+    brands: ["Vicodin", "Norco", "Lortab"],
+  },
+  {
+    ingredients: ["acetaminophen", "diphenhydramine"],
+    brands: ["Tylenol PM"],
+  },
+  {
+    ingredients: ["ibuprofen", "diphenhydramine"],
+    brands: ["Advil PM"],
+  },
+  {
+    ingredients: ["acetaminophen", "aspirin", "caffeine"],
+    brands: ["Excedrin"],
+  },
+  {
+    ingredients: ["acetaminophen", "dextromethorphan", "doxylamine"],
+    brands: ["NyQuil"],
+  },
+  {
+    ingredients: ["acetaminophen", "dextromethorphan", "phenylephrine"],
+    brands: ["DayQuil"],
+  },
+  {
+    ingredients: ["amoxicillin", "clavulanate"],
+    brands: ["Augmentin"],
+  },
+  {
+    ingredients: ["sulfamethoxazole", "trimethoprim"],
+    brands: ["Bactrim", "Septra"],
+    synonyms: ["smx-tmp", "co-trimoxazole"],
+  },
+  {
+    ingredients: ["losartan", "hydrochlorothiazide"],
+    brands: ["Hyzaar"],
+  },
+  {
+    ingredients: ["lisinopril", "hydrochlorothiazide"],
+    brands: ["Zestoretic"],
+  },
+  {
+    ingredients: ["sitagliptin", "metformin"],
+    brands: ["Janumet"],
+  },
+];
+
+// Words in a typed medication name that describe the product rather than
+// the drug, e.g. "Tylenol Extra Strength 500 mg caplets"
+const PRODUCT_WORDS =
+  /\b(tablets?|tabs?|capsules?|caps?|caplets?|gelcaps?|softgels?|liquid|syrup|solution|suspension|oral|chewable|extended|delayed|release|er|xr|xl|sr|dr|ec|extra|maximum|max|regular|strength|generic|brand)\b/g;
+// Salt and ester parts of ingredient names that don't change what the drug is
+const SALT_WORDS =
+  /\b(hydrochloride|hcl|sodium|potassium|calcium|magnesium|sulfate|phosphate|acetate|maleate|mesylate|besylate|tartrate|succinate|citrate|trihydrate|monohydrate|anhydrous|bitartrate|hyclate)\b/g;
+const STRENGTH = /\b\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|units?|%)?(\/\d*\s*(ml|mg)?)?\b/g;
+
+/**
+ * Reduces a typed medication name to the words that identify the drug:
+ * "Tylenol 500mg Extra Strength" becomes "tylenol"
+ */
+export const cleanMedicationName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(STRENGTH, " ")
+    .replace(PRODUCT_WORDS, " ")
+    .replace(SALT_WORDS, " ")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const namesOf = (entry: DrugNameEntry): string[] => [
+  ...entry.brands,
+  ...(entry.synonyms || []),
+  // Combination products are known by their brands only, so "acetaminophen"
+  // resolves to plain acetaminophen rather than Percocet
+  ...(entry.ingredients.length === 1 ? entry.ingredients : []),
+];
+
+const NAME_INDEX = new Map<string, DrugNameEntry>();
+for (const entry of DRUG_NAME_TABLE) {
+  for (const name of namesOf(entry)) {
+    NAME_INDEX.set(cleanMedicationName(name), entry);
+  }
+}
+
+// Edit distance allowing adjacent transpositions, the commonest typo
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+const maxTypos = (name: string): number =>
+  name.length < 5 ? 0 : name.length < 9 ? 1 : 2;
+
+/**
+ * Finds a medication in the offline table by brand, generic or other name.
+ * Tries the whole cleaned name, then shorter leading parts of it, so
+ * "Tylenol PM" matches the combination product but "Tylenol Cold" still
+ * matches Tylenol.
+ */
+export const lookupDrugName = (
+  name: string
+): { entry: DrugNameEntry; exact: boolean } | null => {
+  const words = cleanMedicationName(name).split(" ").filter(Boolean);
+
+  for (let length = words.length; length > 0; length--) {
+    const entry = NAME_INDEX.get(words.slice(0, length).join(" "));
+    if (entry) return { entry, exact: true };
+  }
+  return null;
+};
+
+/**
+ * Finds the closest table name to a misspelled medication name, e.g.
+ * "lisinapril" or "ibuprofin"
+ */
+export const lookupMisspelledDrugName = (
+  name: string
+): { entry: DrugNameEntry; exact: boolean } | null => {
+  const cleaned = cleanMedicationName(name);
+  const candidates = Array.from(
+    new Set([cleaned, cleaned.split(" ")[0]])
+  ).filter(Boolean);
+
+  let best: { entry: DrugNameEntry; distance: number } | null = null;
+  for (const candidate of candidates) {
+    for (const [known, entry] of NAME_INDEX) {
+      const distance = editDistance(candidate, known);
+      if (
+        distance <= maxTypos(known) &&
+        (!best || distance < best.distance)
+      ) {
+        best = { entry, distance };
+      }
+    }
+  }
+  return best ? { entry: best.entry, exact: false } : null;
+};
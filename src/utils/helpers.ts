@@ -1,3 +1,5 @@
+import { parseStoredDate } from "./dates";
+
 /**
  * Generates a unique ID for database records
  */
@@ -6,23 +8,39 @@ export const generateId = (): string => {
 };
 
 /**
- * Formats a date to a readable string (MM/DD/YYYY)
- */
-export const formatDate = (date: string): string => {
-  const d = new Date(date);
-  return `${d.getMonth() + 1}/${d.getDate()}/${d.getFullYear()}`;
-};
-
-/**
- * Calculates age from date of birth
+ * Calculates age from date of birth, or NaN if the date can't be read
  */
 export const calculateAge = (dateOfBirth: string): number => {
   const today = new Date();
-  const birthDate = new Date(dateOfBirth);
+  const birthDate = parseStoredDate(dateOfBirth);
+  if (!birthDate) return NaN;
   let age = today.getFullYear() - birthDate.getFullYear();
   const m = today.getMonth() - birthDate.getMonth();
   if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
     age--;
   }
   return age;
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Week of pregnancy counted from the last menstrual period, the way due
+ * dates are: 40 weeks before the due date is week 0. NaN if the date can't
+ * be read.
+ */
+export const gestationalWeek = (dueDate: string): number => {
+  const due = parseStoredDate(dueDate);
+  if (!due) return NaN;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const daysUntilDue = Math.round((due.getTime() - today.getTime()) / 86400000);
+  return Math.floor((280 - daysUntilDue) / 7);
+};
+
+/**
+ * Maps a 1-10 symptom severity score to a severity level
+ */
+export const severityFromScore = (score: number): "low" | "medium" | "high" => {
+  if (score >= 8) return "high";
+  if (score >= 4) return "medium";
+  return "low";
+};
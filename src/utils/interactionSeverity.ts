@@ -0,0 +1,409 @@
+import { sentenceSpans, termPattern } from "./labelEvidence";
+
+// "none" when the text says the drugs don't meaningfully interact
+export type InteractionSeverity = "none" | "minor" | "moderate" | "major";
+
+export interface SeverityClassification {
+  severity: InteractionSeverity;
+  // 0-1: how strongly and unambiguously the text supports the severity
+  confidence: number;
+  // The sentence the severity was decided by
+  sentence?: string;
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  none: 0,
+  minor: 1,
+  moderate: 2,
+  major: 3,
+};
+
+interface Cue {
+  pattern: RegExp;
+  severity: InteractionSeverity;
+  weight: number;
+}
+
+// Whole phrases, matched first and removed from the clause so the words
+// inside them aren't read again as separate cues. "not expected to be of
+// clinical importance" describes a minor interaction, while "not expected to
+// interact" describes none.
+const PHRASE_CUES: Cue[] = [
+  {
+    pattern:
+      /\b(?:not expected to be|unlikely to be|not|of no) (?:of )?clinical(?:ly)? (?:importance|significance|relevance|relevant|significant|important)\b/g,
+    severity: "minor",
+    weight: 2,
+  },
+  {
+    pattern:
+      /\bno (?:clinically )?(?:significant|relevant|meaningful|important)\b[^,;]*/g,
+    severity: "none",
+    weight: 3,
+  },
+  {
+    pattern:
+      /\b(?:did|does|do|was|were|is|are|has|have)(?: not|n't)(?: been)? (?:\w+ )?(?:alter|affect|change|influence|cause|result|increase|decrease|reduce|interact)\w*\b[^,;]*/g,
+    severity: "none",
+    weight: 2.5,
+  },
+  {
+    pattern:
+      /\bnot (?:expected|likely|known|shown) to (?:interact|affect|alter|change)\w*/g,
+    severity: "none",
+    weight: 3,
+  },
+  {
+    pattern:
+      /\bno (?:dose |dosage )?(?:adjustment|interaction|precaution|change)s?\b[^,;]*/g,
+    severity: "none",
+    weight: 2.5,
+  },
+  {
+    pattern: /\bno evidence (?:of|that)\b[^,;]*/g,
+    severity: "none",
+    weight: 2.5,
+  },
+  {
+    pattern:
+      /\b(?:dose |dosage )?(?:adjustment|avoidance|monitoring|precautions?) (?:is|are) not (?:required|needed|necessary|warranted)\b/g,
+    severity: "none",
+    weight: 2.5,
+  },
+  {
+    // Negation after the verb, which denies everything said before it, as
+    // in "increased exposure was not observed" or "an interaction is not
+    // anticipated"
+    pattern:
+      /[^,;]*\b(?:is|are|was|were|has been|have been) not (?:observed|seen|detected|found|noted|reported|demonstrated|anticipated|expected|predicted)\b[^,;]*/g,
+    severity: "none",
+    weight: 3,
+  },
+  {
+    pattern: /\bcontraindicated\b/g,
+    severity: "major",
+    weight: 3,
+  },
+  {
+    pattern:
+      /\b(?:do not|should not be|must not be|must not|never) (?:\w+ )?(?:use|used|take|taken|give|given|coadminister|coadministered|combine|combined|start|started)\b/g,
+    severity: "major",
+    weight: 3,
+  },
+  {
+    pattern: /\bnot recommended\b/g,
+    severity: "major",
+    weight: 2.5,
+  },
+  {
+    // Instructions to separate doses, e.g. "take 2 hours before antacids"
+    pattern:
+      /\b(?:take|give|administer|separate)\w*\b[^,;]*\b\d+ hours? (?:before|after|apart)\b/g,
+    severity: "moderate",
+    weight: 1.5,
+  },
+];
+
+// Single-word and short cues, which are read as the opposite when negated
+const WORD_CUES: Cue[] = [
+  { pattern: /\bavoid\w*/g, severity: "major", weight: 2.5 },
+  {
+    pattern: /\b(?:fatal|death|deaths|died)\b/g,
+    severity: "major",
+    weight: 3,
+  },
+  { pattern: /\blife[- ]threatening\b/g, severity: "major", weight: 3 },
+  {
+    pattern: /\b(?:serious|severe|profound)\b/g,
+    severity: "major",
+    weight: 2,
+  },
+  {
+    pattern:
+      /\b(?:serotonin syndrome|respiratory depression|coma|qt prolongation|torsades?|hemorrhage|haemorrhage)\b/g,
+    severity: "major",
+    weight: 2,
+  },
+  { pattern: /\bmonitor\w*/g, severity: "moderate", weight: 1.5 },
+  {
+    pattern: /\b(?:caution|cautious)\w*/g,
+    severity: "moderate",
+    weight: 1.5,
+  },
+  {
+    pattern: /\b(?:adjust\w*|reduc\w*|lower starting dose)\b/g,
+    severity: "moderate",
+    weight: 1.2,
+  },
+  {
+    pattern:
+      /\b(?:increas\w*|decreas\w*|diminish\w*|potentiat\w*|rise|rises)\b/g,
+    severity: "moderate",
+    weight: 1,
+  },
+  { pattern: /\btoxicity\b/g, severity: "moderate", weight: 1.2 },
+  {
+    pattern: /\b(?:consider|observe|observed for)\b/g,
+    severity: "moderate",
+    weight: 1,
+  },
+  {
+    pattern: /\b(?:minor|slight\w*|small|mild\w*|modest\w*)\b/g,
+    severity: "minor",
+    weight: 1.5,
+  },
+];
+
+// Words that negate a cue when they come shortly before it in the same clause
+const NEGATORS = /\b(?:no|not|without|never|neither|nor|unlikely|n't|cannot)\b/;
+// Negation that follows the cue, as in "avoidance is not required"
+const TRAILING_NEGATION =
+  /^[^,;]*\bnot (?:required|needed|necessary|warranted)\b/;
+// How many words before a cue are checked for a negator
+const NEGATION_WINDOW = 3;
+
+// Words that make a nearby moderate cue minor, as in "a small increase"
+const DIMINISHERS = /\b(?:minor|slight\w*|small|mild\w*|modest\w*)\b/;
+// How many words before a cue are checked for a diminisher
+const DIMINISHER_WINDOW = 2;
+
+// Hedged statements count for less than definite ones
+const HEDGES =
+  /\b(?:may|might|could|possibl\w*|potential\w*|theoretical\w*|in some patients|has been reported|have been reported|rarely)\b/;
+const HEDGE_FACTOR = 0.7;
+
+// Where a sentence splits into clauses that can be about different drugs,
+// as in "no dose adjustment is needed with ibuprofen; avoid grapefruit"
+const CLAUSE_BREAK = /;|,\s*(?:but|however|whereas|while|although)\b/g;
+// Clauses that refer back to the pair without naming it, as in "avoid
+// concomitant use" or "monitor when the drugs are taken together"
+const REFERS_TO_PAIR =
+  /\b(?:the|this|these|such) (?:combination|coadministration|co-administration|drugs|medicines|medications)\b|\bconcomitant use\b(?! (?:with|of)\b)|\b(?:together|both)\b/;
+
+interface ClauseScore {
+  // The whole sentence, which is what's shown as evidence
+  sentence: string;
+  relevance: number;
+  scores: Record<InteractionSeverity, number>;
+}
+
+// Character ranges of the clauses of a sentence
+const clauseSpans = (sentence: string): [number, number][] => {
+  const spans: [number, number][] = [];
+  let start = 0;
+  for (const match of sentence.matchAll(CLAUSE_BREAK)) {
+    spans.push([start, match.index!]);
+    start = match.index! + match[0].length;
+  }
+  spans.push([start, sentence.length]);
+  return spans.filter(([from, to]) => sentence.slice(from, to).trim());
+};
+
+// The last few words before a position, within its clause
+const wordsBefore = (
+  text: string,
+  position: number,
+  count: number
+): string => {
+  const clauseStart = Math.max(
+    text.lastIndexOf(",", position),
+    text.lastIndexOf(";", position)
+  );
+  return text
+    .slice(clauseStart + 1, position)
+    .trim()
+    .split(/\s+/)
+    .slice(-count)
+    .join(" ");
+};
+
+const isNegated = (text: string, start: number, end: number): boolean =>
+  NEGATORS.test(wordsBefore(text, start, NEGATION_WINDOW)) ||
+  TRAILING_NEGATION.test(text.slice(end));
+
+const scoreClause = (clause: string): Record<InteractionSeverity, number> => {
+  const scores: Record<InteractionSeverity, number> = {
+    none: 0,
+    minor: 0,
+    moderate: 0,
+    major: 0,
+  };
+  let text = clause.toLowerCase();
+  const hedge = HEDGES.test(text) ? HEDGE_FACTOR : 1;
+
+  for (const cue of PHRASE_CUES) {
+    text = text.replace(cue.pattern, (match) => {
+      scores[cue.severity] +=
+        cue.severity === "major" ? cue.weight : cue.weight * hedge;
+      return " ".repeat(match.length);
+    });
+  }
+
+  for (const cue of WORD_CUES) {
+    for (const match of text.matchAll(cue.pattern)) {
+      const start = match.index!;
+      if (isNegated(text, start, start + match[0].length)) {
+        // "did not increase the risk" argues against an interaction
+        scores.none += cue.weight * 0.8;
+      } else if (
+        cue.severity === "moderate" &&
+        DIMINISHERS.test(wordsBefore(text, start, DIMINISHER_WINDOW))
+      ) {
+        scores.minor += cue.weight * hedge;
+      } else {
+        scores[cue.severity] += cue.weight * hedge;
+      }
+    }
+  }
+  return scores;
+};
+
+/**
+ * Classifies how severe an interaction is from label text about it. Each
+ * clause is scored on severity cues, reading negated cues ("no clinically
+ * significant interaction", "did not increase", "an increase was not
+ * observed") as evidence against an interaction and hedged ones ("may") as
+ * weaker. Clauses naming both drugs
+ * outrank clauses naming one, which outrank the rest, so advice about a
+ * third drug in the same sentence doesn't decide the pair's severity; a
+ * clause that only refers back to "the combination" counts like the clause
+ * before it. Among the clauses that count, the most severe finding wins.
+ * Confidence falls when the text is hedged, doesn't name the drugs or
+ * disagrees with itself.
+ */
+export const classifyInteractionSeverity = (
+  text: string,
+  firstTerms: string[] = [],
+  secondTerms: string[] = []
+): SeverityClassification => {
+  const firstPatterns = firstTerms.filter(Boolean).map(termPattern);
+  const secondPatterns = secondTerms.filter(Boolean).map(termPattern);
+  const mentions = (patterns: RegExp[], sentence: string) =>
+    patterns.length === 0 || patterns.some((pattern) => pattern.test(sentence));
+
+  const scored: ClauseScore[] = sentenceSpans(text)
+    .map(([start, end]) => text.slice(start, end))
+    .flatMap((sentence) => {
+      let previous = 0.3;
+      return clauseSpans(sentence).map(([start, end]) => {
+        const clause = sentence.slice(start, end);
+        const first = mentions(firstPatterns, clause);
+        const second = mentions(secondPatterns, clause);
+        const relevance =
+          first && second
+            ? 1
+            : first || second
+            ? 0.6
+            : REFERS_TO_PAIR.test(clause.toLowerCase())
+            ? previous
+            : 0.3;
+        previous = relevance;
+        return { sentence, relevance, scores: scoreClause(clause) };
+      });
+    })
+    .filter(({ scores }) => Object.values(scores).some((score) => score > 0));
+
+  if (scored.length === 0) {
+    // Mentioned among the interactions but with nothing saying how serious
+    return { severity: "minor", confidence: 0.2 };
+  }
+
+  const relevance = Math.max(...scored.map((item) => item.relevance));
+  const counted = scored.filter((item) => item.relevance === relevance);
+
+  const severities = Object.keys(SEVERITY_RANK) as InteractionSeverity[];
+  let best: { severity: InteractionSeverity; item: ClauseScore } | null =
+    null;
+  for (const item of counted) {
+    for (const severity of severities) {
+      if (
+        item.scores[severity] > 0 &&
+        (!best ||
+          SEVERITY_RANK[severity] > SEVERITY_RANK[best.severity] ||
+          (severity === best.severity &&
+            item.scores[severity] > best.item.scores[severity]))
+      ) {
+        best = { severity, item };
+      }
+    }
+  }
+  const { severity, item } = best!;
+
+  const strength = item.scores[severity];
+  const total = counted.reduce(
+    (sum, { scores }) =>
+      sum + Object.values(scores).reduce((a, b) => a + b, 0),
+    0
+  );
+  const agreeing = counted.reduce(
+    (sum, { scores }) => sum + scores[severity],
+    0
+  );
+  const confidence =
+    (strength / (strength + 1.5)) *
+    (0.6 + 0.4 * relevance) *
+    (0.7 + 0.3 * (agreeing / total));
+
+  return {
+    severity,
+    confidence:
+      Math.round(Math.min(0.99, Math.max(0.05, confidence)) * 100) / 100,
+    sentence: item.sentence,
+  };
+};
+
+// A label sentence with the severity a pharmacist assigned to the drug pair
+export interface LabeledInteractionSentence {
+  text: string;
+  drugs: [string, string];
+  severity: InteractionSeverity;
+}
+
+export interface SeverityEvaluation {
+  total: number;
+  correct: number;
+  accuracy: number;
+  // Counts of predicted severities for each expected severity
+  confusion: Record<InteractionSeverity, Record<InteractionSeverity, number>>;
+  misclassified: (LabeledInteractionSentence & {
+    predicted: SeverityClassification;
+  })[];
+}
+
+/**
+ * Measures the classifier against labeled sentences, e.g. the corpora in
+ * src/fixtures/severity. `npm run evaluate:severity` reports both.
+ */
+export const evaluateSeverityClassifier = (
+  corpus: LabeledInteractionSentence[]
+): SeverityEvaluation => {
+  const severities = Object.keys(SEVERITY_RANK) as InteractionSeverity[];
+  const confusion = Object.fromEntries(
+    severities.map((expected) => [
+      expected,
+      Object.fromEntries(severities.map((predicted) => [predicted, 0])),
+    ])
+  ) as SeverityEvaluation["confusion"];
+  const misclassified: SeverityEvaluation["misclassified"] = [];
+
+  for (const example of corpus) {
+    const predicted = classifyInteractionSeverity(
+      example.text,
+      [example.drugs[0]],
+      [example.drugs[1]]
+    );
+    confusion[example.severity][predicted.severity]++;
+    if (predicted.severity !== example.severity) {
+      misclassified.push({ ...example, predicted });
+    }
+  }
+
+  const correct = corpus.length - misclassified.length;
+  return {
+    total: corpus.length,
+    correct,
+    accuracy: corpus.length > 0 ? correct / corpus.length : 0,
+    confusion,
+    misclassified,
+  };
+};
@@ -0,0 +1,97 @@
+import { LabelEvidence } from "../types";
+import { DrugLabel } from "../types/openfda";
+
+// Ends of sentences: terminal punctuation followed by whitespace or the end
+const SENTENCE_END = /[.!?]+(?=\s|$)/g;
+
+/**
+ * Character ranges of the sentences in a text block, without surrounding
+ * whitespace
+ */
+export const sentenceSpans = (text: string): [number, number][] => {
+  const spans: [number, number][] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) spans.push([start, end]);
+  };
+
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+  return spans;
+};
+
+// Matches a lowercase term as whole words, allowing any punctuation or
+// spacing between its words, e.g. "insulin glargine" in "Insulin-Glargine"
+export const termPattern = (term: string): RegExp =>
+  new RegExp(
+    `\\b${term
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+      .join("[^a-z0-9]+")}\\b`,
+    "i"
+  );
+
+/**
+ * Converts a label's effective_time (YYYYMMDD) to an ISO date
+ */
+export const labelEffectiveDate = (label: DrugLabel): string | undefined => {
+  const match = label.effective_time?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+/**
+ * Readable name of a label section field: "drug_interactions" becomes
+ * "Drug Interactions"
+ */
+export const formatSectionName = (section: string): string =>
+  section
+    .split("_")
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+/**
+ * Every sentence in a label section that mentions one of the terms, with the
+ * label version it came from
+ */
+export const findLabelEvidence = (
+  label: DrugLabel,
+  section: string,
+  terms: string[]
+): LabelEvidence[] => {
+  const blocks = label[section];
+  if (!Array.isArray(blocks)) return [];
+
+  const patterns = terms.filter(Boolean).map(termPattern);
+  const drugName =
+    label.openfda.brand_name?.[0] ||
+    label.openfda.generic_name?.[0] ||
+    "Unknown medication";
+
+  const evidence: LabelEvidence[] = [];
+  for (const passage of blocks) {
+    if (typeof passage !== "string") continue;
+    for (const [matchStart, matchEnd] of sentenceSpans(passage)) {
+      const sentence = passage.slice(matchStart, matchEnd);
+      if (!patterns.some((pattern) => pattern.test(sentence))) continue;
+      evidence.push({
+        drugName,
+        labelId: label.id,
+        setId: label.set_id,
+        version: label.version,
+        effectiveDate: labelEffectiveDate(label),
+        section,
+        passage,
+        matchStart,
+        matchEnd,
+      });
+    }
+  }
+  return evidence;
+};
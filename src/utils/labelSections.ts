@@ -0,0 +1,114 @@
+import { DrugLabel } from "../types/openfda";
+import { formatSectionName } from "./labelEvidence";
+
+export interface LabelSection {
+  // SPL field name, e.g. "dosage_and_administration"
+  key: string;
+  title: string;
+  text: string;
+}
+
+// SPL sections in the order they appear in a printed label. Older labels use
+// "warnings" and "precautions" where newer ones use "warnings_and_cautions".
+const SECTION_ORDER = [
+  "boxed_warning",
+  "indications_and_usage",
+  "dosage_and_administration",
+  "dosage_forms_and_strengths",
+  "contraindications",
+  "warnings_and_cautions",
+  "warnings",
+  "precautions",
+  "adverse_reactions",
+  "drug_interactions",
+  "use_in_specific_populations",
+  "pregnancy",
+  "teratogenic_effects",
+  "labor_and_delivery",
+  "lactation",
+  "nursing_mothers",
+  "pregnancy_or_breast_feeding",
+  "females_and_males_of_reproductive_potential",
+  "pediatric_use",
+  "geriatric_use",
+  "drug_abuse_and_dependence",
+  "overdosage",
+  "description",
+  "clinical_pharmacology",
+  "mechanism_of_action",
+  "pharmacodynamics",
+  "pharmacokinetics",
+  "nonclinical_toxicology",
+  "clinical_studies",
+  "how_supplied",
+  "storage_and_handling",
+  "patient_counseling_information",
+  "patient_medication_information",
+  "information_for_patients",
+  "spl_medguide",
+  "spl_patient_package_insert",
+];
+
+// Fields that aren't readable sections: identifiers, HTML copies of tables,
+// the product data listing and the carton text
+const SKIPPED_FIELDS =
+  /^(?:id|set_id|version|effective_time|openfda|spl_product_data_elements|package_label_principal_display_panel)$|_table$/;
+
+// Titles that read better than the field name
+const SECTION_TITLES: Record<string, string> = {
+  spl_medguide: "Medication Guide",
+  spl_patient_package_insert: "Patient Package Insert",
+  spl_unclassified_section: "Other Information",
+};
+
+/**
+ * Every readable section of a label, in printed label order, followed by any
+ * sections the order doesn't know about. Each section's text blocks are
+ * joined with blank lines between them.
+ */
+export const getLabelSections = (label: DrugLabel): LabelSection[] => {
+  const keys = Object.keys(label).filter(
+    (key) =>
+      !SKIPPED_FIELDS.test(key) &&
+      Array.isArray(label[key]) &&
+      (label[key] as unknown[]).some(
+        (block) => typeof block === "string" && block.trim()
+      )
+  );
+  const rank = (key: string) => {
+    const index = SECTION_ORDER.indexOf(key);
+    return index === -1 ? SECTION_ORDER.length : index;
+  };
+
+  return keys
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map((key) => ({
+      key,
+      title: SECTION_TITLES[key] || formatSectionName(key),
+      text: (label[key] as string[])
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .join("\n\n"),
+    }));
+};
+
+/**
+ * Character ranges of every case-insensitive occurrence of a query in a
+ * text, as [start, end)
+ */
+export const findTextMatches = (
+  text: string,
+  query: string
+): [number, number][] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const haystack = text.toLowerCase();
+  const matches: [number, number][] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    matches.push([index, index + needle.length]);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+};
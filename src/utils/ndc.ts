@@ -0,0 +1,101 @@
+// Segment lengths of 10-digit NDCs: labeler, product and package
+const TEN_DIGIT_LAYOUTS: [number, number, number][] = [
+  [4, 4, 2],
+  [5, 3, 2],
+  [5, 4, 1],
+];
+
+// Segment lengths of product NDCs, which leave out the package
+const PRODUCT_LAYOUTS: [number, number][] = [
+  [4, 4],
+  [5, 3],
+  [5, 4],
+];
+
+const split = (digits: string, lengths: number[]): string[] => {
+  const segments: string[] = [];
+  let start = 0;
+  for (const length of lengths) {
+    segments.push(digits.slice(start, start + length));
+    start += length;
+  }
+  return segments;
+};
+
+// An 11-digit billing code pads one segment of a 10-digit NDC with a leading
+// zero; the package segment doesn't matter for the product
+const unpadProduct = (labeler: string, product: string): string[] => [
+  `${labeler}-${product}`,
+  ...(labeler.startsWith("0") ? [`${labeler.slice(1)}-${product}`] : []),
+  ...(product.startsWith("0") ? [`${labeler}-${product.slice(1)}`] : []),
+];
+
+/**
+ * Product NDCs ("labeler-product") an NDC as printed on a package could
+ * stand for. Hyphenated codes give one; bare digits may give several, since
+ * 10-digit NDCs come in 4-4-2, 5-3-2 and 5-4-1 layouts. 11-digit billing
+ * codes (5-4-2, zero-padded) are mapped back to the 10-digit layouts.
+ */
+export const productNdcCandidates = (input: string): string[] => {
+  const text = input.trim().replace(/\s+/g, "");
+  const candidates: string[] = [];
+
+  if (/^\d+-\d+(-\d+)?$/.test(text)) {
+    const [labeler, product, pack] = text.split("-");
+    if (labeler.length === 5 && product.length === 4 && pack?.length === 2) {
+      candidates.push(...unpadProduct(labeler, product));
+    } else if (labeler.length + product.length <= 9) {
+      candidates.push(`${labeler}-${product}`);
+    }
+  } else if (/^\d+$/.test(text)) {
+    if (text.length === 11) {
+      const [labeler, product] = split(text, [5, 4, 2]);
+      candidates.push(...unpadProduct(labeler, product));
+    } else if (text.length === 10) {
+      for (const layout of TEN_DIGIT_LAYOUTS) {
+        const [labeler, product] = split(text, layout);
+        candidates.push(`${labeler}-${product}`);
+      }
+    } else if (text.length === 8 || text.length === 9) {
+      for (const layout of PRODUCT_LAYOUTS) {
+        if (layout[0] + layout[1] !== text.length) continue;
+        const [labeler, product] = split(text, layout);
+        candidates.push(`${labeler}-${product}`);
+      }
+    }
+  }
+
+  return Array.from(new Set(candidates));
+};
+
+// Digits of an NDC, so "0000-4001-90" and "0000400190" compare equal
+export const ndcDigits = (ndc: string): string => ndc.replace(/\D/g, "");
+
+// "labeler-product" part of a hyphenated package or product NDC
+export const toProductNdc = (ndc: string): string =>
+  ndc.split("-").slice(0, 2).join("-");
+
+// 11-digit billing form of a hyphenated NDC: segments padded to 5-4-2
+const toElevenDigits = (ndc: string): string => {
+  const [labeler, product, pack = ""] = ndc.split("-");
+  return [
+    labeler.padStart(5, "0"),
+    product.padStart(4, "0"),
+    pack.padStart(2, "0"),
+  ].join("");
+};
+
+/**
+ * Whether a package NDC from the NDC directory is the code a user entered,
+ * written either way
+ */
+export const isSamePackageNdc = (
+  packageNdc: string,
+  input: string
+): boolean => {
+  const digits = ndcDigits(input);
+  return (
+    ndcDigits(packageNdc) === digits ||
+    (digits.length === 11 && toElevenDigits(packageNdc) === digits)
+  );
+};
@@ -0,0 +1,68 @@
+// MedDRA preferred terms used in FAERS reports, which use British spelling,
+// with the everyday names patients log the same symptom under, lowercase
+const REACTION_SYNONYMS: Record<string, string[]> = {
+  "abdominal pain": ["stomach pain", "stomach ache", "belly pain", "cramps"],
+  "abdominal pain upper": ["stomach pain", "indigestion", "heartburn"],
+  dyspepsia: ["indigestion", "heartburn", "upset stomach"],
+  nausea: ["feeling sick", "queasy", "upset stomach"],
+  vomiting: ["throwing up", "being sick"],
+  diarrhoea: ["diarrhea", "loose stools"],
+  constipation: ["hard stools"],
+  headache: ["head ache", "migraine"],
+  dizziness: ["dizzy", "lightheaded", "light headed", "vertigo"],
+  fatigue: ["tired", "tiredness", "exhaustion", "low energy"],
+  somnolence: ["drowsy", "drowsiness", "sleepy", "sleepiness"],
+  insomnia: ["can't sleep", "trouble sleeping", "sleeplessness"],
+  myalgia: ["muscle pain", "muscle ache", "muscle aches", "sore muscles"],
+  arthralgia: ["joint pain", "aching joints"],
+  pyrexia: ["fever", "high temperature"],
+  cough: ["coughing", "dry cough"],
+  dyspnoea: ["shortness of breath", "breathlessness", "short of breath"],
+  rash: ["skin rash", "hives"],
+  pruritus: ["itching", "itchy skin", "itchy"],
+  urticaria: ["hives"],
+  oedema: ["edema", "swelling"],
+  "oedema peripheral": ["swollen ankles", "swollen feet", "swollen legs"],
+  palpitations: ["racing heart", "pounding heart", "heart racing"],
+  "gastrointestinal haemorrhage": [
+    "stomach bleeding",
+    "gi bleed",
+    "blood in stool",
+  ],
+  haemorrhage: ["bleeding"],
+  anxiety: ["nervousness", "anxious"],
+  "depressed mood": ["feeling down", "low mood", "depression"],
+  "vision blurred": ["blurred vision", "blurry vision"],
+  "dry mouth": ["cotton mouth"],
+  tremor: ["shaking", "shakiness", "shaky hands"],
+};
+
+const normalizeReaction = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Whole-word containment, so "pain" matches "muscle pain" but not "painful"
+const containsWords = (text: string, words: string): boolean =>
+  !!words && ` ${text} `.includes(` ${words} `);
+
+/**
+ * Whether a FAERS reaction term describes a symptom the patient logged,
+ * either by name ("Headache" and "headache", "Abdominal pain" and
+ * "abdominal pain after meals") or through an everyday name for the term
+ * ("Pyrexia" and "fever")
+ */
+export const reactionMatchesSymptom = (
+  reaction: string,
+  symptom: string
+): boolean => {
+  const term = normalizeReaction(reaction);
+  const logged = normalizeReaction(symptom);
+  if (!term || !logged) return false;
+  if (containsWords(logged, term) || containsWords(term, logged)) return true;
+  return (REACTION_SYNONYMS[term] || []).some(
+    (name) => containsWords(logged, name) || containsWords(name, logged)
+  );
+};